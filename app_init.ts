@@ -5,6 +5,9 @@
 import CustomError from './src/libs/error_handler';
 import connectDb from './src/database/index';
 import logger from './src/libs/logger';
+import jobQueue from './src/libs/jobs';
+import requestPoller from './src/libs/request_poller';
+import syncScheduler from './src/libs/sync_scheduler';
 
 export default async () => {
 	try {
@@ -22,6 +25,15 @@ export default async () => {
 		// Wait database to connect
 		await connectDb(dbUrl);
 		logger.info('Connected to database');
+
+		// Pick up jobs that were queued or interrupted before the server restarted
+		await jobQueue.resume();
+
+		// Check for approved joining and continuing learner requests in the background
+		requestPoller.start();
+
+		// Sync each institution's database with NEMIS on a schedule
+		await syncScheduler.start();
 	} catch (err) {
 		throw err;
 	}
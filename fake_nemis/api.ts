@@ -0,0 +1,145 @@
+/*
+ * Copyright (c) 2023. MIT License. Maina Derrick.
+ */
+
+/**
+ * Fake NEMIS public api found at nemis.education.go.ke/generic2. Responses use the same keys as the live
+ * api, NemisApiService lower cases them before parsing.
+ */
+import { Request, Response, Router } from 'express';
+import state, { FakeCandidate } from './state';
+
+const apiRouter = Router();
+
+const GRADE_NAMES: { [K: string]: string } = {
+    'form 1': 'Form 1',
+    'form 2': 'Form 2',
+    'form 3': 'Form 3',
+    'form 4': 'Form 4'
+};
+
+const LEVEL_CODES = { Primary: '2', Secondary: '3', JSS: '6' } as const;
+
+const results = (candidate: FakeCandidate) => ({
+    Index_No: candidate.indexNo,
+    Ge: candidate.gender,
+    Name: candidate.name.toUpperCase(),
+    School_Name: candidate.primarySchool.toUpperCase(),
+    Tot: String(candidate.marks),
+    District_Code: '',
+    District_Name: candidate.subCounty.toUpperCase(),
+    Yob: String(candidate.yob),
+    Citizenship: 'KENYAN',
+    School_Code: '',
+    School_Category: '',
+    Selected_School: candidate.selectedSchool
+});
+
+const reported = (candidate: FakeCandidate) => {
+    let institution = state.getInstitution(candidate.admittedTo);
+    return {
+        Index_No: candidate.indexNo,
+        Institution_Code: institution?.code,
+        UPI: candidate.upi || '',
+        BirthCert: state.findLearner(candidate.upi)?.birthCertificateNo || '',
+        DateReported: candidate.admittedOn,
+        CapturedBy: institution?.code,
+        Name: candidate.name.toUpperCase(),
+        InstitutionName: institution?.name.toUpperCase()
+    };
+};
+
+const notFound = (res: Response, indexNo: string) =>
+    res.status(400).send('No Form One Admission for ' + indexNo);
+
+apiRouter.get('/api/SchDashboard/:code', (req: Request, res: Response) => {
+    let institution = state.getInstitution(req.params.code);
+    if (!institution) return res.status(404).send('Institution not found');
+
+    res.json(institution.supportedGrades.map(x => ({ class_Name: GRADE_NAMES[x] || x })));
+});
+
+apiRouter.get('/api/Learner/StudUpi/:id', (req: Request, res: Response) => {
+    let learner = state.findLearner(req.params.id);
+
+    if (!learner) {
+        return res.json({ xcat: '0', xcatdesc: 'Not a Learner', names: '' });
+    }
+
+    let institution = state.getInstitution(learner.institutionCode);
+    let [surname, firstname, ...otherNames] = learner.name.split(' ');
+
+    res.json({
+        xcat: '1',
+        xcatdesc: 'Current Learner',
+        upi: learner.upi,
+        names: learner.name.toUpperCase(),
+        surname: surname,
+        firstname: firstname,
+        othernames: otherNames.join(' '),
+        institution_name: institution?.name.toUpperCase(),
+        institution_code: institution?.code,
+        institution_type: institution?.type,
+        institution_level_code: institution ? LEVEL_CODES[institution.educationLevel] : undefined,
+        gender: learner.gender,
+        dob2: learner.dob,
+        birth_cert_no: learner.birthCertificateNo,
+        nhif_no: learner.nhifNo || null,
+        nationality: learner.nationality || '1',
+        class_name: GRADE_NAMES[learner.grade] || learner.grade,
+        father_name: learner.father?.name || null,
+        father_idno: learner.father?.id || null,
+        father_contacts: learner.father?.tel || null,
+        mother_name: learner.mother?.name || null,
+        mother_idno: learner.mother?.id || null,
+        mother_contacts: learner.mother?.tel || null,
+        guardian_name: learner.guardian?.name || null,
+        guardian_idno: learner.guardian?.id || null,
+        guardian_contacts: learner.guardian?.tel || null,
+        special_medical_condition: learner.medicalCondition || '0'
+    });
+});
+
+apiRouter.get('/api/FormOne/Results/:indexNo', (req: Request, res: Response) => {
+    let candidate = state.findCandidate(req.params.indexNo);
+    if (!candidate) return notFound(res, req.params.indexNo);
+
+    res.json(results(candidate));
+});
+
+apiRouter.get('/api/FormOne/Admission/:indexNo', (req: Request, res: Response) => {
+    let candidate = state.findCandidate(req.params.indexNo);
+    let school = state.institutions.find(x => x.knecCode === candidate?.selectedSchool);
+    if (!candidate || !school) return notFound(res, req.params.indexNo);
+
+    res.json({
+        ...results(candidate),
+        Method: candidate.deferred ? 'DIFFERED ADMISSION' : 'SELECTION',
+        SchoolAdmitted: `${school.knecCode} ${school.name.toUpperCase()} School Type:${
+            school.type
+        },School Category:${school.category}`,
+        Category2: school.category
+    });
+});
+
+apiRouter.get('/api/FormOne/Reported/:code/:indexNo', (req: Request, res: Response) => {
+    let candidate = state.findCandidate(req.params.indexNo);
+    if (!candidate?.admittedTo) return notFound(res, req.params.indexNo);
+
+    res.json(reported(candidate));
+});
+
+apiRouter.get('/api/FormOne/ReportedCaptured/:indexNo', (req: Request, res: Response) => {
+    let candidate = state.findCandidate(req.params.indexNo);
+    if (!candidate?.admittedTo || !candidate.upi) return notFound(res, req.params.indexNo);
+
+    let institution = state.getInstitution(candidate.admittedTo);
+    res.json({
+        ...reported(candidate),
+        ReportedLabel: `${institution?.knecCode}: ${institution?.name.toUpperCase()}, Type: ${
+            institution?.type
+        }, Category: ${institution?.category}, UPI: ${candidate.upi}`
+    });
+});
+
+export default apiRouter;
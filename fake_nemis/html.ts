@@ -0,0 +1,97 @@
+/*
+ * Copyright (c) 2023. MIT License. Maina Derrick.
+ */
+
+/**
+ * Helpers that render pages the way the ASP.NET WebForms site at nemis.education.go.ke does. Only the
+ * parts NemisWebService reads are rendered; ids, view state fields and partial post-back (delta)
+ * responses are kept identical to the live website.
+ */
+import { FakeSession } from './state';
+
+const VIEW_STATE_GENERATOR = 'CA0B0334';
+
+const escapeHtml = (value: unknown) =>
+    String(value ?? '')
+        .replaceAll('&', '&amp;')
+        .replaceAll('<', '&lt;')
+        .replaceAll('>', '&gt;')
+        .replaceAll('"', '&quot;');
+
+/**
+ * A new view state for every response. The message is included in the encoded view state since some
+ * pages, such as /Learner/StudReceive.aspx, only report the result of a post in the view state.
+ */
+const viewState = (session: FakeSession | undefined, page: string, message = '') => {
+    let counter = session ? ++session.viewStateCounter : 0;
+    return {
+        __VIEWSTATE: Buffer.from(`${page}|${counter}|${message}`).toString('base64'),
+        __VIEWSTATEGENERATOR: VIEW_STATE_GENERATOR,
+        __EVENTVALIDATION: Buffer.from(`${page}|${counter}|validation`).toString('base64')
+    };
+};
+
+const page = (
+    session: FakeSession | undefined,
+    name: string,
+    body: string,
+    opts?: { viewStateMessage?: string }
+) => {
+    let state = viewState(session, name, opts?.viewStateMessage);
+    return `<!DOCTYPE html>
+<html>
+<head><title>NEMIS - ${escapeHtml(name)}</title></head>
+<body>
+<form method="post" action="./${escapeHtml(name)}" id="form1">
+<input type="hidden" name="__EVENTTARGET" id="__EVENTTARGET" value="" />
+<input type="hidden" name="__EVENTARGUMENT" id="__EVENTARGUMENT" value="" />
+<input type="hidden" name="__LASTFOCUS" id="__LASTFOCUS" value="" />
+<input type="hidden" name="__VIEWSTATE" id="__VIEWSTATE" value="${state.__VIEWSTATE}" />
+<input type="hidden" name="__VIEWSTATEGENERATOR" id="__VIEWSTATEGENERATOR" value="${state.__VIEWSTATEGENERATOR}" />
+<input type="hidden" name="__EVENTVALIDATION" id="__EVENTVALIDATION" value="${state.__EVENTVALIDATION}" />
+${body}
+</form>
+</body>
+</html>`;
+};
+
+// Response to an async post made by an UpdatePanel
+const delta = (session: FakeSession | undefined, name: string, html: string) => {
+    let state = viewState(session, name);
+    let fields = [
+        ['updatePanel', 'ctl00_ContentPlaceHolder1_UpdatePanel1', html],
+        ['hiddenField', '__EVENTTARGET', ''],
+        ['hiddenField', '__EVENTARGUMENT', ''],
+        ['hiddenField', '__VIEWSTATE', state.__VIEWSTATE],
+        ['hiddenField', '__VIEWSTATEGENERATOR', state.__VIEWSTATEGENERATOR],
+        ['hiddenField', '__EVENTVALIDATION', state.__EVENTVALIDATION]
+    ];
+    return '1|#||4|' + fields.map(([type, id, value]) => `${value.length}|${type}|${id}|${value}|`).join('');
+};
+
+// Redirect sent in response to an async post, e.g. 1|#||4|26|pageRedirect||%2fLearner%2fAlearner.aspx|
+const pageRedirect = (path: string) => {
+    let encoded = encodeURIComponent(path).replaceAll('%2F', '%2f');
+    return `1|#||4|${encoded.length}|pageRedirect||${encoded}|`;
+};
+
+const table = (id: string, headers: string[], rows: string[][], rowClass = 'GridRow') =>
+    `<table id="${id}" class="table">
+<tr class="GridHeader">${headers.map(x => `<th scope="col">${escapeHtml(x)}</th>`).join('')}</tr>
+${rows.map(row => `<tr class="${rowClass}">${row.map(x => `<td>${x}</td>`).join('')}</tr>`).join('\n')}
+</table>`;
+
+const select = (id: string, options: [string | number, string][], selected?: string | number) =>
+    `<select name="${id}" id="${id}">${options
+        .map(
+            ([value, text]) =>
+                `<option ${
+                    String(value) === String(selected) ? 'selected="selected" ' : ''
+                }value="${escapeHtml(value)}">${escapeHtml(text)}</option>`
+        )
+        .join('')}</select>`;
+
+const input = (id: string, value?: unknown) =>
+    `<input name="${id}" type="text" id="${id}" value="${escapeHtml(value)}" />`;
+
+export { escapeHtml, page, delta, pageRedirect, table, select, input };
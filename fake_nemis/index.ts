@@ -0,0 +1,70 @@
+/*
+ * Copyright (c) 2023. MIT License. Maina Derrick.
+ */
+
+/**
+ * A stand-in for nemis.education.go.ke used to run the API end to end without touching the live
+ * website. Start it with `npm run fake:nemis` then point the API to it using
+ * NEMIS_WEB_URL=http://localhost:4000 and NEMIS_API_URL=http://localhost:4000/generic2
+ *
+ * GET /__fake/state returns the current in-memory state while POST /__fake/reset restores the seed,
+ * or the seed posted as json. POST /__fake/joining/:indexNo/approve and
+ * POST /__fake/continuing/:birthCertificateNo/approve approve pending joining and continuing requests.
+ */
+require('dotenv').config();
+import express, { NextFunction, Request, Response } from 'express';
+import state, { FakeSeed } from './state';
+import webRouter from './web';
+import apiRouter from './api';
+import logger from '../src/libs/logger';
+
+const app = express();
+
+app.use(express.urlencoded({ extended: true }), express.json({ limit: '10mb' }));
+
+app.get('/__fake/state', (req: Request, res: Response) => {
+    res.json({
+        institutions: state.institutions,
+        learners: state.learners,
+        candidates: state.candidates,
+        transfers: state.transfers,
+        joiningRequests: state.joiningRequests,
+        continuingRequests: state.continuingRequests
+    });
+});
+
+app.post('/__fake/joining/:indexNo/approve', (req: Request, res: Response) => {
+    let request = state.approveJoiningRequest(req.params.indexNo, req.body?.approvedBy);
+    if (!request) {
+        res.status(404).json({ message: `No pending joining request for ${req.params.indexNo}.` });
+        return;
+    }
+    res.json(request);
+});
+
+app.post('/__fake/continuing/:birthCertificateNo/approve', (req: Request, res: Response) => {
+    let request = state.approveContinuingRequest(req.params.birthCertificateNo);
+    if (!request) {
+        res.status(404).json({
+            message: `No pending continuing request for ${req.params.birthCertificateNo}.`
+        });
+        return;
+    }
+    res.json(request);
+});
+
+app.post('/__fake/reset', (req: Request, res: Response) => {
+    state.reset(req.body?.institutions ? (req.body as FakeSeed) : undefined);
+    res.json({ message: 'Fake NEMIS state has been reset.' });
+});
+
+app.use('/generic2', apiRouter);
+app.use('/', webRouter);
+
+app.use((err: any, req: Request, res: Response, next: NextFunction) => {
+    logger.error(err);
+    res.status(500).send('Internal server error');
+});
+
+let port = process.env.FAKE_NEMIS_PORT || 4000;
+app.listen(port, () => logger.info(`Fake NEMIS server started on port ${port}`));
@@ -0,0 +1,447 @@
+/*
+ * Copyright (c) 2023. MIT License. Maina Derrick.
+ */
+
+/**
+ * In-memory state of the fake NEMIS server. Everything the fake website and api return is read from
+ * here, and every admission, capture, transfer or NHIF submission updates it, so that later list pages
+ * reflect what was done earlier. State is lost when the server stops, use seed files to start from a
+ * known state.
+ */
+import { readFileSync } from 'fs';
+import { randomBytes } from 'crypto';
+
+const GRADE_CODES = {
+    'form 1': 12,
+    'form 2': 13,
+    'form 3': 14,
+    'form 4': 15,
+    'pp 1': 16,
+    'pp 2': 17,
+    'grade 1': 18,
+    'grade 2': 19,
+    'grade 3': 20,
+    'grade 4': 21,
+    'grade 5': 22,
+    'grade 6': 23,
+    'grade 7': 24,
+    'grade 8': 25,
+    'grade 9': 26,
+    'grade 10': 27,
+    'grade 11': 28
+} as const;
+
+type FakeGrade = keyof typeof GRADE_CODES;
+
+interface FakeInstitution {
+    code: string;
+    password: string;
+    knecCode: string;
+    name: string;
+    gender: 'Boys' | 'Girls' | 'Mixed';
+    type: 'Public' | 'Private';
+    category: string;
+    educationLevel: 'Primary' | 'Secondary' | 'JSS';
+    county: string;
+    subCounty: string;
+    supportedGrades: FakeGrade[];
+}
+
+interface FakeParent {
+    name?: string;
+    id?: string;
+    tel?: string;
+}
+
+interface FakeLearner {
+    upi: string;
+    name: string;
+    gender: 'M' | 'F';
+    // ISO date string, yyyy-mm-dd
+    dob: string;
+    birthCertificateNo: string;
+    grade: FakeGrade;
+    institutionCode: string;
+    indexNo?: string;
+    nhifNo?: string;
+    nationality?: string;
+    medicalCondition?: string;
+    county?: string;
+    subCounty?: string;
+    address?: string;
+    homePhone?: string;
+    isSpecial?: boolean;
+    father?: FakeParent;
+    mother?: FakeParent;
+    guardian?: FakeParent;
+}
+
+// A KCPE candidate selected to join form one
+interface FakeCandidate {
+    indexNo: string;
+    name: string;
+    gender: 'M' | 'F';
+    marks: number;
+    yob: number;
+    primarySchool: string;
+    subCounty: string;
+    // KNEC code of the school the candidate was selected to
+    selectedSchool: string;
+    // Institution code of the school that admitted the candidate
+    admittedTo?: string;
+    admittedOn?: string;
+    adm?: string;
+    // UPI assigned when the candidate's bio-data was captured
+    upi?: string;
+    // Admission deferred to a later intake, admitted from /Learner/differedadmissions.aspx
+    deferred?: boolean;
+}
+
+interface FakeTransfer {
+    upi: string;
+    from: string;
+    to: string;
+    reason: string;
+    remark?: string;
+    requestedOn: string;
+    status: 'pending' | 'released' | 'rejected';
+}
+
+// A request to admit a candidate selected to another school, approved by the sub-county director
+interface FakeJoiningRequest {
+    indexNo: string;
+    institutionCode: string;
+    adm: string;
+    description: string;
+    parentId: string;
+    parentTel: string;
+    requestedOn: string;
+    status: 'pending' | 'approved';
+    approvedOn?: string;
+    approvedBy?: string;
+}
+
+// A request to capture a continuing learner who was never admitted, approved by the sub-county director
+interface FakeContinuingRequest {
+    institutionCode: string;
+    adm: string;
+    surname: string;
+    firstname: string;
+    otherName: string;
+    gender: 'M' | 'F';
+    kcpeYear: string;
+    indexNo: string;
+    birthCertificateNo: string;
+    grade: FakeGrade;
+    remark: string;
+    requestedOn: string;
+    status: 'pending' | 'approved';
+    approvedOn?: string;
+    // UPI assigned when the learner's bio-data was captured
+    upi?: string;
+}
+
+interface FakeSession {
+    id: string;
+    institutionCode?: string;
+    // Grade selected on /Learner/Listlearners.aspx
+    grade?: FakeGrade;
+    // Learner opened using the view button on /Learner/Listlearners.aspx
+    viewing?: string;
+    // What a bio-data capture on /Learner/Alearner.aspx will be saved as
+    capture?:
+        | { kind: 'continuing'; grade: FakeGrade }
+        | { kind: 'joining'; indexNo: string }
+        | { kind: 'request'; birthCertificateNo: string };
+    // Learner searched on /Learner/StudReceive.aspx
+    transferSearch?: string;
+    viewStateCounter: number;
+}
+
+interface FakeSeed {
+    institutions: FakeInstitution[];
+    learners: FakeLearner[];
+    candidates: FakeCandidate[];
+    transfers?: FakeTransfer[];
+    joiningRequests?: FakeJoiningRequest[];
+    continuingRequests?: FakeContinuingRequest[];
+}
+
+const defaultSeed: FakeSeed = {
+    institutions: [
+        {
+            code: 'FAKE01',
+            password: 'password',
+            knecCode: '20400001',
+            name: 'Fake Mixed Secondary School',
+            gender: 'Mixed',
+            type: 'Public',
+            category: 'County',
+            educationLevel: 'Secondary',
+            county: 'Nairobi',
+            subCounty: 'Westlands',
+            supportedGrades: ['form 1', 'form 2', 'form 3', 'form 4']
+        },
+        {
+            code: 'FAKE02',
+            password: 'password',
+            knecCode: '20400002',
+            name: 'Other Girls Secondary School',
+            gender: 'Girls',
+            type: 'Public',
+            category: 'Extra County',
+            educationLevel: 'Secondary',
+            county: 'Nairobi',
+            subCounty: 'Kasarani',
+            supportedGrades: ['form 1', 'form 2', 'form 3', 'form 4']
+        }
+    ],
+    learners: [
+        {
+            upi: 'FKUPI01',
+            name: 'Wanjiku Mary Achieng',
+            gender: 'F',
+            dob: '2008-03-14',
+            birthCertificateNo: '10000001',
+            grade: 'form 2',
+            institutionCode: 'FAKE01'
+        },
+        {
+            upi: 'FKUPI02',
+            name: 'Otieno John Kamau',
+            gender: 'M',
+            dob: '2008-07-02',
+            birthCertificateNo: '10000002',
+            grade: 'form 2',
+            institutionCode: 'FAKE01',
+            nhifNo: '40000002'
+        },
+        {
+            upi: 'FKUPI03',
+            name: 'Akinyi Grace Njeri',
+            gender: 'F',
+            dob: '2007-11-20',
+            birthCertificateNo: '10000003',
+            grade: 'form 3',
+            institutionCode: 'FAKE02'
+        }
+    ],
+    candidates: [
+        {
+            indexNo: '20400100001',
+            name: 'Mutua Peter Kariuki',
+            gender: 'M',
+            marks: 380,
+            yob: 2009,
+            primarySchool: 'Fake Primary School',
+            subCounty: 'Westlands',
+            selectedSchool: '20400001'
+        },
+        {
+            indexNo: '20400100002',
+            name: 'Chebet Faith Wambui',
+            gender: 'F',
+            marks: 365,
+            yob: 2009,
+            primarySchool: 'Fake Primary School',
+            subCounty: 'Westlands',
+            selectedSchool: '20400001'
+        },
+        {
+            indexNo: '20400100003',
+            name: 'Kiprono Brian Mwangi',
+            gender: 'M',
+            marks: 342,
+            yob: 2010,
+            primarySchool: 'Another Primary School',
+            subCounty: 'Kasarani',
+            selectedSchool: '20400001'
+        },
+        {
+            indexNo: '20400100004',
+            name: 'Nafula Esther Atieno',
+            gender: 'F',
+            marks: 401,
+            yob: 2009,
+            primarySchool: 'Another Primary School',
+            subCounty: 'Kasarani',
+            selectedSchool: '20400002'
+        },
+        {
+            indexNo: '20400100005',
+            name: 'Wekesa Daniel Otieno',
+            gender: 'M',
+            marks: 356,
+            yob: 2008,
+            primarySchool: 'Fake Primary School',
+            subCounty: 'Westlands',
+            selectedSchool: '20400001',
+            deferred: true
+        }
+    ]
+};
+
+class FakeNemisState {
+    institutions: FakeInstitution[] = [];
+    learners: FakeLearner[] = [];
+    candidates: FakeCandidate[] = [];
+    transfers: FakeTransfer[] = [];
+    joiningRequests: FakeJoiningRequest[] = [];
+    continuingRequests: FakeContinuingRequest[] = [];
+    sessions = new Map<string, FakeSession>();
+    #upiCounter = 0;
+    #nhifCounter = 0;
+
+    constructor() {
+        this.reset();
+    }
+
+    /**
+     * Restore state to the seed. A seed file set using FAKE_NEMIS_SEED replaces the default seed.
+     */
+    reset(seed?: FakeSeed) {
+        if (!seed && process.env.FAKE_NEMIS_SEED) {
+            seed = JSON.parse(readFileSync(process.env.FAKE_NEMIS_SEED, 'utf-8')) as FakeSeed;
+        }
+        // Deep copy so that changes don't leak into the seed
+        seed = JSON.parse(JSON.stringify(seed ?? defaultSeed)) as FakeSeed;
+
+        this.institutions = seed.institutions;
+        this.learners = seed.learners;
+        this.candidates = seed.candidates;
+        this.transfers = seed.transfers ?? [];
+        this.joiningRequests = seed.joiningRequests ?? [];
+        this.continuingRequests = seed.continuingRequests ?? [];
+        this.sessions.clear();
+        this.#upiCounter = this.learners.length;
+        this.#nhifCounter = 0;
+    }
+
+    newSession() {
+        let session: FakeSession = { id: randomBytes(12).toString('hex'), viewStateCounter: 0 };
+        this.sessions.set(session.id, session);
+        return session;
+    }
+
+    getInstitution(code?: string) {
+        return this.institutions.find(x => x.code.toLowerCase() === code?.toLowerCase());
+    }
+
+    findLearner(upiOrBirthCertificateNo?: string) {
+        let id = upiOrBirthCertificateNo?.trim().toLowerCase();
+        if (!id) return;
+        return this.learners.find(
+            x => x.upi.toLowerCase() === id || x.birthCertificateNo.toLowerCase() === id
+        );
+    }
+
+    findCandidate(indexNo?: string) {
+        return this.candidates.find(x => x.indexNo === indexNo?.trim());
+    }
+
+    // Learners listed for a grade, ordered the same way on every request so that post-backs stay valid
+    listLearners(institutionCode: string, grade: FakeGrade) {
+        return this.learners
+            .filter(x => x.institutionCode === institutionCode && x.grade === grade)
+            .sort((a, b) => a.upi.localeCompare(b.upi));
+    }
+
+    // Form ones admitted to an institution, whether their bio-data is captured or not
+    listAdmitted(institutionCode: string) {
+        return this.candidates
+            .filter(x => x.admittedTo === institutionCode)
+            .sort((a, b) => a.indexNo.localeCompare(b.indexNo));
+    }
+
+    // Candidates selected to an institution whose admission was deferred and are yet to be admitted
+    listDeferred(institutionCode: string) {
+        let institution = this.getInstitution(institutionCode);
+        return this.candidates
+            .filter(x => x.deferred && !x.admittedTo && x.selectedSchool === institution?.knecCode)
+            .sort((a, b) => a.indexNo.localeCompare(b.indexNo));
+    }
+
+    // Transfers requested by an institution, or requested from it when method is out
+    listTransfers(institutionCode: string, method: 'in' | 'out') {
+        return this.transfers
+            .filter(x => (method === 'in' ? x.to : x.from) === institutionCode)
+            .sort((a, b) => a.requestedOn.localeCompare(b.requestedOn));
+    }
+
+    // Joining requests made by an institution, approved requests only when status is approved
+    listJoiningRequests(institutionCode: string, status?: FakeJoiningRequest['status']) {
+        return this.joiningRequests
+            .filter(x => x.institutionCode === institutionCode && (!status || x.status === status))
+            .sort((a, b) => a.requestedOn.localeCompare(b.requestedOn));
+    }
+
+    /**
+     * Approve a joining request the way a sub-county director would, the candidate is then selected to
+     * the requesting institution and can be admitted.
+     */
+    approveJoiningRequest(indexNo: string, approvedBy = 'SCDE') {
+        let request = this.joiningRequests.find(
+            x => x.indexNo === indexNo && x.status === 'pending'
+        );
+        let candidate = this.findCandidate(indexNo);
+        let institution = this.getInstitution(request?.institutionCode);
+        if (!request || !candidate || !institution) return;
+
+        Object.assign(request, {
+            status: 'approved',
+            approvedOn: new Date().toISOString(),
+            approvedBy: approvedBy
+        });
+        candidate.selectedSchool = institution.knecCode;
+        return request;
+    }
+
+    // Continuing learner requests made by an institution, approved requests only when status is approved
+    listContinuingRequests(institutionCode: string, status?: FakeContinuingRequest['status']) {
+        return this.continuingRequests
+            .filter(x => x.institutionCode === institutionCode && (!status || x.status === status))
+            .sort((a, b) => a.requestedOn.localeCompare(b.requestedOn));
+    }
+
+    // Approve a continuing learner request, the learner's bio-data can then be captured
+    approveContinuingRequest(birthCertificateNo: string) {
+        let request = this.continuingRequests.find(
+            x =>
+                x.birthCertificateNo.toLowerCase() === birthCertificateNo.trim().toLowerCase() &&
+                x.status === 'pending'
+        );
+        if (!request) return;
+
+        Object.assign(request, { status: 'approved', approvedOn: new Date().toISOString() });
+        return request;
+    }
+
+    newUpi() {
+        this.#upiCounter++;
+        return 'FKUPI' + String(this.#upiCounter).padStart(2, '0');
+    }
+
+    newNhifNo() {
+        this.#nhifCounter++;
+        return String(50000000 + this.#nhifCounter);
+    }
+}
+
+const gradeFromCode = (code?: string | number) =>
+    (Object.keys(GRADE_CODES) as FakeGrade[]).find(x => GRADE_CODES[x] === Number(code));
+
+export default new FakeNemisState();
+
+export { GRADE_CODES, gradeFromCode };
+
+export type {
+    FakeGrade,
+    FakeInstitution,
+    FakeLearner,
+    FakeCandidate,
+    FakeTransfer,
+    FakeJoiningRequest,
+    FakeContinuingRequest,
+    FakeSession,
+    FakeSeed
+};
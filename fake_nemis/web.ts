@@ -0,0 +1,1046 @@
+/*
+ * Copyright (c) 2023. MIT License. Maina Derrick.
+ */
+
+/**
+ * Fake nemis.education.go.ke website. Sessions are tracked using the ASP.NET_SessionId cookie and pages
+ * other than the login page redirect to /Login.aspx when the session isn't logged in, same as the live
+ * website.
+ */
+import { NextFunction, Request, Response, Router } from 'express';
+import fileUpload from 'express-fileupload';
+import state, {
+    FakeContinuingRequest,
+    FakeGrade,
+    FakeLearner,
+    FakeSession,
+    GRADE_CODES,
+    gradeFromCode
+} from './state';
+import { delta, escapeHtml, input, page, pageRedirect, select, table } from './html';
+
+const webRouter = Router();
+
+// Form posts are either url encoded or, when saving bio-data, multipart
+webRouter.use(fileUpload());
+
+const gradeOptions = Object.entries(GRADE_CODES).map(
+    ([grade, code]) => [code, grade] as [number, string]
+);
+
+const MEDICAL_CONDITIONS = ['None', 'Anaemia', 'Asthma', 'Convulsions', 'Diabetes', 'Epilepsy'];
+
+const sessionOf = (res: Response) => res.locals.session as FakeSession;
+
+const formatDate = (isoDate: string) => {
+    let [year, month, day] = isoDate.split('-');
+    return [day, month, year].join('-');
+};
+
+const age = (isoDate: string) =>
+    Math.floor((Date.now() - new Date(isoDate).getTime()) / (365.25 * 24 * 60 * 60 * 1000));
+
+// Attach session using the session cookie, a new session is started if the cookie is missing or unknown
+webRouter.use((req: Request, res: Response, next: NextFunction) => {
+    let sessionId = req.headers.cookie?.match(/ASP\.NET_SessionId=([^;,\s]+)/)?.[1];
+    let session = sessionId ? state.sessions.get(sessionId) : undefined;
+
+    if (!session) {
+        session = state.newSession();
+        res.setHeader('Set-Cookie', `ASP.NET_SessionId=${session.id}; path=/; HttpOnly`);
+    }
+    res.locals.session = session;
+    next();
+});
+
+const loginPage = (session?: FakeSession) =>
+    page(
+        session,
+        'Login.aspx',
+        `${input('ctl00_ContentPlaceHolder1_Login1_UserName')}
+<input name="ctl00_ContentPlaceHolder1_Login1_Password" type="password" id="ctl00_ContentPlaceHolder1_Login1_Password" />
+<input type="submit" name="ctl00$ContentPlaceHolder1$Login1$LoginButton" value="Log In" />`
+    );
+
+webRouter.get(['/', '/Login.aspx'], (req: Request, res: Response) => {
+    res.send(loginPage(sessionOf(res)));
+});
+
+webRouter.post('/', (req: Request, res: Response) => {
+    let session = sessionOf(res);
+    let institution = state.getInstitution(req.body?.ctl00$ContentPlaceHolder1$Login1$UserName);
+
+    if (!institution || institution.password !== req.body?.ctl00$ContentPlaceHolder1$Login1$Password) {
+        session.institutionCode = undefined;
+        res.send(pageRedirect('/ErrorPage.aspx'));
+        return;
+    }
+
+    session.institutionCode = institution.code;
+    res.send(pageRedirect('/Default.aspx'));
+});
+
+// Every page below needs a logged-in session
+webRouter.use((req: Request, res: Response, next: NextFunction) => {
+    if (!state.getInstitution(sessionOf(res).institutionCode)) {
+        res.redirect('/Login.aspx');
+        return;
+    }
+    next();
+});
+
+webRouter.get('/Default.aspx', (req: Request, res: Response) => {
+    res.send(page(sessionOf(res), 'Default.aspx', '<h1>Welcome to NEMIS</h1>'));
+});
+
+webRouter.get('/Institution/Institution.aspx', (req: Request, res: Response) => {
+    let session = sessionOf(res);
+    let institution = state.getInstitution(session.institutionCode)!;
+
+    const selected = (id: string, value: string, code = 1) =>
+        `<select id="ctl00_ContentPlaceHolder1_${id}"><option selected="selected" value="${code}">${escapeHtml(
+            value
+        )}</option></select>`;
+    const text = (id: string, value: string) => input(`ctl00_ContentPlaceHolder1_${id}`, value);
+
+    res.send(
+        page(
+            session,
+            'Institution/Institution.aspx',
+            [
+                text('Institution_Name', institution.name),
+                text('Knec_Code', institution.knecCode),
+                text('Institution_Code', institution.code),
+                selected('Classification_by_Gender', institution.gender, 3),
+                text('Institution_Current_Code', institution.code),
+                `<select id="ctl00_ContentPlaceHolder1_Institution_Type"><option selected="selected" value="PUB">${institution.type}</option></select>`,
+                selected('Institution_Status', 'Registered'),
+                selected('Accommodation_Code', 'Boarding'),
+                text('Tsc_Code', institution.code),
+                selected('Institution_Category_Code', 'Regular'),
+                selected('Institution_Level_Code', institution.educationLevel, 3),
+                selected('Mobile_Institution', 'Static'),
+                selected('Institution_Residence', 'Urban'),
+                selected('Education_System_Code', '8.4.4/CBC'),
+                selected('Constituency_Code', institution.subCounty, 10),
+                text('Employer_pin', 'P000000000X'),
+                text('Registration_Date', '01/01/2000'),
+                selected('Ward_Code', institution.subCounty, 10),
+                selected('Zone_Code', institution.subCounty, 10),
+                selected('County_Code', institution.county, 47),
+                selected('Sub_County_Code', institution.subCounty, 10),
+                selected('Institution_Cluster', 'Cluster'),
+                selected('Premise_Ownership', 'GOK'),
+                selected('Ownership_Document', 'Title Deed', 2),
+                text('Proprietor_Code', 'Government'),
+                text('Registration_Certificate', institution.code),
+                text('Nearest_Police_Station', institution.subCounty),
+                text('Nearest_Health_Facility', institution.subCounty),
+                text('Nearest_Town', institution.county),
+                text('Postal_Address', 'P.O Box 1 ' + institution.county),
+                text('Tel_Number', '0200000000'),
+                text('Mobile_Number1', '0700000000'),
+                text('Tel_Number2', ''),
+                text('Mobile_Number2', ''),
+                text('Email_Address', institution.code.toLowerCase() + '@example.com'),
+                text('Website', ''),
+                text('Social_Media', '')
+            ].join('\n')
+        )
+    );
+});
+
+/*
+ * /Learner/Listlearners.aspx
+ */
+const listLearnersTable = (session: FakeSession) => {
+    let learners = session.grade ? state.listLearners(session.institutionCode!, session.grade) : [];
+    return table(
+        'ctl00_ContentPlaceHolder1_grdLearners',
+        [
+            'No.',
+            'Learner UPI',
+            'Learner Name',
+            'Gender',
+            'Date of Birth',
+            'AGE',
+            'Birth Cert No',
+            'Disability',
+            'Medical Condition',
+            'Home Phone',
+            'NHIF No',
+            'Class',
+            ''
+        ],
+        learners.map((learner, i) => [
+            String(i + 1),
+            escapeHtml(learner.upi),
+            escapeHtml(learner.name),
+            learner.gender,
+            formatDate(learner.dob),
+            String(age(learner.dob)),
+            escapeHtml(learner.birthCertificateNo),
+            learner.isSpecial ? 'Yes' : '',
+            MEDICAL_CONDITIONS[Number(learner.medicalCondition) || 0],
+            escapeHtml(learner.homePhone || ''),
+            escapeHtml(learner.nhifNo || ''),
+            escapeHtml(learner.grade),
+            `<a id="ctl00_ContentPlaceHolder1_grdLearners_ctl${String(i + 2).padStart(
+                2,
+                '0'
+            )}_BtnView" href="javascript:__doPostBack('ctl00$ContentPlaceHolder1$grdLearners$ctl${String(
+                i + 2
+            ).padStart(2, '0')}$BtnView','')">View</a>`
+        ])
+    );
+};
+
+const listLearnersBody = (session: FakeSession) =>
+    `${select('SelectCat', gradeOptions, session.grade ? GRADE_CODES[session.grade] : undefined)}
+${select('SelectRecs', [['10', '10'], ['10000', '10000']], '10000')}
+<input type="submit" name="ctl00$ContentPlaceHolder1$Button1" value="[ ADD NEW STUDENT (WITH BC)]" />
+${listLearnersTable(session)}`;
+
+webRouter.get('/Learner/Listlearners.aspx', (req: Request, res: Response) => {
+    let session = sessionOf(res);
+    res.send(page(session, 'Learner/Listlearners.aspx', listLearnersBody(session)));
+});
+
+webRouter.post('/Learner/Listlearners.aspx', (req: Request, res: Response) => {
+    let session = sessionOf(res);
+    let body = req.body ?? {};
+    let grade = gradeFromCode(body.ctl00$ContentPlaceHolder1$SelectCat);
+
+    if (grade) session.grade = grade;
+
+    // Add a new learner with a birth certificate
+    if (body.ctl00$ContentPlaceHolder1$Button1) {
+        if (!grade) {
+            res.send(delta(session, 'Learner/Listlearners.aspx', 'Select a class first'));
+            return;
+        }
+        session.capture = { kind: 'continuing', grade: grade };
+        session.viewing = undefined;
+        res.send(pageRedirect('/Learner/Alearner.aspx'));
+        return;
+    }
+
+    // View learner button, ctl00$ContentPlaceHolder1$grdLearners$ctl02$BtnView is the first learner
+    let view = String(body.__EVENTTARGET ?? '').match(/grdLearners\$ctl(\d+)\$BtnView/);
+    if (view) {
+        let learner = session.grade
+            ? state.listLearners(session.institutionCode!, session.grade)[Number(view[1]) - 2]
+            : undefined;
+        if (!learner) {
+            res.send(delta(session, 'Learner/Listlearners.aspx', listLearnersBody(session)));
+            return;
+        }
+        session.viewing = learner.upi;
+        session.capture = undefined;
+        res.send(pageRedirect('/Learner/Alearner.aspx'));
+        return;
+    }
+
+    res.send(delta(session, 'Learner/Listlearners.aspx', listLearnersBody(session)));
+});
+
+/*
+ * /Learner/Alearner.aspx
+ */
+const aLearnerBody = (learner?: Partial<FakeLearner>, message = '') => {
+    let names = learner?.name?.split(' ') ?? [];
+    let [year, month, day] = learner?.dob?.split('-') ?? [];
+    return `${message}
+${input('UPI', learner?.upi)}
+${input('Birth_Cert_No', learner?.birthCertificateNo)}
+${input('DOB', learner?.dob ? `${Number(month)}/${Number(day)}/${year}` : '')}
+${input('Surname', names[0])}
+${input('FirstName', names[1])}
+${input('OtherNames', names.slice(2).join(' '))}
+${select('Gender', [['M', 'Male'], ['F', 'Female']], learner?.gender)}
+${select('Nationality', [['1', 'Kenyan'], ['2', 'Sudanese'], ['3', 'Tanzanian']], learner?.nationality || '1')}
+${select('ddlcounty', [['0', '--Select--'], ['147', learner?.county || 'County']], learner?.county ? '147' : '0')}
+${select('ddlsubcounty', [['0', '--Select--'], ['1147', learner?.subCounty || 'Sub-County']], learner?.subCounty ? '1147' : '0')}
+${select('ddlmedicalcondition', MEDICAL_CONDITIONS.map((x, i) => [i, x]), learner?.medicalCondition || '0')}
+<input id="ctl00_ContentPlaceHolder1_optneedsno" type="radio" name="ctl00$ContentPlaceHolder1$optspecialneed" value="optneedsno" ${
+        learner?.isSpecial ? '' : 'checked="checked"'
+    } />
+${input('txtEmailAddress', '')}
+${input('txtPostalAddress', learner?.address)}
+${input('txtFatherName', learner?.father?.name)}
+${input('txtFatherIDNO', learner?.father?.id)}
+${input('txtFatherContacts', learner?.father?.tel)}
+${input('txtFatherUPI', '')}
+${input('txtMotherName', learner?.mother?.name)}
+${input('txtMotherIDNo', learner?.mother?.id)}
+${input('txtMothersContacts', learner?.mother?.tel)}
+${input('txtMotherUPI', '')}
+${input('txtGuardianname', learner?.guardian?.name)}
+${input('txtGuardianIDNo', learner?.guardian?.id)}
+${input('txtGuardiancontacts', learner?.guardian?.tel)}
+${input('txtGuardianUPI', '')}
+${input('txtSearch', '')}
+${input('txtmobile', learner?.homePhone)}`;
+};
+
+const alert = (message: string, success: boolean) =>
+    `<div class="alert alert-${success ? 'success' : 'danger'}"><a class="close">&times;</a>${
+        success ? '' : '\nFailure!'
+    } ${escapeHtml(message)}</div>`;
+
+webRouter.get('/Learner/Alearner.aspx', (req: Request, res: Response) => {
+    let session = sessionOf(res);
+    let learner = session.viewing ? state.findLearner(session.viewing) : undefined;
+    res.send(page(session, 'Learner/Alearner.aspx', aLearnerBody(learner)));
+});
+
+webRouter.post('/Learner/Alearner.aspx', (req: Request, res: Response) => {
+    let session = sessionOf(res);
+    let institution = state.getInstitution(session.institutionCode)!;
+    let body = req.body ?? {};
+    const field = (name: string) => String(body['ctl00$ContentPlaceHolder1$' + name] ?? '').trim();
+
+    // Changing county only reloads the update panel
+    if (body.__ASYNCPOST === 'true') {
+        res.send(delta(session, 'Learner/Alearner.aspx', aLearnerBody()));
+        return;
+    }
+
+    // Submit an already captured learner to NHIF
+    if (body.ctl00$ContentPlaceHolder1$BtnNHIF) {
+        let learner = state.findLearner(field('UPI'));
+        if (!learner || learner.institutionCode !== institution.code) {
+            res.send(
+                page(
+                    session,
+                    'Learner/Alearner.aspx',
+                    `<span id="LblMsgContact">The remote server returned an error: (404) Not Found.</span>${aLearnerBody()}`
+                )
+            );
+            return;
+        }
+        learner.nhifNo = learner.nhifNo || state.newNhifNo();
+        res.send(
+            page(
+                session,
+                'Learner/Alearner.aspx',
+                `<span id="LblMsgContact">Learner submitted to NHIF successfully. NHIF No: ${learner.nhifNo}</span>${aLearnerBody(
+                    learner
+                )}`
+            )
+        );
+        return;
+    }
+
+    if (!body.ctl00$ContentPlaceHolder1$btnUsers2) {
+        res.send(page(session, 'Learner/Alearner.aspx', aLearnerBody()));
+        return;
+    }
+
+    // Save basic details
+    let capture = session.capture;
+    let birthCertificateNo = field('Birth_Cert_No');
+    let [month, day, year] = field('DOB$ctl00').split('/');
+    let dob = `${year}-${String(month).padStart(2, '0')}-${String(day).padStart(2, '0')}`;
+    let failure = (message: string) =>
+        res.send(page(session, 'Learner/Alearner.aspx', aLearnerBody(undefined, alert(message, false))));
+
+    if (!capture) return failure('Select a class before adding a new learner.');
+    if (!birthCertificateNo) return failure('Birth certificate number is required.');
+    if (isNaN(new Date(dob).getTime())) return failure('Invalid date of birth.');
+
+    let inUse = state.findLearner(birthCertificateNo);
+    if (inUse) {
+        return failure(
+            `The Birth Certificate No. ${birthCertificateNo} is already in use by ${inUse.name}, UPI: ${inUse.upi}`
+        );
+    }
+
+    let candidate = capture.kind === 'joining' ? state.findCandidate(capture.indexNo) : undefined;
+    if (capture.kind === 'joining' && (!candidate || candidate.admittedTo !== institution.code)) {
+        return failure('Learner is not admitted to your institution.');
+    }
+
+    let request =
+        capture.kind === 'request'
+            ? state
+                  .listContinuingRequests(institution.code, 'approved')
+                  .find(x => x.birthCertificateNo === capture.birthCertificateNo)
+            : undefined;
+    if (capture.kind === 'request' && !request) {
+        return failure('The learner request has not been approved.');
+    }
+
+    let learner: FakeLearner = {
+        upi: state.newUpi(),
+        name: [field('Surname'), field('FirstName'), field('OtherNames')].filter(x => x).join(' '),
+        gender: field('Gender').startsWith('F') ? 'F' : 'M',
+        dob: dob,
+        birthCertificateNo: birthCertificateNo,
+        grade: capture.kind === 'continuing' ? capture.grade : request?.grade ?? 'form 1',
+        institutionCode: institution.code,
+        indexNo: candidate?.indexNo,
+        nationality: field('Nationality'),
+        medicalCondition: field('ddlmedicalcondition'),
+        address: field('txtPostalAddress'),
+        isSpecial: field('optspecialneed') === 'optspecialneed',
+        father: {
+            name: field('txtFatherName'),
+            id: field('txtFatherIDNO'),
+            tel: field('txtFatherContacts')
+        },
+        mother: {
+            name: field('txtMotherName'),
+            id: field('txtMotherIDNo'),
+            tel: field('txtMothersContacts')
+        },
+        guardian: {
+            name: field('txtGuardianname'),
+            id: field('txtGuardianIDNO'),
+            tel: field('txtGuardiancontacts')
+        }
+    };
+
+    state.learners.push(learner);
+    if (candidate) candidate.upi = learner.upi;
+    if (request) request.upi = learner.upi;
+    session.capture = undefined;
+
+    res.send(
+        page(
+            session,
+            'Learner/Alearner.aspx',
+            aLearnerBody(learner, alert('The Learner Basic Details have been Saved successfully', true))
+        )
+    );
+});
+
+/*
+ * /Learner/Studindex.aspx, admit form ones selected to the institution
+ */
+webRouter.get(['/Learner/Studindex.aspx', '/Learner/Studindexchk.aspx'], (req: Request, res: Response) => {
+    res.send(
+        page(
+            sessionOf(res),
+            req.path.replace(/^\//, ''),
+            `<input id="txtCanAdmt" value="1" /><input id="txtCanReq" value="1" />
+<span id="ctl00_ContentPlaceHolder1_ErrorMessage"></span>`
+        )
+    );
+});
+
+webRouter.post('/Learner/Studindex.aspx', (req: Request, res: Response) => {
+    let session = sessionOf(res);
+    let institution = state.getInstitution(session.institutionCode)!;
+    let candidate = state.findCandidate(req.body?.ctl00$ContentPlaceHolder1$txtIndex);
+
+    // Learners not selected to the institution have to be requested first
+    if (!candidate || candidate.selectedSchool !== institution.knecCode) {
+        res.send(pageRedirect('/Learner/Studindexreq.aspx'));
+        return;
+    }
+    res.redirect('/Learner/Studindexchk.aspx');
+});
+
+webRouter.post('/Learner/Studindexchk.aspx', (req: Request, res: Response) => {
+    let session = sessionOf(res);
+    let institution = state.getInstitution(session.institutionCode)!;
+    let candidate = state.findCandidate(req.body?.ctl00$ContentPlaceHolder1$txtIndex);
+
+    let message = 'LEARNER WAS NOT FOUND';
+    if (candidate?.admittedTo && candidate.admittedTo !== institution.code) {
+        message = 'THE STUDENT HAS ALREADY BEEN ADMITTED TO ANOTHER SCHOOL';
+    } else if (candidate?.deferred && !candidate.admittedTo) {
+        message = 'THE STUDENT ADMISSION WAS DIFFERED. ADMIT THE STUDENT FROM DIFFERED ADMISSIONS';
+    } else if (candidate && candidate.selectedSchool === institution.knecCode) {
+        Object.assign(candidate, {
+            admittedTo: institution.code,
+            admittedOn: candidate.admittedOn || new Date().toISOString(),
+            adm: req.body?.ctl00$ContentPlaceHolder1$txtUPI
+        });
+        message = 'THE STUDENT HAS BEEN ADMITTED TO THE SCHOOL. ENSURE YOU CAPTURE BIO-DATAmessage';
+    }
+
+    res.send(
+        page(
+            session,
+            'Learner/Studindexchk.aspx',
+            `<span id="ctl00_ContentPlaceHolder1_ErrorMessage">${message}</span>`
+        )
+    );
+});
+
+/*
+ * /Learner/Studindexreq.aspx, request a candidate selected to another school
+ */
+webRouter.get('/Learner/Studindexreq.aspx', (req: Request, res: Response) => {
+    res.send(
+        page(
+            sessionOf(res),
+            'Learner/Studindexreq.aspx',
+            '<span id="ctl00_ContentPlaceHolder1_ErrorMessage"></span>'
+        )
+    );
+});
+
+webRouter.post('/Learner/Studindexreq.aspx', (req: Request, res: Response) => {
+    let session = sessionOf(res);
+    let body = req.body ?? {};
+    let candidate = state.findCandidate(body.ctl00$ContentPlaceHolder1$txtIndex);
+
+    let message = 'LEARNER WAS NOT FOUND';
+    if (candidate?.admittedTo) {
+        message = 'THE STUDENT HAS ALREADY BEEN ADMITTED TO ANOTHER SCHOOL';
+    } else if (
+        candidate &&
+        state.joiningRequests.find(x => x.indexNo === candidate!.indexNo && x.status === 'pending')
+    ) {
+        message = 'The Learner Has A Pending Request!!';
+    } else if (candidate && !body.ctl00$ContentPlaceHolder1$txtIDNo) {
+        message = "Enter the Parent's ID Number!!";
+    } else if (candidate) {
+        state.joiningRequests.push({
+            indexNo: candidate.indexNo,
+            institutionCode: session.institutionCode!,
+            adm: body.ctl00$ContentPlaceHolder1$txtFileNo,
+            description: body.ctl00$ContentPlaceHolder1$txtWReq,
+            parentId: body.ctl00$ContentPlaceHolder1$txtIDNo,
+            parentTel: body.ctl00$ContentPlaceHolder1$txtPhone,
+            requestedOn: new Date().toISOString(),
+            status: 'pending'
+        });
+        message = 'Request Successfully Saved!!';
+    }
+
+    res.send(
+        page(
+            session,
+            'Learner/Studindexreq.aspx',
+            `<span id="ctl00_ContentPlaceHolder1_ErrorMessage">${escapeHtml(message)}</span>`
+        )
+    );
+});
+
+/*
+ * /Learner/Liststudreq.aspx and /Learner/Liststudreqa.aspx, joining requests made by the institution and
+ * the ones approved. Pending requests can be deleted
+ */
+const listJoiningRequestsBody = (session: FakeSession, approved: boolean) => {
+    let requests = state.listJoiningRequests(session.institutionCode!, approved ? 'approved' : undefined);
+    return `${select('SelectRecs', [['10', '10'], ['10000', '10000']], '10000')}
+${table(
+    'ctl00_ContentPlaceHolder1_grdLearners',
+    [
+        'No.',
+        'Index No',
+        'Student Name',
+        'Gender',
+        'Marks',
+        'Current Selected To',
+        'Request Description',
+        "Parent's IDNo",
+        'Mobile No',
+        'Date Captured',
+        'Approved On',
+        'Approved By',
+        'Status',
+        ...(approved ? [] : [''])
+    ],
+    requests.map((request, i) => {
+        let candidate = state.findCandidate(request.indexNo);
+        let school = state.institutions.find(x => x.knecCode === candidate?.selectedSchool);
+        return [
+            String(i + 1),
+            request.indexNo,
+            escapeHtml(candidate?.name),
+            candidate?.gender ?? '',
+            String(candidate?.marks ?? ''),
+            escapeHtml(
+                `${candidate?.selectedSchool} ${school?.name} School Type:${school?.type} School Category:${school?.category}`
+            ),
+            escapeHtml(request.description) || '&nbsp;',
+            escapeHtml(request.parentId),
+            escapeHtml(request.parentTel) || '&nbsp;',
+            formatDate(request.requestedOn.slice(0, 10)),
+            request.approvedOn ? formatDate(request.approvedOn.slice(0, 10)) : '&nbsp;',
+            escapeHtml(request.approvedBy) || '&nbsp;',
+            request.status === 'approved' ? 'Approved' : 'Pending',
+            ...(approved
+                ? []
+                : [
+                      request.status === 'pending'
+                          ? `<a href="javascript:__doPostBack('ctl00$ContentPlaceHolder1$grdLearners$ctl${String(i + 2).padStart(2, '0')}$BtnDel','')">Delete</a>`
+                          : '&nbsp;'
+                  ])
+        ];
+    })
+)}`;
+};
+
+webRouter.get('/Learner/Liststudreq.aspx', (req: Request, res: Response) => {
+    let session = sessionOf(res);
+    res.send(page(session, 'Learner/Liststudreq.aspx', listJoiningRequestsBody(session, false)));
+});
+
+webRouter.post('/Learner/Liststudreq.aspx', (req: Request, res: Response) => {
+    let session = sessionOf(res);
+    // Rows are numbered from ctl02, the header row being ctl01
+    let row = String(req.body?.__EVENTTARGET ?? '').match(/grdLearners\$ctl(\d+)\$BtnDel$/)?.[1];
+    let request = row ? state.listJoiningRequests(session.institutionCode!)[Number(row) - 2] : undefined;
+
+    let message = '';
+    if (request?.status === 'pending') {
+        state.joiningRequests = state.joiningRequests.filter(x => x !== request);
+        message = 'Request Deleted Successfully!!';
+    }
+
+    res.send(
+        page(
+            session,
+            'Learner/Liststudreq.aspx',
+            `<span id="ctl00_ContentPlaceHolder1_ErrorMessage">${message}</span>
+${listJoiningRequestsBody(session, false)}`
+        )
+    );
+});
+
+webRouter.get('/Learner/Liststudreqa.aspx', (req: Request, res: Response) => {
+    let session = sessionOf(res);
+    res.send(page(session, 'Learner/Liststudreqa.aspx', listJoiningRequestsBody(session, true)));
+});
+
+webRouter.post('/Learner/Liststudreqa.aspx', (req: Request, res: Response) => {
+    let session = sessionOf(res);
+    res.send(page(session, 'Learner/Liststudreqa.aspx', listJoiningRequestsBody(session, true)));
+});
+
+/*
+ * /Learner/Listadmrequestsskul.aspx and /Learner/Listadmrequestsskulapp.aspx, continuing learners
+ * the institution requested to capture and the approved requests awaiting bio-data capture
+ */
+const CONTINUING_REQUEST_HEADERS = [
+    'No.',
+    'Adm No',
+    'Surname',
+    'Firstname',
+    'Othername',
+    'Gender',
+    'KCPE Year',
+    'Index',
+    'Birth Certificate',
+    'Grade',
+    'Remark'
+];
+
+const continuingRequestRow = (request: FakeContinuingRequest, i: number) => [
+    String(i + 1),
+    escapeHtml(request.adm),
+    escapeHtml(request.surname),
+    escapeHtml(request.firstname),
+    escapeHtml(request.otherName) || '&nbsp;',
+    request.gender,
+    escapeHtml(request.kcpeYear),
+    escapeHtml(request.indexNo) || '&nbsp;',
+    escapeHtml(request.birthCertificateNo),
+    request.grade,
+    escapeHtml(request.remark) || '&nbsp;'
+];
+
+const continuingRequestsBody = (session: FakeSession, message = '') => {
+    let requests = state.listContinuingRequests(session.institutionCode!);
+    return `<span id="ctl00_ContentPlaceHolder1_ErrorMessage">${escapeHtml(message)}</span>
+${select('ctl00_ContentPlaceHolder1_SelectRecs', [['10', '10'], ['10000', '10000']], '10000')}
+<input type="submit" name="ctl00$ContentPlaceHolder1$Button1" value="[ ADD NEW STUDENT ]" />
+${table('ctl00_ContentPlaceHolder1_grdLearners', CONTINUING_REQUEST_HEADERS, requests.map(continuingRequestRow))}`;
+};
+
+webRouter.get('/Learner/Listadmrequestsskul.aspx', (req: Request, res: Response) => {
+    let session = sessionOf(res);
+    res.send(page(session, 'Learner/Listadmrequestsskul.aspx', continuingRequestsBody(session)));
+});
+
+webRouter.post('/Learner/Listadmrequestsskul.aspx', (req: Request, res: Response) => {
+    let session = sessionOf(res);
+    let body = req.body ?? {};
+    const field = (name: string) => String(body['ctl00$ContentPlaceHolder1$' + name] ?? '').trim();
+
+    let message = '';
+    if (body.ctl00$ContentPlaceHolder1$Button2) {
+        let birthCertificateNo = field('txtBCert');
+        let grade = gradeFromCode(field('SelectGrade'));
+        let inUse = state.findLearner(birthCertificateNo);
+
+        if (!birthCertificateNo || !field('txtAdmNo')) {
+            message = 'Enter the Adm No and Birth Certificate No!!';
+        } else if (!grade) {
+            message = 'Select the Grade!!';
+        } else if (inUse) {
+            message = `The Birth Certificate No. ${birthCertificateNo} is already in use by ${inUse.name}, UPI: ${inUse.upi}`;
+        } else if (
+            state.continuingRequests.some(
+                x => x.birthCertificateNo.toLowerCase() === birthCertificateNo.toLowerCase()
+            )
+        ) {
+            message = 'The Learner Has Already Been Requested!!';
+        } else {
+            state.continuingRequests.push({
+                institutionCode: session.institutionCode!,
+                adm: field('txtAdmNo'),
+                surname: field('txtSurname'),
+                firstname: field('txtFirstname'),
+                otherName: field('txtOthername'),
+                gender: field('SelectGender').startsWith('F') ? 'F' : 'M',
+                kcpeYear: field('txtYear'),
+                indexNo: field('txtIndex'),
+                birthCertificateNo: birthCertificateNo,
+                grade: grade,
+                remark: field('txtRemark'),
+                requestedOn: new Date().toISOString(),
+                status: 'pending'
+            });
+            message = 'Request Saved Successfully!!';
+        }
+    }
+
+    res.send(
+        page(session, 'Learner/Listadmrequestsskul.aspx', continuingRequestsBody(session, message))
+    );
+});
+
+const approvedContinuingRequestsBody = (session: FakeSession) => {
+    let approved = state.listContinuingRequests(session.institutionCode!, 'approved');
+    return `${select('ctl00_ContentPlaceHolder1_SelectRecs', [['10', '10'], ['10000', '10000']], '10000')}
+${table(
+    'ctl00_ContentPlaceHolder1_grdLearners',
+    [...CONTINUING_REQUEST_HEADERS, '', 'UPI'],
+    approved.map((request, i) => [
+        ...continuingRequestRow(request, i),
+        request.upi
+            ? '&nbsp;'
+            : `<input type="submit" name="ctl00$ContentPlaceHolder1$grdLearners$ctl${String(i + 2).padStart(2, '0')}$BtnBC" value="BIO-BC" />`,
+        request.upi || '&nbsp;'
+    ])
+)}`;
+};
+
+webRouter.get('/Learner/Listadmrequestsskulapp.aspx', (req: Request, res: Response) => {
+    let session = sessionOf(res);
+    res.send(
+        page(session, 'Learner/Listadmrequestsskulapp.aspx', approvedContinuingRequestsBody(session))
+    );
+});
+
+webRouter.post('/Learner/Listadmrequestsskulapp.aspx', (req: Request, res: Response) => {
+    let session = sessionOf(res);
+    // Rows are numbered from ctl02, the header row being ctl01
+    let row = Object.keys(req.body ?? {})
+        .map(x => x.match(/grdLearners\$ctl(\d+)\$BtnBC$/)?.[1])
+        .find(x => x);
+    let request = row
+        ? state.listContinuingRequests(session.institutionCode!, 'approved')[Number(row) - 2]
+        : undefined;
+
+    if (request && !request.upi) {
+        session.capture = { kind: 'request', birthCertificateNo: request.birthCertificateNo };
+        session.viewing = undefined;
+        res.redirect('/Learner/alearner.aspx');
+        return;
+    }
+    res.send(
+        page(session, 'Learner/Listadmrequestsskulapp.aspx', approvedContinuingRequestsBody(session))
+    );
+});
+
+/*
+ * /Admission/Listlearners.aspx, KCPE candidates selected to join the institution's form one
+ */
+const listSelectedBody = (session: FakeSession) => {
+    let institution = state.getInstitution(session.institutionCode)!;
+    let selected = state.candidates
+        .filter(x => x.selectedSchool === institution.knecCode)
+        .sort((a, b) => a.indexNo.localeCompare(b.indexNo));
+    return `${select('ctl00_ContentPlaceHolder1_SelectCat', [['1', 'Not Reported'], ['2', 'All']], '2')}
+${select('ctl00_ContentPlaceHolder1_SelectRecs', [['10', '10'], ['10000', '10000']], '10000')}
+${table(
+    'ctl00_ContentPlaceHolder1_grdLearners',
+    ['Index', 'Name', 'Gender', 'Year of Birth', 'Marks', 'Sub-County'],
+    selected.map(x => [
+        x.indexNo,
+        escapeHtml(x.name),
+        x.gender,
+        String(x.yob),
+        String(x.marks),
+        escapeHtml(x.subCounty)
+    ])
+)}`;
+};
+
+webRouter.get('/Admission/Listlearners.aspx', (req: Request, res: Response) => {
+    let session = sessionOf(res);
+    res.send(page(session, 'Admission/Listlearners.aspx', listSelectedBody(session)));
+});
+
+webRouter.post('/Admission/Listlearners.aspx', (req: Request, res: Response) => {
+    let session = sessionOf(res);
+    res.send(delta(session, 'Admission/Listlearners.aspx', listSelectedBody(session)));
+});
+
+/*
+ * /Admission/Listlearnersrep.aspx, form ones admitted and awaiting bio-data capture
+ */
+const listAdmittedBody = (session: FakeSession, errorMessage = '') => {
+    let admitted = state.listAdmitted(session.institutionCode!);
+    return `<span id="ctl00_ContentPlaceHolder1_ErrorMessage">${escapeHtml(errorMessage)}</span>
+${select('SelectRecs', [['10', '10'], ['10000', '10000']], '10000')}
+${table(
+    'ctl00_ContentPlaceHolder1_grdLearners',
+    ['Index', 'Name', 'Gender', 'Year of Birth', 'Marks', 'Sub-County', 'UPI'],
+    admitted.map(x => [
+        x.indexNo,
+        escapeHtml(x.name),
+        x.gender,
+        String(x.yob),
+        String(x.marks),
+        escapeHtml(x.subCounty),
+        x.upi || '&nbsp;'
+    ])
+)}`;
+};
+
+webRouter.get('/Admission/Listlearnersrep.aspx', (req: Request, res: Response) => {
+    let session = sessionOf(res);
+    res.send(page(session, 'Admission/Listlearnersrep.aspx', listAdmittedBody(session)));
+});
+
+webRouter.post('/Admission/Listlearnersrep.aspx', (req: Request, res: Response) => {
+    let session = sessionOf(res);
+    let [action, index] = String(req.body?.__EVENTARGUMENT ?? '').split('$');
+    let candidate = state.listAdmitted(session.institutionCode!)[Number(index)];
+
+    if (!candidate) {
+        res.send(page(session, 'Admission/Listlearnersrep.aspx', listAdmittedBody(session)));
+        return;
+    }
+
+    switch (action) {
+        case 'ActionFOS':
+        case 'ActionFOSWBC':
+            if (candidate.upi) {
+                res.send(
+                    page(
+                        session,
+                        'Admission/Listlearnersrep.aspx',
+                        listAdmittedBody(
+                            session,
+                            'You Can Not Capture Bio-Data Twice for this Student. Use the LEARNER MODULE to update details'
+                        )
+                    )
+                );
+                return;
+            }
+            session.capture = { kind: 'joining', indexNo: candidate.indexNo };
+            session.viewing = undefined;
+            res.redirect('/Learner/alearner.aspx');
+            return;
+
+        case 'ActionReset':
+            state.learners = state.learners.filter(x => x.upi !== candidate.upi);
+            candidate.upi = undefined;
+            break;
+
+        case 'ActionUNDO':
+            if (!candidate.upi) Object.assign(candidate, { admittedTo: undefined, admittedOn: undefined });
+            break;
+    }
+
+    res.send(page(session, 'Admission/Listlearnersrep.aspx', listAdmittedBody(session)));
+});
+
+/*
+ * /Learner/differedadmissions.aspx, form ones whose admission was deferred. They are admitted using the
+ * admission number entered in txtAdmNo
+ */
+const listDeferredBody = (session: FakeSession, errorMessage = '') => {
+    let deferred = state.listDeferred(session.institutionCode!);
+    return `<span id="ctl00_ContentPlaceHolder1_ErrorMessage">${escapeHtml(errorMessage)}</span>
+${select('SelectRecs', [['10', '10'], ['10000', '10000']], '10000')}
+${input('ctl00$ContentPlaceHolder1$txtAdmNo')}
+${table(
+    'ctl00_ContentPlaceHolder1_grdLearners',
+    ['Index', 'Name', 'Gender', 'Year of Birth', 'Marks', 'Sub-County', ''],
+    deferred.map((x, i) => [
+        x.indexNo,
+        escapeHtml(x.name),
+        x.gender,
+        String(x.yob),
+        String(x.marks),
+        escapeHtml(x.subCounty),
+        `<a href="javascript:__doPostBack('ctl00$ContentPlaceHolder1$grdLearners','Admit$${i}')">Admit</a>`
+    ])
+)}`;
+};
+
+webRouter.get('/Learner/differedadmissions.aspx', (req: Request, res: Response) => {
+    let session = sessionOf(res);
+    res.send(page(session, 'Learner/differedadmissions.aspx', listDeferredBody(session)));
+});
+
+webRouter.post('/Learner/differedadmissions.aspx', (req: Request, res: Response) => {
+    let session = sessionOf(res);
+    let [action, index] = String(req.body?.__EVENTARGUMENT ?? '').split('$');
+    let candidate = action === 'Admit' ? state.listDeferred(session.institutionCode!)[Number(index)] : undefined;
+    let adm = String(req.body?.ctl00$ContentPlaceHolder1$txtAdmNo ?? '').trim();
+
+    let message = '';
+    if (candidate && !adm) {
+        message = 'ENTER THE ADMISSION NUMBER OF THE STUDENT';
+    } else if (candidate) {
+        Object.assign(candidate, {
+            admittedTo: session.institutionCode,
+            admittedOn: new Date().toISOString(),
+            adm: adm
+        });
+        message = 'THE STUDENT HAS BEEN ADMITTED TO THE SCHOOL. ENSURE YOU CAPTURE BIO-DATA';
+    }
+
+    res.send(page(session, 'Learner/differedadmissions.aspx', listDeferredBody(session, message)));
+});
+
+/*
+ * /Learner/StudReceive.aspx, request a transfer in
+ */
+const TRANSFER_REASONS: [string, string][] = [
+    ['1', 'Relocation'],
+    ['2', 'Discipline'],
+    ['3', 'Other']
+];
+
+const studReceiveBody = (session: FakeSession) => {
+    let learner = state.findLearner(session.transferSearch);
+    return `${input('ctl00_ContentPlaceHolder1_txtSearch', session.transferSearch)}
+${select('ctl00_ContentPlaceHolder1_DrpReason', TRANSFER_REASONS, '1')}
+${learner ? `<span id="ctl00_ContentPlaceHolder1_txtName">${escapeHtml(learner.name)}</span>` : ''}`;
+};
+
+webRouter.get('/Learner/StudReceive.aspx', (req: Request, res: Response) => {
+    let session = sessionOf(res);
+    res.send(page(session, 'Learner/StudReceive.aspx', studReceiveBody(session)));
+});
+
+webRouter.post('/Learner/StudReceive.aspx', (req: Request, res: Response) => {
+    let session = sessionOf(res);
+    let body = req.body ?? {};
+    session.transferSearch = body.ctl00$ContentPlaceHolder1$txtSearch;
+
+    let message = '';
+    if (body.ctl00$ContentPlaceHolder1$BtnAdmit) {
+        let learner = state.findLearner(session.transferSearch);
+
+        if (!learner) message = 'The Learner Was Not Found';
+        else if (learner.institutionCode === session.institutionCode)
+            message = 'The Learner Is Already In Your School';
+        else {
+            let existing = state.transfers.find(
+                x => x.upi === learner!.upi && x.to === session.institutionCode && x.status === 'pending'
+            );
+            if (!existing) {
+                state.transfers.push({
+                    upi: learner.upi,
+                    from: learner.institutionCode,
+                    to: session.institutionCode!,
+                    reason: body.ctl00$ContentPlaceHolder1$DrpReason || '1',
+                    remark: body.ctl00$ContentPlaceHolder1$txtRemark,
+                    requestedOn: new Date().toISOString(),
+                    status: 'pending'
+                });
+            }
+            message = 'The Transfer Request Saved. Learner Awaits Being Released From Current School Admitted';
+        }
+    }
+
+    res.send(
+        page(session, 'Learner/StudReceive.aspx', studReceiveBody(session), {
+            viewStateMessage: message
+        })
+    );
+});
+
+/*
+ * /Learner/Listtransfersin.aspx and /Learner/Listtransfersout.aspx, transfers the institution requested and
+ * transfers other institutions requested for the institution's learners
+ */
+const listTransfersBody = (session: FakeSession, method: 'in' | 'out', message = '') => {
+    let transfers = state.listTransfers(session.institutionCode!, method);
+    return `<span id="ctl00_ContentPlaceHolder1_ErrorMessage">${escapeHtml(message)}</span>
+${select('SelectRecs', [['10', '10'], ['10000', '10000']], '10000')}
+${table(
+    'ctl00_ContentPlaceHolder1_grdLearners',
+    [
+        'No.',
+        'UPI',
+        'Student Name',
+        'Gender',
+        'Class',
+        'Institution Code',
+        'Institution Name',
+        'Reason',
+        'Remarks',
+        'Date Requested',
+        'Status',
+        'Action'
+    ],
+    transfers.map((transfer, i) => {
+        let learner = state.findLearner(transfer.upi);
+        let institution = state.getInstitution(method === 'in' ? transfer.from : transfer.to);
+        return [
+            String(i + 1),
+            escapeHtml(transfer.upi),
+            escapeHtml(learner?.name),
+            learner?.gender ?? '',
+            escapeHtml(learner?.grade),
+            escapeHtml(institution?.code),
+            escapeHtml(institution?.name),
+            TRANSFER_REASONS.find(([code]) => code === transfer.reason)?.[1] ?? '',
+            escapeHtml(transfer.remark) || '&nbsp;',
+            formatDate(transfer.requestedOn.slice(0, 10)),
+            transfer.status === 'pending' ? 'Pending' : 'Released',
+            method === 'out' && transfer.status === 'pending'
+                ? `<a href="javascript:__doPostBack('ctl00$ContentPlaceHolder1$grdLearners','Release$${i}')">Release</a>`
+                : '&nbsp;'
+        ];
+    })
+)}`;
+};
+
+webRouter.get('/Learner/Listtransfersin.aspx', (req: Request, res: Response) => {
+    let session = sessionOf(res);
+    res.send(page(session, 'Learner/Listtransfersin.aspx', listTransfersBody(session, 'in')));
+});
+
+webRouter.post('/Learner/Listtransfersin.aspx', (req: Request, res: Response) => {
+    let session = sessionOf(res);
+    res.send(page(session, 'Learner/Listtransfersin.aspx', listTransfersBody(session, 'in')));
+});
+
+webRouter.get('/Learner/Listtransfersout.aspx', (req: Request, res: Response) => {
+    let session = sessionOf(res);
+    res.send(page(session, 'Learner/Listtransfersout.aspx', listTransfersBody(session, 'out')));
+});
+
+webRouter.post('/Learner/Listtransfersout.aspx', (req: Request, res: Response) => {
+    let session = sessionOf(res);
+    let [action, index] = String(req.body?.__EVENTARGUMENT ?? '').split('$');
+    let transfer = state.listTransfers(session.institutionCode!, 'out')[Number(index)];
+
+    let message = '';
+    if (action === 'Release' && transfer?.status === 'pending') {
+        transfer.status = 'released';
+        let learner = state.findLearner(transfer.upi);
+        if (learner) learner.institutionCode = transfer.to;
+        message = 'Learner Released Successfully';
+    }
+
+    res.send(page(session, 'Learner/Listtransfersout.aspx', listTransfersBody(session, 'out', message)));
+});
+
+export default webRouter;
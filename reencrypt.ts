@@ -0,0 +1,39 @@
+/*
+ * Copyright (c) 2023. MIT License. Maina Derrick.
+ */
+
+/**
+ * Re-encrypt stored NEMIS passwords using the current ENCRYPTION_KEY after rotating keys. Run
+ * `npm run reencrypt` with the previous key in PREVIOUS_ENCRYPTION_KEYS, the previous key can be removed
+ * once every password is re-encrypted.
+ */
+require('dotenv').config();
+import 'module-alias/register';
+import mongoose from 'mongoose';
+import connectDb from './src/database/index';
+import { reEncryptPasswords } from './src/controller/institution';
+import logger from './src/libs/logger';
+
+(async () => {
+    try {
+        let dbUrl = process.env.DB_URL;
+        if (!dbUrl) throw new Error('DB_URL is not set.');
+        await connectDb(dbUrl);
+
+        let { checked, reEncrypted, failed } = await reEncryptPasswords();
+        logger.info(
+            `Re-encrypted ${reEncrypted} of ${checked} institution password(s) with key version ${
+                process.env.ENCRYPTION_KEY_VERSION || 1
+            }`
+        );
+        failed.forEach(x => logger.error(`Failed to re-encrypt ${x.username}: ${x.message}`));
+
+        // Keep previous keys until every password is re-encrypted
+        process.exitCode = failed.length > 0 ? 1 : 0;
+    } catch (err) {
+        logger.error(err);
+        process.exitCode = 1;
+    } finally {
+        await mongoose.disconnect();
+    }
+})();
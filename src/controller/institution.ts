@@ -7,6 +7,7 @@ import institutionModel from "@database/institution";
 import tokenModel from "@database/token";
 import learner from "@database/learner";
 import CustomError from "@libs/error_handler";
+import { decryptString, isEncryptedWithOldKey } from "@libs/crypt";
 
 const archiveInstitution = async (
     institutionId: mongoose.Types.ObjectId,
@@ -41,4 +42,47 @@ const archiveInstitution = async (
     }
 };
 
-export { archiveInstitution };
+/**
+ * Re-encrypt the NEMIS passwords of all institutions that were encrypted using a previous key with the
+ * current ENCRYPTION_KEY. Passwords changed while re-encrypting are left as they are.
+ */
+const reEncryptPasswords = async () => {
+    // find doesn't run the findOne hook, passwords are returned encrypted
+    let institutions = await institutionModel
+        .find({ password: { $exists: true } })
+        .select('username password')
+        .lean();
+
+    let reEncrypted = 0;
+    let failed = [];
+
+    for (const institution of institutions) {
+        if (!isEncryptedWithOldKey(institution.password)) continue;
+        try {
+            let password = decryptString(institution.password);
+            if (!password) {
+                throw new CustomError(
+                    'Password decrypted to an empty string, the key is wrong.',
+                    500
+                );
+            }
+
+            // The update hook encrypts the password using the current key
+            let { modifiedCount } = await institutionModel.updateOne(
+                { _id: institution._id, password: institution.password },
+                { password: password }
+            );
+            reEncrypted += modifiedCount;
+        } catch (err: any) {
+            failed.push({
+                _id: institution._id,
+                username: institution.username,
+                message: err?.message || 'Failed to re-encrypt password'
+            });
+        }
+    }
+
+    return { checked: institutions.length, reEncrypted: reEncrypted, failed: failed };
+};
+
+export { archiveInstitution, reEncryptPasswords };
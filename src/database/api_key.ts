@@ -0,0 +1,55 @@
+/*
+ * Copyright (c) 2023. MIT License. Maina Derrick.
+ */
+
+import mongoose from 'mongoose';
+import { auditPlugin } from '@libs/audit';
+
+// Scopes an API key can be granted, each allows a group of endpoints
+export const API_KEY_SCOPES = [
+    'institution:read',
+    'learner:read',
+    'learner:write',
+    'jobs:read',
+    'nemis:read',
+    'nemis:capture',
+    'nemis:admit',
+    'nemis:request',
+    'nemis:transfer'
+] as const;
+
+export default mongoose.model(
+    'apiKey',
+    new mongoose.Schema({
+        institutionId: {
+            type: mongoose.Schema.Types.ObjectId,
+            ref: 'institution',
+            required: true,
+            index: true
+        },
+        // Name given by the admin to tell keys apart eg. the integration using it
+        name: { type: String, required: true },
+        // First characters of the key, shown to identify a key since the key itself isn't stored
+        prefix: { type: String, required: true },
+        // SHA-256 hash of the key
+        keyHash: { type: String, required: true, unique: true },
+        scopes: [{ type: String, enum: API_KEY_SCOPES, required: true }],
+        // Token of the admin who created the key
+        createdBy: {
+            type: mongoose.Schema.Types.ObjectId,
+            ref: 'token'
+        },
+        createdAt: { type: Date, default: Date.now },
+        lastUsed: Date,
+        // Keys don't expire unless an expiry date is set when creating them
+        expires: Date,
+        revoked: {
+            on: Date,
+            by: {
+                type: mongoose.Schema.Types.ObjectId,
+                ref: 'token'
+            },
+            reason: String
+        }
+    }).plugin(auditPlugin, { redact: ['keyHash'], ignore: ['lastUsed'] })
+);
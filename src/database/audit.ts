@@ -0,0 +1,71 @@
+/*
+ * Copyright (c) 2023. MIT License. Maina Derrick.
+ */
+
+import mongoose from 'mongoose';
+import CustomError from '@libs/error_handler';
+
+const auditSchema = new mongoose.Schema({
+    institutionId: {
+        type: mongoose.Schema.Types.ObjectId,
+        ref: 'institution',
+        index: true
+    },
+    // Model and change eg. learner.update, or nemis and the NemisWebService method eg. nemis.transferIn
+    action: { type: String, required: true, index: true },
+    // Documents that were changed
+    target: {
+        model: String,
+        ids: [{ type: mongoose.Schema.Types.ObjectId, index: true }]
+    },
+    // Who made the change, requests are made using a token or an API key and jobs keep the token or
+    // API key that queued them
+    actor: {
+        source: {
+            type: String,
+            enum: ['request', 'job', 'schedule', 'poller', 'system'],
+            default: 'system'
+        },
+        tokenId: { type: mongoose.Schema.Types.ObjectId, ref: 'token', index: true },
+        userId: { type: mongoose.Schema.Types.ObjectId, ref: 'user' },
+        apiKeyId: { type: mongoose.Schema.Types.ObjectId, ref: 'apiKey' },
+        jobId: { type: mongoose.Schema.Types.ObjectId, ref: 'job' }
+    },
+    // Values of the changed fields before and after the change, secrets are redacted
+    before: mongoose.Schema.Types.Mixed,
+    after: mongoose.Schema.Types.Mixed,
+    // Arguments and response of a NEMIS action, or the error NEMIS failed with
+    nemis: {
+        args: mongoose.Schema.Types.Mixed,
+        response: mongoose.Schema.Types.Mixed,
+        error: String
+    },
+    createdAt: { type: Date, default: Date.now, index: true }
+});
+
+// Audit entries are append only
+const refuseChange = () => {
+    throw new CustomError(
+        'Audit entries can not be changed or deleted.',
+        405,
+        'method_not_allowed'
+    );
+};
+auditSchema.pre(
+    [
+        'updateOne',
+        'updateMany',
+        'findOneAndUpdate',
+        'replaceOne',
+        'deleteOne',
+        'deleteMany',
+        'findOneAndDelete',
+        'findOneAndRemove'
+    ],
+    refuseChange
+);
+auditSchema.pre('save', function () {
+    if (!this.isNew) refuseChange();
+});
+
+export default mongoose.model('audit', auditSchema);
@@ -85,17 +85,27 @@ export default mongoose.model(
 				strength: 2
 			}
 		},
-		postback: {
-			type: String,
-			index: {
-				unique: true,
-				partialFilterExpression: {postback: {$exists: true, $type: 'string'}}
-			}
-		},
+		// Post back used to capture the learner once approved, only valid with the view state of the
+		// session that listed it and repeated across institutions
+		postback: String,
 		learnerId: {
 			type: mongoose.Schema.Types.ObjectId,
 			ref: 'learner'
 		},
-
+		institutionId: {
+			type: mongoose.Schema.Types.ObjectId,
+			ref: 'institution',
+			index: true
+		},
+		// Pending until the sub-county director approves the request, captured once the learner has a upi
+		status: {
+			type: String,
+			enum: ['pending', 'approved', 'captured'],
+			default: 'pending',
+			index: true
+		},
+		requestedOn: Date,
+		approvedOn: Date,
+		capturedOn: Date
 	})
 );
@@ -6,6 +6,7 @@ import mongoose from 'mongoose';
 import logger from '@libs/logger';
 import continuing_learner from './continuing_learner';
 import institution_model from './institution';
+import job_model from './job';
 import learner_model from './learner';
 import token_model from './token';
 
@@ -18,7 +19,7 @@ export default async (dbUrl: string) => {
 		await mongoose.connect(dbUrl);
 
 		// Sync indexes
-		const models = [token_model, learner_model, institution_model, continuing_learner];
+		const models = [token_model, learner_model, institution_model, continuing_learner, job_model];
 		const syncIndexes = await Promise.allSettled(models.map(x => x.createIndexes()));
 
 		let indexSyncErrors = [] as Promise<void>[];
@@ -18,6 +18,7 @@ import {
     OWNERSHIP_DOCUMENT_TYPE
 } from "@libs/nemis/validations";
 import { decryptString, encryptString } from "@libs/crypt";
+import { auditPlugin } from "@libs/audit";
 import { DatabaseInstitution } from "../../types/nemisApiTypes";
 
 export default mongoose.model(
@@ -151,4 +152,5 @@ export default mongoose.model(
             }
             next();
         })
+        .plugin(auditPlugin, { redact: ['password'], ignore: ['lastLogin'] })
 );
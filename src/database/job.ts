@@ -0,0 +1,83 @@
+/*
+ * Copyright (c) 2023. MIT License. Maina Derrick.
+ */
+
+import mongoose from 'mongoose';
+
+export default mongoose.model(
+    'job',
+    new mongoose.Schema({
+        type: {
+            type: String,
+            required: true,
+            index: true,
+            enum: [
+                'admitJoining',
+                'captureJoining',
+                'captureContinuing',
+                'captureRequested',
+                'admitDeferred',
+                'submitNhif'
+            ]
+        },
+        status: {
+            type: String,
+            index: true,
+            default: 'queued',
+            enum: ['queued', 'running', 'completed', 'failed']
+        },
+        institutionId: {
+            type: mongoose.Schema.Types.ObjectId,
+            ref: 'institution',
+            required: true,
+            index: true
+        },
+        // Token used to queue the job
+        tokenId: {
+            type: mongoose.Schema.Types.ObjectId,
+            ref: 'token'
+        },
+        // User or API key that queued the job, changes made by the job are audited against them
+        userId: {
+            type: mongoose.Schema.Types.ObjectId,
+            ref: 'user'
+        },
+        apiKeyId: {
+            type: mongoose.Schema.Types.ObjectId,
+            ref: 'apiKey'
+        },
+        // Query parameters received when the job was queued eg. transfer=true
+        options: { type: mongoose.Schema.Types.Mixed, default: {} },
+        progress: {
+            // Number of learners processed at the same time
+            concurrency: { type: Number, default: 1 },
+            total: { type: Number, default: 0 },
+            processed: { type: Number, default: 0 },
+            succeeded: { type: Number, default: 0 },
+            failed: { type: Number, default: 0 }
+        },
+        // One entry per learner, used to resume the job where it stopped
+        learners: [
+            {
+                learnerId: {
+                    type: mongoose.Schema.Types.ObjectId,
+                    ref: 'learner',
+                    required: true
+                },
+                status: {
+                    type: String,
+                    default: 'pending',
+                    enum: ['pending', 'succeeded', 'failed']
+                },
+                message: String,
+                result: mongoose.Schema.Types.Mixed,
+                processedOn: Date
+            }
+        ],
+        // Set when the job fails as a whole eg. failed to log in to NEMIS
+        error: String,
+        createdAt: { type: Date, default: Date.now },
+        startedAt: Date,
+        finishedAt: Date
+    })
+);
@@ -4,6 +4,7 @@
 
 import mongoose from "mongoose";
 import { GRADES, MEDICAL_CONDITIONS, NATIONALITY } from "@libs/zod_validation";
+import { auditPlugin } from "@libs/audit";
 
 
 const parentContact = {
@@ -88,19 +89,53 @@ export default mongoose.model(
         transfer: {
             method: {
                 type: String,
-                enum: ["in,'out"] as const
+                enum: ["in", "out"] as const
             },
+            // Institution the learner is moving from when transferring in, or to when transferring out
             institution: {
                 code: String,
                 name: String
+            },
+            // Pending until the institution the learner is in releases them
+            status: {
+                type: String,
+                enum: ["pending", "released"] as const
+            },
+            reason: String,
+            remarks: String,
+            requestedOn: Date,
+            releasedOn: Date
+        },
+        // Request to admit a joining learner selected to another institution
+        joiningRequest: {
+            // Pending until the learner's sub-county director approves it
+            status: {
+                type: String,
+                enum: ["pending", "approved", "cancelled"] as const
+            },
+            requestedBy: String,
+            requestedOn: Date,
+            approved: {
+                by: String,
+                on: String
             }
         },
+        // Set when NEMIS reports the learner's admission as deferred, admitted from /nemis/deferred
+        deferred: {
+            status: {
+                type: String,
+                enum: ["deferred", "admitted"] as const
+            },
+            detectedOn: Date,
+            admittedOn: Date
+        },
         // If learner_router was added as a continuing learner_router
         continuingId: {
             type: mongoose.Schema.Types.ObjectId,
             ref: "continuingLearner"
         },
-        // A score of how accurate our match algorithm matches api learner_router name to nemis learner_router name
+        // A score of how accurate our match algorithm matches api learner_router name to nemis learner_router name,
+        // a percentage set by sync, transfer detection and search
         nemisScore: Number,
         // Contacts details
         father: parentContact,
@@ -139,12 +174,23 @@ export default mongoose.model(
         isSpecial: { type: Boolean, required: true, default: false },
         medicalCondition: { type: String, enum: MEDICAL_CONDITIONS, default: "none" },
         nhifNo: Number,
+        // Last NHIF submission, error holds the message NEMIS returned until a submission succeeds
+        nhif: {
+            attempts: Number,
+            submittedOn: Date,
+            error: String
+        },
         kcpeYear: { type: Number, default: new Date().getFullYear(), required: true },
         archived: { type: Boolean, default: false },
+        // Learner this duplicate was merged into before being archived
+        mergedInto: {
+            type: mongoose.Schema.Types.ObjectId,
+            ref: "learner"
+        },
         error: {
             type: String,
             index: true,
             collation: { locale: "en", strength: 2 }
         }
-    })
+    }).plugin(auditPlugin)
 );
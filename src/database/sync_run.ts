@@ -0,0 +1,56 @@
+/*
+ * Copyright (c) 2023. MIT License. Maina Derrick.
+ */
+
+import mongoose from 'mongoose';
+
+export default mongoose.model(
+    'syncRun',
+    new mongoose.Schema({
+        institutionId: {
+            type: mongoose.Schema.Types.ObjectId,
+            ref: 'institution',
+            required: true,
+            index: true
+        },
+        // Scheduled syncs are started by the sync scheduler, manual syncs using /learner/sync
+        trigger: {
+            type: String,
+            required: true,
+            enum: ['schedule', 'manual']
+        },
+        // Token used to start a manual sync
+        tokenId: {
+            type: mongoose.Schema.Types.ObjectId,
+            ref: 'token'
+        },
+        status: {
+            type: String,
+            index: true,
+            default: 'running',
+            enum: ['running', 'completed', 'failed']
+        },
+        learners: {
+            // Learners listed on NEMIS across all supported grades
+            listed: { type: Number, default: 0 },
+            // Learners in the database without a UPI, the ones sync tries to match
+            checked: { type: Number, default: 0 },
+            updated: { type: Number, default: 0 }
+        },
+        // One entry per grade that failed to list, or learner that failed to save
+        failures: [
+            {
+                grade: String,
+                adm: String,
+                message: String
+            }
+        ],
+        startedAt: { type: Date, default: Date.now, index: true },
+        finishedAt: Date
+    })
+        // Only one sync runs at a time for each institution
+        .index(
+            { institutionId: 1 },
+            { unique: true, partialFilterExpression: { status: 'running' } }
+        )
+);
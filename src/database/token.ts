@@ -3,6 +3,7 @@
  */
 
 import * as mongoose from "mongoose";
+import { auditPlugin } from "@libs/audit";
 
 export default mongoose.model(
     'token',
@@ -16,6 +17,8 @@ export default mongoose.model(
             default: Date.now(),
             required: true
         },
+        // Last time the token was used to make a request
+        lastUsed: Date,
         // Expiry date of token
         expires: {
             type: Date,
@@ -27,6 +30,12 @@ export default mongoose.model(
             ref: 'institution',
             required: true
         },
+        // User the token was issued to, tokens issued on registration belong to the institution
+        userId: {
+            type: mongoose.Schema.Types.ObjectId,
+            ref: 'user',
+            index: true
+        },
         // Reason for the token to be revoked (e.g. user logged out)
         revoked: {
             on: {
@@ -45,5 +54,5 @@ export default mongoose.model(
             required: true
         },
         archiveReason: String
-    })
+    }).plugin(auditPlugin, { redact: ['token', 'tokenSecret'], ignore: ['lastUsed'] })
 );
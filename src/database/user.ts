@@ -0,0 +1,44 @@
+/*
+ * Copyright (c) 2023. MIT License. Maina Derrick.
+ */
+
+import mongoose from 'mongoose';
+import { auditPlugin } from '@libs/audit';
+
+export const USER_ROLES = ['admin', 'registrar', 'read-only'] as const;
+
+export default mongoose.model(
+    'user',
+    new mongoose.Schema({
+        // Institution the user works for, NEMIS credentials are those of the institution
+        institutionId: {
+            type: mongoose.Schema.Types.ObjectId,
+            ref: 'institution',
+            required: true,
+            index: true
+        },
+        // Usernames are unique within an institution
+        username: { type: String, required: true, lowercase: true, trim: true },
+        name: String,
+        // Salted scrypt hash of the user's password
+        passwordHash: { type: String, required: true },
+        // Admins manage users and the institution, registrars capture and admit learners and
+        // read-only users can only view data
+        role: {
+            type: String,
+            required: true,
+            enum: USER_ROLES,
+            default: 'read-only'
+        },
+        // Token of the user who created this user, undefined for the institution's own token
+        createdBy: {
+            type: mongoose.Schema.Types.ObjectId,
+            ref: 'token'
+        },
+        createdAt: { type: Date, default: Date.now },
+        lastLogin: Date,
+        archived: { type: Boolean, default: false }
+    })
+        .index({ institutionId: 1, username: 1 }, { unique: true })
+        .plugin(auditPlugin, { redact: ['passwordHash'], ignore: ['lastLogin'] })
+);
@@ -16,14 +16,19 @@ export default class {
         if (token) decode(token);
     }
 
-    // Used to generate a new bearer token
-    async getNewToken(_id: mongoose.Types.ObjectId, institutionId: mongoose.Types.ObjectId) {
+    // Used to generate a new bearer token, tokens issued without a userId belong to the institution
+    async getNewToken(
+        _id: mongoose.Types.ObjectId,
+        institutionId: mongoose.Types.ObjectId,
+        userId?: mongoose.Types.ObjectId
+    ) {
         // Generate a token secret
         let tokenSecret = randomFillSync(Buffer.alloc(32)).toString('hex');
         let token = jwt.sign(
             {
                 tokenId: _id.toString(),
-                institutionId: institutionId.toString()
+                institutionId: institutionId.toString(),
+                ...(userId && { userId: userId.toString() })
             },
             tokenSecret,
             { expiresIn: '30 d' }
@@ -33,6 +38,7 @@ export default class {
             token: token,
             tokenSecret: tokenSecret,
             institutionId: institutionId,
+            userId: userId,
             expires: Date.now() + ms('30 d')
         });
         return document.toObject() as DatabaseToken;
@@ -41,13 +47,24 @@ export default class {
     // Refresh bearer token
     async refreshToken(
         institutionId: mongoose.Types.ObjectId,
-        previousTokenId: mongoose.Types.ObjectId
+        previousTokenId: mongoose.Types.ObjectId,
+        userId?: mongoose.Types.ObjectId
     ) {
         try {
             let newTokenId = new mongoose.Types.ObjectId();
 
             // Get new token
-            const newTokenObject = await this.getNewToken(newTokenId, institutionId);
+            const newTokenObject = await this.getNewToken(newTokenId, institutionId, userId);
+
+            // The institution only keeps track of its own token, user tokens are found by userId
+            if (userId) {
+                await tokenModel.findByIdAndUpdate(previousTokenId, {
+                    archived: true,
+                    archivedReason: 'Token has expired'
+                });
+                let institution = await institutionModel.findById(institutionId);
+                return [institution?.toObject() as DatabaseInstitution, newTokenObject];
+            }
 
             // Run database updates in parallel
             const [_, updatedInstitution] = await Promise.all([
@@ -66,4 +83,32 @@ export default class {
             throw error;
         }
     }
+
+    // Revoke tokens that aren't already revoked, returns the number of tokens revoked
+    async revokeTokens(
+        institutionId: mongoose.Types.ObjectId,
+        tokenIds: mongoose.Types.ObjectId[],
+        reason: string
+    ) {
+        let { modifiedCount } = await tokenModel.updateMany(
+            {
+                _id: { $in: tokenIds },
+                institutionId: institutionId,
+                'revoked.on': { $exists: false }
+            },
+            { revoked: { on: new Date(), by: institutionId, reason: reason } }
+        );
+
+        // A revoked institution token is replaced when the token is recovered using /auth/recover
+        let institution = await institutionModel
+            .findOneAndUpdate({ _id: institutionId, token: { $in: tokenIds } }, { token: null })
+            .select('token');
+        if (institution?.token) {
+            await institutionModel.updateOne(
+                { _id: institutionId },
+                { $push: { archivedTokens: institution.token } }
+            );
+        }
+        return modifiedCount;
+    }
 }
@@ -0,0 +1,327 @@
+/*
+ * Copyright (c) 2023. MIT License. Maina Derrick.
+ */
+
+import { NextFunction, Request, Response } from 'express';
+import mongoose from 'mongoose';
+import { AsyncLocalStorage } from 'node:async_hooks';
+import auditModel from '@database/audit';
+import logger from '@libs/logger';
+import { NemisWebService } from '@libs/nemis/nemis_web_handler';
+
+export interface AuditActor {
+    source: 'request' | 'job' | 'schedule' | 'poller' | 'system';
+    institutionId?: mongoose.Types.ObjectId;
+    tokenId?: mongoose.Types.ObjectId;
+    userId?: mongoose.Types.ObjectId;
+    apiKeyId?: mongoose.Types.ObjectId;
+    jobId?: mongoose.Types.ObjectId;
+}
+
+interface AuditEntry {
+    institutionId?: mongoose.Types.ObjectId;
+    action: string;
+    target?: { model: string; ids: mongoose.Types.ObjectId[] };
+    before?: unknown;
+    after?: unknown;
+    nemis?: { args?: unknown; response?: unknown; error?: string };
+}
+
+// Document as read from the database, only the fields audited are selected
+interface AuditedDocument {
+    _id: mongoose.Types.ObjectId;
+    institutionId?: mongoose.Types.ObjectId;
+    [field: string]: unknown;
+}
+
+interface AuditOptions {
+    // Fields never written to the audit log eg. passwords
+    redact?: string[];
+    // Fields whose changes alone aren't audited eg. last used dates
+    ignore?: string[];
+}
+
+// Most documents read to record their values before an update of many documents
+const MAX_AUDITED_DOCUMENTS = 1000;
+
+// Values read before an update or delete query, until the query finishes
+const queryAudits = new WeakMap<
+    object,
+    { fields?: string[]; before: AuditedDocument[]; upsert?: boolean }
+>();
+
+// NemisWebService methods that change data on NEMIS
+const NEMIS_ACTIONS = [
+    'admitJoiningLearner',
+    'captureJoiningBiodata',
+    'admitDefferedLearner',
+    'requestJoiningLearner',
+    'transferIn',
+    'releaseLearner',
+    'cancelJoiningRequest',
+    'requestContinuingLearners',
+    'captureContinuingLearners',
+    'captureBioData',
+    'submitToNhif',
+    'addContinuingLearner'
+];
+
+/**
+ * Actor of the code running in the current async context. Set by the auth middleware for requests and
+ * by the job queue, sync scheduler and request poller for work done in the background.
+ */
+const auditStorage = new AsyncLocalStorage<AuditActor>();
+
+const runAs = <T>(actor: AuditActor, callback: () => T) => auditStorage.run(actor, callback);
+
+const currentActor = (): AuditActor => auditStorage.getStore() ?? { source: 'system' };
+
+// The actor is lost in callbacks of request streams eg. file uploads, restore it from req
+const restoreAuditActor = (req: Request, _: Response, next: NextFunction) =>
+    req.auditActor ? runAs(req.auditActor, next) : next();
+
+// Audit failures are logged, never failing the change they record
+const recordAudit = async (entry: AuditEntry) => {
+    try {
+        let { institutionId, ...actor } = currentActor();
+        await auditModel.create({
+            ...entry,
+            institutionId: entry.institutionId ?? institutionId,
+            actor: actor
+        });
+    } catch (err) {
+        logger.error(err);
+    }
+};
+
+const topLevelFields = (paths: string[], options: AuditOptions) => [
+    ...new Set(
+        paths
+            .filter(x => !x.startsWith('$'))
+            .map(x => x.split('.')[0])
+            .filter(x => !options.ignore?.includes(x))
+    )
+];
+
+const redactFields = (value: Record<string, unknown>, options: AuditOptions) => {
+    let redacted = { ...value };
+    options.redact?.forEach(x => {
+        if (x in redacted) redacted[x] = '[redacted]';
+    });
+    return redacted;
+};
+
+const redact = (value: unknown, options: AuditOptions) =>
+    value && typeof value === 'object' ? redactFields({ ...value }, options) : value;
+
+const pick = (
+    value: Record<string, unknown> | undefined,
+    fields: string[],
+    options: AuditOptions
+) => redactFields(Object.fromEntries(fields.map(x => [x, value?.[x]])), options);
+
+// Fields set by an update, whether using operators such as $set and $push or not
+const updatedFields = (update: unknown) =>
+    Object.entries(update ?? {}).flatMap(([key, value]) =>
+        key.startsWith('$') && value && typeof value === 'object' ? Object.keys(value) : [key]
+    );
+
+const institutionOf = (modelName: string, doc?: AuditedDocument) =>
+    modelName === 'institution' ? doc?._id : doc?.institutionId;
+
+/**
+ * Id of the document an upsert inserted, from the result of updateOne and updateMany or the document
+ * returned by findOneAndUpdate. A findOneAndUpdate returning the document before the update returns
+ * null, the inserted document is then found using the query's filter.
+ */
+const upsertedId = async (query: mongoose.Query<unknown, unknown>, result: unknown) => {
+    if (result && typeof result === 'object') {
+        if ('upsertedId' in result) return result.upsertedId as mongoose.Types.ObjectId | null;
+        if ('_id' in result) return result._id as mongoose.Types.ObjectId;
+    }
+    let [inserted] = await query.model.find(query.getFilter()).select('_id').limit(1).lean();
+    return inserted?._id as mongoose.Types.ObjectId | undefined;
+};
+
+/**
+ * Mongoose plugin recording every change to documents of a model in the audit collection: documents
+ * created and saved, inserted in bulk, updated or upserted and deleted by queries. Models' bulkWrite
+ * isn't audited, use queries instead. Values are read with find since findOne
+ * hooks, such as decrypting the institution's password, expect complete documents.
+ */
+const auditPlugin = (schema: mongoose.Schema, options: AuditOptions = {}) => {
+    schema.pre('save', async function () {
+        let model = this.constructor as mongoose.Model<unknown>;
+        this.$locals.auditNew = this.isNew;
+        if (this.isNew) return;
+
+        let fields = topLevelFields(this.directModifiedPaths(), options);
+        this.$locals.auditFields = fields;
+        if (fields.length === 0) return;
+        let [before] = await model
+            .find({ _id: this._id })
+            .select(fields.join(' '))
+            .lean<AuditedDocument[]>();
+        this.$locals.auditBefore = before;
+    });
+
+    schema.post('save', async function () {
+        let modelName = (this.constructor as mongoose.Model<unknown>).modelName;
+        let fields = this.$locals.auditFields as string[] | undefined;
+        if (!this.$locals.auditNew && !fields?.length) return;
+
+        await recordAudit({
+            institutionId: institutionOf(modelName, this as AuditedDocument),
+            action: `${modelName}.${this.$locals.auditNew ? 'create' : 'update'}`,
+            target: { model: modelName, ids: [this._id as mongoose.Types.ObjectId] },
+            before: this.$locals.auditNew
+                ? undefined
+                : pick(this.$locals.auditBefore as AuditedDocument, fields!, options),
+            after: this.$locals.auditNew
+                ? redact(this.toObject({ depopulate: true }), options)
+                : pick(this.toObject({ depopulate: true }), fields!, options)
+        });
+    });
+
+    // Queries changing a single document only read the first document matched
+    const readBeforeUpdate = (limit: number) =>
+        async function (this: mongoose.Query<unknown, unknown>) {
+            let fields = topLevelFields(updatedFields(this.getUpdate()), options);
+            if (fields.length === 0) return;
+
+            let before = await this.model
+                .find(this.getFilter())
+                .select([...fields, 'institutionId'].join(' '))
+                .limit(limit)
+                .lean<AuditedDocument[]>();
+            queryAudits.set(this, {
+                fields: fields,
+                before: before,
+                upsert: !!this.getOptions().upsert
+            });
+        };
+    schema.pre(['updateOne', 'findOneAndUpdate'], readBeforeUpdate(1));
+    schema.pre('updateMany', readBeforeUpdate(MAX_AUDITED_DOCUMENTS));
+
+    schema.post(['updateOne', 'updateMany', 'findOneAndUpdate'], async function (result: unknown) {
+        let audit = queryAudits.get(this);
+        let fields = audit?.fields ?? [];
+        let modelName = this.model.modelName;
+
+        // Nothing matched, an upsert inserted a new document
+        if (audit?.upsert && audit.before.length === 0) {
+            let id = await upsertedId(this, result);
+            if (!id) return;
+            let [inserted] = await this.model.find({ _id: id }).lean<AuditedDocument[]>();
+            if (!inserted) return;
+            return recordAudit({
+                institutionId: institutionOf(modelName, inserted),
+                action: `${modelName}.create`,
+                target: { model: modelName, ids: [id] },
+                after: redact(inserted, options)
+            });
+        }
+        if (!audit?.before.length) return;
+
+        let after = await this.model
+            .find({ _id: { $in: audit.before.map(x => x._id) } })
+            .select(fields.join(' '))
+            .lean<AuditedDocument[]>();
+
+        await recordAudit({
+            institutionId: institutionOf(modelName, audit.before[0]),
+            action: `${modelName}.update`,
+            target: { model: modelName, ids: audit.before.map(x => x._id) },
+            before: audit.before.map(x => ({ _id: x._id, ...pick(x, fields, options) })),
+            after: after.map(x => ({ _id: x._id, ...pick(x, fields, options) }))
+        });
+    });
+
+    const readBeforeDelete = (limit: number) =>
+        async function (this: mongoose.Query<unknown, unknown>) {
+            let before = await this.model
+                .find(this.getFilter())
+                .limit(limit)
+                .lean<AuditedDocument[]>();
+            queryAudits.set(this, { before: before });
+        };
+    schema.pre(['deleteOne', 'findOneAndDelete'], readBeforeDelete(1));
+    schema.pre('deleteMany', readBeforeDelete(MAX_AUDITED_DOCUMENTS));
+
+    schema.post(['deleteOne', 'deleteMany', 'findOneAndDelete'], async function () {
+        let before = queryAudits.get(this)?.before;
+        if (!before?.length) return;
+
+        let modelName = this.model.modelName;
+        await recordAudit({
+            institutionId: institutionOf(modelName, before[0]),
+            action: `${modelName}.delete`,
+            target: { model: modelName, ids: before.map(x => x._id) },
+            before: before.map(x => redact(x, options))
+        });
+    });
+
+    // Mongoose types the documents inserted as the model
+    schema.post<mongoose.Model<unknown>>('insertMany', async function (docs: unknown) {
+        if (!Array.isArray(docs)) return;
+        let inserted = docs.map(x =>
+            x instanceof mongoose.Document ? x.toObject({ depopulate: true }) : x
+        ) as AuditedDocument[];
+        if (inserted.length === 0) return;
+
+        await recordAudit({
+            institutionId: institutionOf(this.modelName, inserted[0]),
+            action: `${this.modelName}.create`,
+            target: { model: this.modelName, ids: inserted.map(x => x._id) },
+            after: inserted.map(x => redact(x, options))
+        });
+    });
+};
+
+/**
+ * Record calls to NemisWebService methods that change data on NEMIS, with their arguments and the
+ * response or error NEMIS returned. Other methods are called as they are.
+ */
+const auditNemis = (nemis: NemisWebService, institutionId?: mongoose.Types.ObjectId) =>
+    new Proxy(nemis, {
+        get(target, property) {
+            let value = Reflect.get(target, property, target);
+            if (typeof value !== 'function') return value;
+            if (typeof property !== 'string' || !NEMIS_ACTIONS.includes(property)) {
+                return value.bind(target);
+            }
+
+            return async (...args: unknown[]) => {
+                let action = 'nemis.' + property;
+                try {
+                    let response = await value.apply(target, args);
+                    await recordAudit({
+                        institutionId: institutionId,
+                        action: action,
+                        nemis: { args: args, response: response }
+                    });
+                    return response;
+                } catch (err) {
+                    await recordAudit({
+                        institutionId: institutionId,
+                        action: action,
+                        nemis: {
+                            args: args,
+                            error: err instanceof Error ? err.message : String(err)
+                        }
+                    });
+                    throw err;
+                }
+            };
+        }
+    });
+
+export {
+    NEMIS_ACTIONS,
+    auditNemis,
+    auditPlugin,
+    currentActor,
+    recordAudit,
+    restoreAuditActor,
+    runAs
+};
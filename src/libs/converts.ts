@@ -5,1452 +5,760 @@
 //converts county names adn sub county names to their respective code as per nemis
 import { BasicName, Grades } from 'types/nemisApiTypes';
 
+interface CountyCode {
+	name: string;
+	// Matches names with typos
+	pattern: RegExp;
+	no: number;
+	// Code used when the sub-county is missing or not matched
+	defaultSubCountyNo: number;
+	// Sub-counties without a name are other spellings of a sub-county, those without a pattern are only
+	// matched by their name. Patterns are tried in order
+	subCounties: { name?: string; pattern?: RegExp; no: number }[];
+}
+
+// Counties and sub-counties with their NEMIS codes, in the order of the county codes
+const COUNTY_CODES: CountyCode[] = [
+	{
+		name: 'Mombasa',
+		pattern: /^momb.*/i,
+		no: 101,
+		defaultSubCountyNo: 1202,
+		subCounties: [
+			{ name: 'Changamwe', pattern: /^chang.*/i, no: 1198 },
+			{ name: 'Jomvu', pattern: /^jom.*/i, no: 1199 },
+			{ name: 'Kisauni', pattern: /^kis.*/i, no: 1200 },
+			{ name: 'Likoni', pattern: /^lik.*/i, no: 1201 },
+			{ name: 'Mvita', pattern: /^mv.*/i, no: 1202 },
+			{ pattern: /^momb.*/i, no: 1202 },
+			{ name: 'Nyali', pattern: /^nya.*/i, no: 1203 }
+		]
+	},
+	{
+		name: 'Kwale',
+		pattern: /^kwa.*/i,
+		no: 102,
+		defaultSubCountyNo: 1141,
+		subCounties: [
+			{ name: 'Kinango', pattern: /^kin.*/i, no: 1139 },
+			{ name: 'Lunga Lunga', pattern: /^lu.*/i, no: 1141 },
+			{ name: 'Msambweni', pattern: /^msa.*/i, no: 1142 },
+			{ name: 'Matuga', pattern: /^ma.*/i, no: 1328 },
+			{ name: 'Samburu', pattern: /^sa.*/i, no: 1330 }
+		]
+	},
+	{
+		name: 'Kilifi',
+		pattern: /kili.*/i,
+		no: 103,
+		defaultSubCountyNo: 1099,
+		subCounties: [
+			{ name: 'Bahari', pattern: /^bah.*/i, no: 1094 },
+			{ pattern: /^kil.*/i, no: 1094 },
+			{ name: 'Ganze', pattern: /^gan.*/i, no: 1095 },
+			{ name: 'Kaloleni', pattern: /^kal.*/i, no: 1096 },
+			{ name: 'Magarini', pattern: /^mag.*/i, no: 1098 },
+			{ name: 'Malindi', pattern: /^mal.*/i, no: 1099 },
+			{ name: 'Rabai', pattern: /^ra.*/i, no: 1100 }
+		]
+	},
+	{
+		name: 'Tana River',
+		pattern: /^tana.*/i,
+		no: 104,
+		defaultSubCountyNo: 1279,
+		subCounties: [
+			{ pattern: /^bu.*/i, no: 1279 },
+			{ name: 'Tana North', pattern: /^ta.*rth$/i, no: 1279 },
+			{ name: 'Tana Delta', pattern: /^ta.*ta$/i, no: 1280 },
+			{ name: 'Tana River', pattern: /^ta.*r$/i, no: 1281 }
+		]
+	},
+	{
+		name: 'Lamu',
+		pattern: /^lam.*/i,
+		no: 105,
+		defaultSubCountyNo: 1148,
+		subCounties: [
+			{ name: 'Lamu East', pattern: /^l.*ast$/i, no: 1148 },
+			{ name: 'Lamu West', pattern: /^l.*est$/i, no: 1149 }
+		]
+	},
+	{
+		name: 'Taita Taveta',
+		pattern: /^tait.*/i,
+		no: 106,
+		defaultSubCountyNo: 1277,
+		subCounties: [
+			{ name: 'Voi', pattern: /^.*/i, no: 1275 },
+			{ name: 'Mwatate', pattern: /^mwa.*/i, no: 1276 },
+			{ name: 'Taveta', pattern: /^tav.*/i, no: 1277 },
+			{ name: 'Wundanyi', pattern: /^wu.*/i, no: 1278 },
+			{ name: 'Taita', pattern: /^tai.*/i, no: 1278 }
+		]
+	},
+	{
+		name: 'Garissa',
+		pattern: /^gar.*/i,
+		no: 107,
+		defaultSubCountyNo: 1041,
+		subCounties: [
+			{ name: 'Balambala', pattern: /^ba.*/i, no: 1038 },
+			{ name: 'Dadaab', pattern: /^da.*/i, no: 1039 },
+			{ name: 'Fafi', pattern: /^fa.*/i, no: 1040 },
+			{ name: 'Garissa', pattern: /^gar.*/i, no: 1041 },
+			{ name: 'Hulugho', pattern: /^hu.*/i, no: 1042 },
+			{ name: 'Ijara', pattern: /^ij.*/i, no: 1043 },
+			{ name: 'Lagdera', pattern: /^la.*/i, no: 1044 }
+		]
+	},
+	{
+		name: 'Wajir',
+		pattern: /^waj.*/i,
+		no: 108,
+		defaultSubCountyNo: 1313,
+		subCounties: [
+			{ name: 'Buna', pattern: /^bu.*/i, no: 1309 },
+			{ name: 'Eldas', pattern: /^eld.*/i, no: 1310 },
+			{ name: 'Habaswein', pattern: /^hab.*/i, no: 1311 },
+			{ name: 'Tarbaj', pattern: /^tar.*/i, no: 1312 },
+			{ name: 'Wajir East', pattern: /^wa.*ast$/i, no: 1313 },
+			{ name: 'Wajir North', pattern: /^wa.*rth$/i, no: 1314 },
+			{ name: 'Wajir South', pattern: /^w.*uth$/i, no: 1315 },
+			{ name: 'Wajir West', pattern: /^w.*est$/i, no: 1316 }
+		]
+	},
+	{
+		name: 'Mandera',
+		pattern: /^mand.*/i,
+		no: 109,
+		defaultSubCountyNo: 1169,
+		subCounties: [
+			{ name: 'Banissa', pattern: /^ba.*/i, no: 1167 },
+			{ name: 'Lafey', pattern: /^la.*/i, no: 1168 },
+			{ name: 'Mandera Central', pattern: /^m.*ral$/i, no: 1169 },
+			{ name: 'Mandera East', pattern: /^m.*ast/i, no: 1170 },
+			{ name: 'Mandera North', pattern: /^m.*rth/i, no: 1171 },
+			{ name: 'Mandera West', pattern: /^m.*est/i, no: 1172 },
+			{ name: 'Kotulo', pattern: /^ko.*/i, no: 1322 },
+			{ name: 'Arabia', pattern: /^ar.*/i, no: 1323 },
+			{ name: 'Kiliwehiri', pattern: /^ki.*/i, no: 1324 }
+		]
+	},
+	{
+		name: 'Marsabit',
+		pattern: /^mars.*/i,
+		no: 110,
+		defaultSubCountyNo: 1178,
+		subCounties: [
+			{ name: 'Chalbi', pattern: /^cha.*/i, no: 1173 },
+			{ name: 'Horr North', pattern: /^h.*rth$/i, no: 1174 },
+			{ name: 'Loiyangalani', pattern: /^loi.*/i, no: 1175 },
+			{ name: 'Marsabit', pattern: /^mar.*/i, no: 1176 },
+			{ name: 'Laisamis', pattern: /^lai.*/i, no: 1177 },
+			{ pattern: /^m.*th$/i, no: 1177 },
+			{ name: 'Moyale', pattern: /^mo.*/i, no: 1178 },
+			{ name: 'Sololo', pattern: /^so.*/i, no: 1179 }
+		]
+	},
+	{
+		name: 'Isiolo',
+		pattern: /^isi.*/i,
+		no: 111,
+		defaultSubCountyNo: 1054,
+		subCounties: [
+			{ name: 'Garbatulla', pattern: /^g.*/i, no: 1053 },
+			{ name: 'Isiolo', pattern: /^i.*/i, no: 1054 },
+			{ name: 'Merti', pattern: /^m.*/i, no: 1055 }
+		]
+	},
+	{
+		name: 'Meru',
+		pattern: /^meru.*/i,
+		no: 112,
+		defaultSubCountyNo: 1186,
+		subCounties: [
+			{ name: 'Buuri', pattern: /^b.*/i, no: 1180 },
+			{ name: 'Igembe Central', pattern: /^ig.*ral$/i, no: 1181 },
+			{ name: 'Igembe North', pattern: /^ig.*rth$/i, no: 1182 },
+			{ name: 'Igembe South', pattern: /^ig.*uth$/i, no: 1183 },
+			{ name: 'Imenti North', pattern: /^im.*rth$/i, no: 1184 },
+			{ name: 'Imenti South', pattern: /^im.*uth$/i, no: 1185 },
+			{ name: 'Meru Central', pattern: /^m.*al$/i, no: 1186 },
+			{ name: 'Tigania Central', pattern: /^ti.*al$/i, no: 1187 },
+			{ name: 'Tigania East', pattern: /^t.*ast$/i, no: 1188 },
+			{ name: 'Tigania West', pattern: /^t.*est$/i, no: 1189 }
+		]
+	},
+	{
+		name: 'Tharaka Nithi',
+		pattern: /^thar.*/i,
+		no: 113,
+		defaultSubCountyNo: 1283,
+		subCounties: [
+			{ name: 'Maara', pattern: /^ma.*/i, no: 1282 },
+			{ name: 'Meru South', pattern: /^me.*/i, no: 1283 },
+			{ name: 'Tharaka North', pattern: /^t.*rth/i, no: 1284 },
+			{ name: 'Tharaka South', pattern: /^t.*uth/i, no: 1285 }
+		]
+	},
+	{
+		name: 'Embu',
+		pattern: /^emb.*/i,
+		no: 114,
+		defaultSubCountyNo: 1034,
+		subCounties: [
+			{ name: 'Embu East', pattern: /^e.*ast$/i, no: 1033 },
+			{ name: 'Embu North', pattern: /^e.*rth$/i, no: 1034 },
+			{ name: 'Embu West', pattern: /^e.*est*/i, no: 1035 },
+			{ name: 'Mbeere North', pattern: /^m.*rth$/i, no: 1036 },
+			{ name: 'Mbeere South', pattern: /^m.*uth$/i, no: 1037 }
+		]
+	},
+	{
+		name: 'Kitui',
+		pattern: /^kit.*/i,
+		no: 115,
+		defaultSubCountyNo: 1126,
+		subCounties: [
+			{ name: 'Ikutha', pattern: /^i.*/i, no: 1123 },
+			{ name: 'Katulani', pattern: /^ka.*/i, no: 1124 },
+			{ name: 'Kisasi', pattern: /^ki.*i$/i, no: 1125 },
+			{ name: 'Kitui Central', pattern: /^k.*l$/i, no: 1126 },
+			{ name: 'Kitui West', pattern: /^k.*t$/i, no: 1127 },
+			{ pattern: /^kv.*/i, no: 1128 },
+			{ name: 'Lower Yatta', pattern: /^l.*a$/i, no: 1129 },
+			{ name: 'Matinyani', pattern: /^ma.*/i, no: 1130 },
+			{ name: 'Mumoni', pattern: /^mum.*/i, no: 1131 },
+			{ name: 'Mutitu', pattern: /^muti.*/i, no: 1132 },
+			{ name: 'Mutomo', pattern: /^muto.*/i, no: 1133 },
+			{ name: 'Mwingi Central', pattern: /^m.*l$/i, no: 1134 },
+			{ name: 'Mwingi East', pattern: /^m.*ast$/i, no: 1135 },
+			{ name: 'Mwingi West', pattern: /^m.*est$/i, no: 1136 },
+			{ name: 'Migwani', pattern: /^mi.*/i, no: 1136 },
+			{ name: 'Nzambani', pattern: /^nz.*/i, no: 1137 },
+			{ name: 'Tseikuru', pattern: /^tse.*/i, no: 1138 },
+			{ name: 'Kyuso', no: 1126 }
+		]
+	},
+	{
+		name: 'Machakos',
+		pattern: /^mach.*/i,
+		no: 116,
+		defaultSubCountyNo: 1153,
+		subCounties: [
+			{ name: 'Athi River', pattern: /^a.*r$/i, no: 1150 },
+			{ name: 'Kangundo', pattern: /^kan.*/i, no: 1151 },
+			{ name: 'Kathiani', pattern: /^kat.*/i, no: 1152 },
+			{ name: 'Machakos', pattern: /^mach.*/i, no: 1153 },
+			{ name: 'Masinga', pattern: /^mas.*/i, no: 1154 },
+			{ name: 'Matungulu', pattern: /^mat.*/i, no: 1155 },
+			{ name: 'Mwala', pattern: /^mw.*/i, no: 1156 },
+			{ name: 'Yatta', pattern: /^y.*/i, no: 1157 },
+			{ name: 'Kalama', pattern: /^kal.*/i, no: 1325 }
+		]
+	},
+	{
+		name: 'Makueni',
+		pattern: /^mak.*/i,
+		no: 117,
+		defaultSubCountyNo: 1159,
+		subCounties: [
+			{ name: 'Kathonzweni', pattern: /^kat.*/i, no: 1158 },
+			{ name: 'Kibwezi', pattern: /^kib.*/i, no: 1159 },
+			{ name: 'Kilome', pattern: /^kil.*/i, no: 1160 },
+			{ name: 'Makindu', pattern: /^m.*u$/i, no: 1161 },
+			{ name: 'Makueni', pattern: /^m.*i$/i, no: 1162 },
+			{ name: 'Mbooni East', pattern: /^m.*ast$/i, no: 1163 },
+			{ name: 'Mbooni West', pattern: /^m.*est$/i, no: 1164 },
+			{ name: 'Mukaa', pattern: /^muk.*/i, no: 1165 },
+			{ name: 'Nzaui', pattern: /^nz.*/i, no: 1166 }
+		]
+	},
+	{
+		name: 'Nyandarua',
+		pattern: /^nyan.*/i,
+		no: 118,
+		defaultSubCountyNo: 1251,
+		subCounties: [
+			{ name: 'Kinangop', pattern: /^k.*p$/i, no: 1251 },
+			{ name: 'Kipipiri', pattern: /^k.*i$/i, no: 1252 },
+			{ name: 'Mirangine', pattern: /^m.*/i, no: 1253 },
+			{ name: 'Nyandarua Central', pattern: /^n.*al$/i, no: 1254 },
+			{ name: 'Nyandarua North', pattern: /^n.*rth$/i, no: 1255 },
+			{ name: 'Nyandarua South', pattern: /^n.*uth$/i, no: 1256 },
+			{ name: 'Nyandarua West', pattern: /^n.*est$/i, no: 1257 },
+			{ pattern: /^g.*/i, no: 1332 }
+		]
+	},
+	{
+		name: 'Nyeri',
+		pattern: /^nyer.*/i,
+		no: 119,
+		defaultSubCountyNo: 1258,
+		subCounties: [
+			{ name: 'Kieni East', pattern: /^k.*ast$/i, no: 1258 },
+			{ name: 'Kieni West', pattern: /^k.*est$/i, no: 1259 },
+			{ name: 'Mathira East', pattern: /^m.*ast$/i, no: 1260 },
+			{ name: 'Mathira West', pattern: /^m.*est$/i, no: 1261 },
+			{ name: 'Mukurweini', pattern: /^muk.*/i, no: 1262 },
+			{ name: 'Nyeri Central', pattern: /^n.*l$/i, no: 1263 },
+			{ name: 'Nyeri South', pattern: /^n.*th$/i, no: 1264 },
+			{ name: 'Tetu', pattern: /^t.*/i, no: 1265 }
+		]
+	},
+	{
+		name: 'Kirinyaga',
+		pattern: /^kiri.*/i,
+		no: 120,
+		defaultSubCountyNo: 1103,
+		subCounties: [
+			{ name: 'Kirinyaga Central', pattern: /^k.*l$/i, no: 1101 },
+			{ name: 'Kirinyaga East', pattern: /^k.*ast$/i, no: 1102 },
+			{ name: 'Kirinyaga West', pattern: /^k.*est$/i, no: 1103 },
+			{ name: 'Mwea East', pattern: /^m.*ast$/i, no: 1104 },
+			{ name: 'Mwea West', pattern: /^m.*est$/i, no: 1105 }
+		]
+	},
+	{
+		name: "Murang'a",
+		pattern: /^mura.*/i,
+		no: 121,
+		defaultSubCountyNo: 1204,
+		subCounties: [
+			{ name: 'Gatanga', pattern: /^gat.*/i, no: 1204 },
+			{ name: 'Kahuro', pattern: /^kah.*/i, no: 1205 },
+			{ name: 'Kandara', pattern: /^kand.*/i, no: 1206 },
+			{ name: 'Kangema', pattern: /^kang.*/i, no: 1207 },
+			{ name: 'Kigumo', pattern: /^kig.*/i, no: 1208 },
+			{ name: 'Mathioya', pattern: /^ma.*/i, no: 1209 },
+			{ name: "Murang'a East", pattern: /^m.*ast$/i, no: 1210 },
+			{ name: "Murang'a South", pattern: /^m.*uth$/i, no: 1211 }
+		]
+	},
+	{
+		name: 'Kiambu',
+		pattern: /^kiam.*/i,
+		no: 122,
+		defaultSubCountyNo: 1084,
+		subCounties: [
+			{ name: 'Gatundu North', pattern: /^g.*rth$/i, no: 1081 },
+			{ name: 'Gatundu South', pattern: /^g.*uth$/i, no: 1082 },
+			{ name: 'Githunguri', pattern: /^gi.*/i, no: 1083 },
+			{ name: 'Juja', pattern: /^ju.*/i, no: 1084 },
+			{ name: 'Kabete', pattern: /^kab.*/i, no: 1085 },
+			{ name: 'Kiambaa', pattern: /^k.*a$/i, no: 1086 },
+			{ name: 'Kiambu', pattern: /^k.*u$/i, no: 1087 },
+			{ name: 'Kikuyu', pattern: /^kik.*/i, no: 1088 },
+			{ name: 'Lari', pattern: /^la.*/i, no: 1089 },
+			{ name: 'Limuru', pattern: /^li.*/i, no: 1090 },
+			{ name: 'Ruiru', pattern: /^ru.*/i, no: 1091 },
+			{ name: 'Thika East', pattern: /^t.*ast$/i, no: 1092 },
+			{ name: 'Thika West', pattern: /^t.*est$/i, no: 1093 }
+		]
+	},
+	{
+		name: 'Turkana',
+		pattern: /^tur.*/i,
+		no: 123,
+		defaultSubCountyNo: 1293,
+		subCounties: [
+			{ name: 'Kibish', pattern: /^k.*/i, no: 1291 },
+			{ name: 'Loima', pattern: /^l.*/i, no: 1292 },
+			{ name: 'Turkana Central', pattern: /^t.*l$/i, no: 1293 },
+			{ name: 'Turkana East', pattern: /^t.*ast$/i, no: 1294 },
+			{ name: 'Turkana North', pattern: /^t.*rth$/i, no: 1295 },
+			{ name: 'Turkana South', pattern: /^t.*uth$/i, no: 1296 },
+			{ name: 'Turkana West', pattern: /^t.*est$/i, no: 1297 }
+		]
+	},
+	{
+		name: 'West Pokot',
+		pattern: /^west.*/i,
+		no: 124,
+		defaultSubCountyNo: 1320,
+		subCounties: [
+			{ name: 'Kipkomo', pattern: /^ki.*/i, no: 1317 },
+			{ name: 'Pokot Central', pattern: /^p.*al$/i, no: 1318 },
+			{ name: 'Pokot North', pattern: /^p.*rth$/i, no: 1319 },
+			{ name: 'Pokot South', pattern: /^p.*uth$/i, no: 1320 },
+			{ name: 'West Pokot', pattern: /^w.*ot$/i, no: 1321 }
+		]
+	},
+	{
+		name: 'Samburu',
+		pattern: /^samb.*/i,
+		no: 125,
+		defaultSubCountyNo: 1266,
+		subCounties: [
+			{ name: 'Samburu Central', pattern: /^sa.*al$/i, no: 1266 },
+			{ name: 'Samburu East', pattern: /^sa.*ast$/i, no: 1267 },
+			{ name: 'Samburu North', pattern: /^sa.*rth$/i, no: 1268 }
+		]
+	},
+	{
+		name: 'Trans Nzoia',
+		pattern: /^trans.*/i,
+		no: 126,
+		defaultSubCountyNo: 1289,
+		subCounties: [
+			{ name: 'Endebess', pattern: /^e.*/i, no: 1286 },
+			{ name: 'Kiminini', pattern: /^ki.*/i, no: 1287 },
+			{ name: 'Kwanza', pattern: /^kw.*/i, no: 1288 },
+			{ name: 'Trans Nzoia East', pattern: /^t.*ast$/i, no: 1289 },
+			{ name: 'Saboti', pattern: /^s.*/i, no: 1290 },
+			{ name: 'Trans Nzoia West', pattern: /^t.*est$/i, no: 1290 }
+		]
+	},
+	{
+		name: 'Uasin Gishu',
+		pattern: /^uas.*/i,
+		no: 127,
+		defaultSubCountyNo: 1299,
+		subCounties: [
+			{ name: 'Eldoret East', pattern: /^e.*ast$/i, no: 1298 },
+			{ name: 'Ainabkoi', pattern: /^a.*/i, no: 1298 },
+			{ name: 'Eldoret West', pattern: /^e.*est$/i, no: 1299 },
+			{ name: 'Kesses', pattern: /^k.*/i, no: 1300 },
+			{ name: 'Moiben', pattern: /^mo.*/i, no: 1301 },
+			{ name: 'Soy', pattern: /^s.*/i, no: 1302 },
+			{ name: 'Wareng', pattern: /^wa.*/i, no: 1303 },
+			{ pattern: /^ka.*/i, no: 1303 }
+		]
+	},
+	{
+		name: 'Elgeyo Marakwet',
+		pattern: /^elg.*|^marak.*/i,
+		no: 128,
+		defaultSubCountyNo: 1031,
+		subCounties: [
+			{ name: 'Keiyo North', pattern: /^k.*rth$/i, no: 1029 },
+			{ name: 'Keiyo South', pattern: /^k.*uth$/i, no: 1030 },
+			{ name: 'Marakwet East', pattern: /^m.*ast$/i, no: 1031 },
+			{ name: 'Marakwet West', pattern: /^m.*est$/i, no: 1032 }
+		]
+	},
+	{
+		name: 'Nandi',
+		pattern: /^nand.*/i,
+		no: 129,
+		defaultSubCountyNo: 1235,
+		subCounties: [
+			{ name: 'Chesumei', pattern: /^c.*/i, no: 1234 },
+			{ name: 'Nandi Central', pattern: /^n.*al$/i, no: 1235 },
+			{ name: 'Nandi East', pattern: /^n.*ast$/i, no: 1236 },
+			{ name: 'Nandi North', pattern: /^n.*rth$/i, no: 1237 },
+			{ name: 'Nandi South', pattern: /^n.*uth$/i, no: 1238 },
+			{ name: 'Tinderet', pattern: /^t.*/i, no: 1239 }
+		]
+	},
+	{
+		name: 'Baringo',
+		pattern: /^bar.*/i,
+		no: 130,
+		defaultSubCountyNo: 1001,
+		subCounties: [
+			{ name: 'Baringo Central', pattern: /^b.*l$/i, no: 1001 },
+			{ name: 'Baringo North', pattern: /^b.*h$/i, no: 1002 },
+			{ pattern: /^t.*est$/i, no: 1003 },
+			{ name: 'East Pokot', pattern: /^e.*t$/i, no: 1003 },
+			{ name: 'Koibatek', pattern: /^k.*/i, no: 1004 },
+			{ name: 'Marigat', pattern: /^ma.*/i, no: 1005 },
+			{ name: 'Mogotio', pattern: /^mo.*/i, no: 1006 },
+			{ name: 'Tiaty East', pattern: /^t.*ast$/i, no: 1331 }
+		]
+	},
+	{
+		name: 'Laikipia',
+		pattern: /^laik.*/i,
+		no: 131,
+		defaultSubCountyNo: 1143,
+		subCounties: [
+			{ name: 'Laikipia Central', pattern: /^l.*l$/i, no: 1143 },
+			{ name: 'Laikipia East', pattern: /^l.*ast$/i, no: 1144 },
+			{ name: 'Laikipia North', pattern: /^l.*rth$/i, no: 1145 },
+			{ name: 'Laikipia West', pattern: /^l.*est$/i, no: 1146 },
+			{ name: 'Nyahururu', pattern: /^n.*/i, no: 1147 }
+		]
+	},
+	{
+		name: 'Nakuru',
+		pattern: /^nak.*/i,
+		no: 132,
+		defaultSubCountyNo: 1228,
+		subCounties: [
+			{ name: 'Gilgil', pattern: /^g.*/i, no: 1223 },
+			{ name: 'Kuresoi', pattern: /^k.*/i, no: 1224 },
+			{ name: 'Molo', pattern: /^molo.*/i, no: 1226 },
+			{ name: 'Naivasha', pattern: /^n.*a$/i, no: 1227 },
+			{ name: 'Nakuru', pattern: /^n.*u$/i, no: 1228 },
+			{ name: 'Nakuru North', pattern: /^n.*rth$/i, no: 1229 },
+			{ name: 'Nakuru West', pattern: /^n.*est$/i, no: 1230 },
+			{ name: 'Njoro', pattern: /^nj.*/i, no: 1231 },
+			{ name: 'Rongai', pattern: /^r.*/i, no: 1232 },
+			{ name: 'Subukia', pattern: /^s.*/i, no: 1233 }
+		]
+	},
+	{
+		name: 'Narok',
+		pattern: /^nar.*/i,
+		no: 133,
+		defaultSubCountyNo: 1241,
+		subCounties: [
+			{ name: 'Narok East', pattern: /^n.*ast$/i, no: 1240 },
+			{ name: 'Narok North', pattern: /^n.*rth$/i, no: 1241 },
+			{ name: 'Narok South', pattern: /^n*uth$/i, no: 1242 },
+			{ name: 'Narok West', pattern: /^n.*est$/i, no: 1243 },
+			{ name: 'Trans Mara East', pattern: /^t.*ast$/i, no: 1244 },
+			{ name: 'Trans Mara West', pattern: /^t.*est$/i, no: 1245 }
+		]
+	},
+	{
+		name: 'Kajiado',
+		pattern: /^kaji.*/i,
+		no: 134,
+		defaultSubCountyNo: 1057,
+		subCounties: [
+			{ name: 'Isinya', pattern: /^is/i, no: 1056 },
+			{ name: 'Kajiado Central', pattern: /^k.*al$.*/i, no: 1057 },
+			{ name: 'Kajiado North', pattern: /^k.*rth$.*/i, no: 1058 },
+			{ name: 'Kajiado West', pattern: /^k.*est$.*/i, no: 1059 },
+			{ name: 'Loitokitok', pattern: /^l.*/i, no: 1060 },
+			{ name: 'Mashuuru', pattern: /^m.*/i, no: 1061 }
+		]
+	},
+	{
+		name: 'Kericho',
+		pattern: /^ker.*/i,
+		no: 135,
+		defaultSubCountyNo: 1077,
+		subCounties: [
+			{ name: 'Belgut', pattern: /^be.*/i, no: 1075 },
+			{ name: 'Bureti', pattern: /^bu.*/i, no: 1076 },
+			{ name: 'Kericho', pattern: /^ke.*/i, no: 1077 },
+			{ name: 'Kipkelion', pattern: /^ki.*/i, no: 1078 },
+			{ name: 'Londiani', pattern: /^lo.*/i, no: 1079 },
+			{ name: 'Soin', pattern: /^s.*/i, no: 1080 }
+		]
+	},
+	{
+		name: 'Bomet',
+		pattern: /^bome.*/i,
+		no: 136,
+		defaultSubCountyNo: 1007,
+		subCounties: [
+			{ name: 'Bomet Central', pattern: /^b.*l$/i, no: 1007 },
+			{ name: 'Bomet East', pattern: /^b.*t$/i, no: 1008 },
+			{ name: 'Chepalungu', pattern: /^c.*/i, no: 1009 },
+			{ name: 'Konoin', pattern: /^k.*/i, no: 1010 },
+			{ name: 'Sotik', pattern: /^s.*/i, no: 1011 }
+		]
+	},
+	{
+		name: 'Kakamega',
+		pattern: /^kaka.*/i,
+		no: 137,
+		defaultSubCountyNo: 1072,
+		subCounties: [
+			{ name: 'Butere', pattern: /^b.*/i, no: 1062 },
+			{ name: 'Kakamega Central', pattern: /^k.*l$/i, no: 1063 },
+			{ name: 'Kakamega East', pattern: /^k.*ast$/i, no: 1064 },
+			{ name: 'Kakamega North', pattern: /^k.*rth$/i, no: 1065 },
+			{ name: 'Kakamega South', pattern: /^k.*uth$/i, no: 1066 },
+			{ name: 'Khwisero', pattern: /^kh.*/i, no: 1067 },
+			{ name: 'Likuyani', pattern: /^li.*/i, no: 1068 },
+			{ name: 'Lugari', pattern: /^lu.*/i, no: 1069 },
+			{ name: 'Matete', pattern: /^mat.*/i, no: 1070 },
+			{ name: 'Matungu', pattern: /^matu.*/i, no: 1071 },
+			{ name: 'Mumias East', pattern: /^mu.*s$/i, no: 1072 },
+			{ name: 'Mumias West', pattern: /^mu.*t$/i, no: 1073 },
+			{ name: 'Navakholo', pattern: /^n.*/i, no: 1074 }
+		]
+	},
+	{
+		name: 'Vihiga',
+		pattern: /^vih.*/i,
+		no: 138,
+		defaultSubCountyNo: 1308,
+		subCounties: [
+			{ name: 'Emuhaya', pattern: /^e.*/i, no: 1304 },
+			{ name: 'Hamisi', pattern: /^h.*/i, no: 1305 },
+			{ name: 'Luanda', pattern: /^l.*/i, no: 1306 },
+			{ name: 'Sabatia', pattern: /^s.*/i, no: 1307 },
+			{ name: 'Vihiga', pattern: /^v.*/i, no: 1308 }
+		]
+	},
+	{
+		name: 'Bungoma',
+		pattern: /^bung.*/i,
+		no: 139,
+		defaultSubCountyNo: 1013,
+		subCounties: [
+			{ name: 'Bumula', pattern: /^b.*a$/i, no: 1012 },
+			{ name: 'Bungoma Central', pattern: /^b.*al$/i, no: 1013 },
+			{ name: 'Bungoma East', pattern: /^b.*ast$/i, no: 1014 },
+			{ name: 'Bungoma North', pattern: /^b.*rth$/i, no: 1015 },
+			{ name: 'Bungoma South', pattern: /^b.*uth$/i, no: 1016 },
+			{ name: 'Bungoma West', pattern: /^b.*est$/i, no: 1017 },
+			{ name: 'Cheptais', pattern: /^ch.*/i, no: 1018 },
+			{ name: 'Kimilili', pattern: /^ki.*/i, no: 1019 },
+			{ name: 'Mt Elgon', pattern: /^m.*n$/i, no: 1020 },
+			{ name: 'Webuye', pattern: /^w.*/i, no: 1021 },
+			{ name: 'Kabuchai', pattern: /^k.*/i, no: 1326 }
+		]
+	},
+	{
+		name: 'Busia',
+		pattern: /^bus.*/i,
+		no: 140,
+		defaultSubCountyNo: 1023,
+		subCounties: [
+			{ name: 'Bunyala', pattern: /^bun.*/i, no: 1022 },
+			{ name: 'Busia', pattern: /^bus.*/i, no: 1023 },
+			{ name: 'Butula', pattern: /^but.*/i, no: 1024 },
+			{ name: 'Nambale', pattern: /^na.*/i, no: 1025 },
+			{ name: 'Samia', pattern: /^sa.*/i, no: 1026 },
+			{ name: 'Teso North', pattern: /^t.*rth$/i, no: 1027 },
+			{ name: 'Teso South', pattern: /^t.*uth$/i, no: 1028 }
+		]
+	},
+	{
+		name: 'Siaya',
+		pattern: /^sia.*/i,
+		no: 141,
+		defaultSubCountyNo: 1272,
+		subCounties: [
+			{ name: 'Bondo', pattern: /^bo.*/i, no: 1269 },
+			{ name: 'Gem', pattern: /^ge.*/i, no: 1270 },
+			{ name: 'Rarieda', pattern: /^ra.*/i, no: 1271 },
+			{ name: 'Siaya', pattern: /^si.*/i, no: 1272 },
+			{ name: 'Ugenya', pattern: /^uge.*/i, no: 1273 },
+			{ name: 'Ugunja', pattern: /^ugu.*/i, no: 1274 }
+		]
+	},
+	{
+		name: 'Kisumu',
+		pattern: /^kisu.*/i,
+		no: 142,
+		defaultSubCountyNo: 1116,
+		subCounties: [
+			{ name: 'Kisumu Central', pattern: /^k.*al$/i, no: 1116 },
+			{ name: 'Kisumu East', pattern: /^k.*ast$/i, no: 1117 },
+			{ name: 'Kisumu West', pattern: /^k.*est$/i, no: 1118 },
+			{ name: 'Muhoroni', pattern: /^m.*/i, no: 1119 },
+			{ name: 'Nyakach', pattern: /^n.*h$/i, no: 1120 },
+			{ name: 'Nyando', pattern: /^nyando.*/i, no: 1121 },
+			{ name: 'Seme', pattern: /^s.*/i, no: 1122 }
+		]
+	},
+	{
+		name: 'Homa Bay',
+		pattern: /^hom.*/i,
+		no: 143,
+		defaultSubCountyNo: 1045,
+		subCounties: [
+			{ name: 'Homa Bay', pattern: /^h.*ay$/i, no: 1045 },
+			{ name: 'Mbita', pattern: /^mb.*/i, no: 1046 },
+			{ name: 'Ndhiwa', pattern: /^nd.*/i, no: 1047 },
+			{ name: 'Rachuonyo East', pattern: /^la.*ast$/i, no: 1048 },
+			{ name: 'Rachuonyo North', pattern: /^la.*rth$/i, no: 1049 },
+			{ name: 'Rachuonyo South', pattern: /^la.*uth$/i, no: 1050 },
+			{ name: 'Rangwe', pattern: /^ra.*/i, no: 1051 },
+			{ name: 'Suba', pattern: /^s.*/i, no: 1052 }
+		]
+	},
+	{
+		name: 'Migori',
+		pattern: /^migo.*/i,
+		no: 144,
+		defaultSubCountyNo: 1195,
+		subCounties: [
+			{ name: 'Awendo', pattern: /^aw.*/i, no: 1190 },
+			{ name: 'Kuria East', pattern: /^k.*ast$/i, no: 1191 },
+			{ name: 'Kuria West', pattern: /^k.*est$/i, no: 1192 },
+			{ name: 'Migori', pattern: /^mig.*/i, no: 1193 },
+			{ name: 'Nyatike', pattern: /^ny.*/i, no: 1194 },
+			{ name: 'Rongo', pattern: /^ro.*/i, no: 1195 },
+			{ name: 'Suna East', pattern: /^s.*st$/i, no: 1196 },
+			{ name: 'Uriri', pattern: /^ur.*/i, no: 1197 },
+			{ name: 'Mabera', pattern: /^ma.*/i, no: 1329 },
+			{ name: 'Suna West', no: 1196 }
+		]
+	},
+	{
+		name: 'Kisii',
+		pattern: /^kisi.*/i,
+		no: 145,
+		defaultSubCountyNo: 1110,
+		subCounties: [
+			{ name: 'Gucha', pattern: /^gu.*/i, no: 1106 },
+			{ name: 'Gucha South', pattern: /^g.*th$/i, no: 1107 },
+			{ name: 'Kenyenya', pattern: /^ke.*/i, no: 1108 },
+			{ name: 'Kisii Central', pattern: /^k.*al$/i, no: 1109 },
+			{ name: 'Kisii South', pattern: /^k.*th$/i, no: 1110 },
+			{ name: 'Marani', pattern: /^mar.*/i, no: 1112 },
+			{ name: 'Masaba South', pattern: /^mas.*/i, no: 1113 },
+			{ name: 'Nyamache', pattern: /^ny.*/i, no: 1114 },
+			{ name: 'Sameta', pattern: /^sa.*/i, no: 1115 },
+			{ name: 'Etago', pattern: /^et.*/i, no: 1327 }
+		]
+	},
+	{
+		name: 'Nyamira',
+		pattern: /^nyam.*/i,
+		no: 146,
+		defaultSubCountyNo: 1247,
+		subCounties: [
+			{ name: 'Borabu', pattern: /^bo.*/i, no: 1246 },
+			{ name: 'Manga', pattern: /^man.*/i, no: 1247 },
+			{ name: 'Masaba North', pattern: /^ma.*th$/i, no: 1248 },
+			{ name: 'Nyamira North', pattern: /^n.*rth$/i, no: 1249 },
+			{ name: 'Nyamira South', pattern: /^n.*uth$/i, no: 1250 }
+		]
+	},
+	{
+		name: 'Nairobi',
+		pattern: /^nai.*/i,
+		no: 147,
+		defaultSubCountyNo: 1221,
+		subCounties: [
+			{ name: 'Dagoretti', pattern: /^dag.*/i, no: 1212 },
+			{ name: 'Embakasi', pattern: /^emb.*/i, no: 1213 },
+			{ name: 'Kamukunji', pattern: /^kam.*/i, no: 1214 },
+			{ name: 'Kasarani', pattern: /^kasa.*/i, no: 1215 },
+			{ name: 'Kibra', pattern: /^kib.*/i, no: 1216 },
+			{ name: 'Langata', pattern: /^lang.*/i, no: 1217 },
+			{ name: 'Makadara', pattern: /^mak.*/i, no: 1218 },
+			{ name: 'Mathare', pattern: /^mat.*/i, no: 1219 },
+			{ name: 'Njiru', pattern: /^nj.*/i, no: 1220 },
+			{ name: 'Starehe', pattern: /^st.*/i, no: 1221 },
+			{ name: 'Westlands', pattern: /^wes.*/i, no: 1222 }
+		]
+	}
+];
+
 export const countyToNo = (county?: string, subCounty?: string) => {
 	county = String(county).trim();
 	subCounty = String(subCounty).trim();
-	let countyNo: number;
-	let subCountyNo: number;
-	switch (true) {
-		//Regex county names to avoid typo
-		//01 Mombasa
-		case /^momb.*/gi.test(county):
-			countyNo = 101;
-			switch (true) {
-				case /^chang.*/gi.test(subCounty):
-					subCountyNo = 1198;
-					break;
-				case /^jom.*/gi.test(subCounty):
-					subCountyNo = 1199;
-					break;
-				case /^kis.*/gi.test(subCounty):
-					subCountyNo = 1200;
-					break;
-				case /^lik.*/gi.test(subCounty):
-					subCountyNo = 1201;
-					break;
-				case /^mv.*/gi.test(subCounty):
-					subCountyNo = 1202;
-					break;
-				case /^momb.*/gi.test(subCounty):
-					subCountyNo = 1202;
-					break;
-				case /^nya.*/gi.test(subCounty):
-					subCountyNo = 1203;
-					break;
-				default:
-					subCountyNo = 1202;
-					break;
-			}
-			break;
-		//02 Kwale
-		case /^kwa.*/gi.test(county):
-			countyNo = 102;
-			switch (true) {
-				case /^kin.*/gi.test(subCounty):
-					subCountyNo = 1139;
-					break;
-				case /^lu.*/gi.test(subCounty):
-					subCountyNo = 1141;
-					break;
-				case /^msa.*/gi.test(subCounty):
-					subCountyNo = 1142;
-					break;
-				case /^ma.*/gi.test(subCounty):
-					subCountyNo = 1328;
-					break;
-				case /^sa.*/gi.test(subCounty):
-					subCountyNo = 1330;
-					break;
-				default:
-					subCountyNo = 1141;
-					break;
-			}
-			break;
-		//03 Kilifi
-		case /kili.*/gi.test(county):
-			countyNo = 103;
-			switch (true) {
-				case /^bah.*/gi.test(subCounty):
-					subCountyNo = 1094;
-					break;
-				case /^kil.*/gi.test(subCounty):
-					subCountyNo = 1094;
-					break;
-
-				case /^gan.*/gi.test(subCounty):
-					subCountyNo = 1095;
-					break;
-				case /^kal.*/gi.test(subCounty):
-					subCountyNo = 1096;
-					break;
-				case /^mag.*/gi.test(subCounty):
-					subCountyNo = 1098;
-					break;
-				case /^mal.*/gi.test(subCounty):
-					subCountyNo = 1099;
-					break;
-				case /^ra.*/gi.test(subCounty):
-					subCountyNo = 1100;
-					break;
-				default:
-					subCountyNo = 1099;
-					break;
-			}
-			break;
-		//04 Tana River
-		case /^tana.*/gi.test(county):
-			countyNo = 104;
-			switch (true) {
-				case /^bu.*/gi.test(subCounty):
-					subCountyNo = 1279;
-					break;
-				case /^ta.*rth$/gi.test(subCounty):
-					subCountyNo = 1279;
-					break;
-				case /^ta.*ta$/gi.test(subCounty):
-					subCountyNo = 1280;
-					break;
-				case /^ta.*r$/gi.test(subCounty):
-					subCountyNo = 1281;
-					break;
-				default:
-					subCountyNo = 1279;
-			}
-			break;
-		//05 Lamu
-		case /^lam.*/gi.test(county):
-			countyNo = 105;
-			switch (true) {
-				case /^l.*ast$/gi.test(subCounty):
-					subCountyNo = 1148;
-					break;
-				case /^l.*est$/gi.test(subCounty):
-					subCountyNo = 1149;
-					break;
-				default:
-					subCountyNo = 1148;
-			}
-			break;
-		//06 Taita Taveta
-		case /^tait.*/gi.test(county):
-			countyNo = 106;
-			switch (true) {
-				case /^.*/gi.test(subCounty):
-					subCountyNo = 1275;
-					break;
-				case /^mwa.*/gi.test(subCounty):
-					subCountyNo = 1276;
-					break;
-				case /^tav.*/gi.test(subCounty):
-					subCountyNo = 1277;
-					break;
-				case /^wu.*/gi.test(subCounty):
-					subCountyNo = 1278;
-					break;
-				case /^tai.*/gi.test(subCounty):
-					subCountyNo = 1278;
-					break;
-				default:
-					subCountyNo = 1277;
-			}
-			break;
-		//07 Garisa
-		case /^gar.*/gi.test(county):
-			countyNo = 107;
-			switch (true) {
-				case /^ba.*/gi.test(subCounty):
-					subCountyNo = 1038;
-					break;
-				case /^da.*/gi.test(subCounty):
-					subCountyNo = 1039;
-					break;
-				case /^fa.*/gi.test(subCounty):
-					subCountyNo = 1040;
-					break;
-				case /^gar.*/gi.test(subCounty):
-					subCountyNo = 1041;
-					break;
-				case /^hu.*/gi.test(subCounty):
-					subCountyNo = 1042;
-					break;
-				case /^ij.*/gi.test(subCounty):
-					subCountyNo = 1043;
-					break;
-				case /^la.*/gi.test(subCounty):
-					subCountyNo = 1044;
-					break;
-				default:
-					subCountyNo = 1041;
-					break;
-			}
-			break;
-		//08 Wajir
-		case /^waj.*/gi.test(county):
-			countyNo = 108;
-			switch (true) {
-				case /^bu.*/gi.test(subCounty):
-					subCountyNo = 1309;
-					break;
-				case /^eld.*/gi.test(subCounty):
-					subCountyNo = 1310;
-					break;
-				case /^hab.*/gi.test(subCounty):
-					subCountyNo = 1311;
-					break;
-				case /^tar.*/gi.test(subCounty):
-					subCountyNo = 1312;
-					break;
-				case /^wa.*ast$/gi.test(subCounty):
-					subCountyNo = 1313;
-					break;
-				case /^wa.*rth$/gi.test(subCounty):
-					subCountyNo = 1314;
-					break;
-				case /^w.*uth$/gi.test(subCounty):
-					subCountyNo = 1315;
-					break;
-				case /^w.*est$/gi.test(subCounty):
-					subCountyNo = 1316;
-					break;
-				default:
-					subCountyNo = 1313;
-					break;
-			}
-			break;
-		//09 Mandera
-		case /^mand.*/gi.test(county):
-			countyNo = 109;
-			switch (true) {
-				case /^ba.*/gi.test(subCounty):
-					subCountyNo = 1167;
-					break;
-				case /^la.*/gi.test(subCounty):
-					subCountyNo = 1168;
-					break;
-				case /^m.*ral$/gi.test(subCounty):
-					subCountyNo = 1169;
-					break;
-				case /^m.*ast/gi.test(subCounty):
-					subCountyNo = 1170;
-					break;
-				case /^m.*rth/gi.test(subCounty):
-					subCountyNo = 1171;
-					break;
-				case /^m.*est/gi.test(subCounty):
-					subCountyNo = 1172;
-					break;
-				case /^ko.*/gi.test(subCounty):
-					subCountyNo = 1322;
-					break;
-				case /^ar.*/gi.test(subCounty):
-					subCountyNo = 1323;
-					break;
-				case /^ki.*/gi.test(subCounty):
-					subCountyNo = 1324;
-					break;
-				default:
-					subCountyNo = 1169;
-					break;
-			}
-			break;
-		//10 Marsabit
-		case /^mars.*/gi.test(county):
-			countyNo = 110;
-			switch (true) {
-				case /^cha.*/gi.test(subCounty):
-					subCountyNo = 1173;
-					break;
-				case /^h.*rth$/gi.test(subCounty):
-					subCountyNo = 1174;
-					break;
-				case /^loi.*/gi.test(subCounty):
-					subCountyNo = 1175;
-					break;
-				case /^mar.*/gi.test(subCounty):
-					subCountyNo = 1176;
-					break;
-				case /^lai.*/gi.test(subCounty):
-					subCountyNo = 1177;
-					break;
-				case /^m.*th$/gi.test(subCounty):
-					subCountyNo = 1177;
-					break;
-				case /^mo.*/gi.test(subCounty):
-					subCountyNo = 1178;
-					break;
-				case /^so.*/gi.test(subCounty):
-					subCountyNo = 1179;
-					break;
-				default:
-					subCountyNo = 1178;
-					break;
-			}
-			break;
-		//11 Isiolo
-		case /^isi.*/gi.test(county):
-			countyNo = 111;
-			switch (true) {
-				case /^g.*/gi.test(subCounty):
-					subCountyNo = 1053;
-					break;
-				case /^i.*/gi.test(subCounty):
-					subCountyNo = 1054;
-					break;
-				case /^m.*/gi.test(subCounty):
-					subCountyNo = 1055;
-					break;
-				default:
-					subCountyNo = 1054;
-			}
-			break;
-		//12 Meru
-		case /^meru.*/gi.test(county):
-			countyNo = 112;
-			switch (true) {
-				case /^b.*/gi.test(subCounty):
-					subCountyNo = 1180;
-					break;
-				case /^ig.*ral$/gi.test(subCounty):
-					subCountyNo = 1181;
-					break;
-				case /^ig.*rth$/gi.test(subCounty):
-					subCountyNo = 1182;
-					break;
-				case /^ig.*uth$/gi.test(subCounty):
-					subCountyNo = 1183;
-					break;
-				case /^im.*rth$/gi.test(subCounty):
-					subCountyNo = 1184;
-					break;
-				case /^im.*uth$/gi.test(subCounty):
-					subCountyNo = 1185;
-					break;
-				case /^m.*al$/gi.test(subCounty):
-					subCountyNo = 1186;
-					break;
-				case /^ti.*al$/gi.test(subCounty):
-					subCountyNo = 1187;
-					break;
-				case /^t.*ast$/gi.test(subCounty):
-					subCountyNo = 1188;
-					break;
-				case /^t.*est$/gi.test(subCounty):
-					subCountyNo = 1189;
-					break;
-				default:
-					subCountyNo = 1186;
-			}
-			break;
-		//13 Tharaka-nithi
-		case /^thar.*/gi.test(county):
-			countyNo = 113;
-			switch (true) {
-				case /^ma.*/gi.test(subCounty):
-					subCountyNo = 1282;
-					break;
-				case /^me.*/gi.test(subCounty):
-					subCountyNo = 1283;
-					break;
-				case /^t.*rth/gi.test(subCounty):
-					subCountyNo = 1284;
-					break;
-				case /^t.*uth/gi.test(subCounty):
-					subCountyNo = 1285;
-					break;
-				default:
-					subCountyNo = 1283;
-					break;
-			}
-			break;
-		//14 Embu
-		case /^emb.*/gi.test(county):
-			countyNo = 114;
-			switch (true) {
-				case /^e.*ast$/gi.test(subCounty):
-					subCountyNo = 1033;
-					break;
-				case /^e.*rth$/gi.test(subCounty):
-					subCountyNo = 1034;
-					break;
-				case /^e.*est*/gi.test(subCounty):
-					subCountyNo = 1035;
-					break;
-				case /^m.*rth$/gi.test(subCounty):
-					subCountyNo = 1036;
-					break;
-				case /^m.*uth$/gi.test(subCounty):
-					subCountyNo = 1037;
-					break;
-				default:
-					subCountyNo = 1034;
-			}
-			break;
-		//15 Kitui
-		case /^kit.*/gi.test(county):
-			countyNo = 115;
-			switch (true) {
-				case /^i.*/gi.test(subCounty):
-					subCountyNo = 1123;
-					break;
-				case /^ka.*/gi.test(subCounty):
-					subCountyNo = 1124;
-					break;
-				case /^ki.*i$/gi.test(subCounty):
-					subCountyNo = 1125;
-					break;
-				case /^k.*l$/gi.test(subCounty):
-					subCountyNo = 1126;
-					break;
-				case /^k.*t$/gi.test(subCounty):
-					subCountyNo = 1127;
-					break;
-				case /^kv.*/gi.test(subCounty):
-					subCountyNo = 1128;
-					break;
-				case /^l.*a$/gi.test(subCounty):
-					subCountyNo = 1129;
-					break;
-				case /^ma.*/gi.test(subCounty):
-					subCountyNo = 1130;
-					break;
-				case /^mum.*/gi.test(subCounty):
-					subCountyNo = 1131;
-					break;
-				case /^muti.*/gi.test(subCounty):
-					subCountyNo = 1132;
-					break;
-				case /^muto.*/gi.test(subCounty):
-					subCountyNo = 1133;
-					break;
-				case /^m.*l$/gi.test(subCounty):
-					subCountyNo = 1134;
-					break;
-				case /^m.*ast$/gi.test(subCounty):
-					subCountyNo = 1135;
-					break;
-				case /^m.*est$/gi.test(subCounty):
-					subCountyNo = 1136;
-					break;
-				case /^mi.*/gi.test(subCounty):
-					subCountyNo = 1136;
-					break;
-				case /^nz.*/gi.test(subCounty):
-					subCountyNo = 1137;
-					break;
-				case /^tse.*/gi.test(subCounty):
-					subCountyNo = 1138;
-					break;
-				default:
-					subCountyNo = 1126;
-					break;
-			}
-			break;
-		//16 Machakos
-		case /^mach.*/gi.test(county):
-			countyNo = 116;
-			switch (true) {
-				case /^a.*r$/gi.test(subCounty):
-					subCountyNo = 1150;
-					break;
-				case /^kan.*/gi.test(subCounty):
-					subCountyNo = 1151;
-					break;
-				case /^kat.*/gi.test(subCounty):
-					subCountyNo = 1152;
-					break;
-				case /^mach.*/gi.test(subCounty):
-					subCountyNo = 1153;
-					break;
-				case /^mas.*/gi.test(subCounty):
-					subCountyNo = 1154;
-					break;
-				case /^mat.*/gi.test(subCounty):
-					subCountyNo = 1155;
-					break;
-				case /^mw.*/gi.test(subCounty):
-					subCountyNo = 1156;
-					break;
-				case /^y.*/gi.test(subCounty):
-					subCountyNo = 1157;
-					break;
-				case /^kal.*/gi.test(subCounty):
-					subCountyNo = 1325;
-					break;
-				default:
-					subCountyNo = 1153;
-					break;
-			}
-			break;
-		//17 Makueni
-		case /^mak.*/gi.test(county):
-			countyNo = 117;
-			switch (true) {
-				case /^kat.*/gi.test(subCounty):
-					subCountyNo = 1158;
-					break;
-				case /^kib.*/gi.test(subCounty):
-					subCountyNo = 1159;
-					break;
-				case /^kil.*/gi.test(subCounty):
-					subCountyNo = 1160;
-					break;
-				case /^m.*u$/gi.test(subCounty):
-					subCountyNo = 1161;
-					break;
-				case /^m.*i$/gi.test(subCounty):
-					subCountyNo = 1162;
-					break;
-				case /^m.*ast$/gi.test(subCounty):
-					subCountyNo = 1163;
-					break;
-				case /^m.*est$/gi.test(subCounty):
-					subCountyNo = 1164;
-					break;
-				case /^muk.*/gi.test(subCounty):
-					subCountyNo = 1165;
-					break;
-				case /^nz.*/gi.test(subCounty):
-					subCountyNo = 1166;
-					break;
-				default:
-					subCountyNo = 1159;
-					break;
-			}
-			break;
-		//18 Nyandarua
-		case /^nyan.*/gi.test(county):
-			countyNo = 118;
-			switch (true) {
-				case /^k.*p$/gi.test(subCounty):
-					subCountyNo = 1251;
-					break;
-				case /^k.*i$/gi.test(subCounty):
-					subCountyNo = 1252;
-					break;
-				case /^m.*/gi.test(subCounty):
-					subCountyNo = 1253;
-					break;
-				case /^n.*al$/gi.test(subCounty):
-					subCountyNo = 1254;
-					break;
-				case /^n.*rth$/gi.test(subCounty):
-					subCountyNo = 1255;
-					break;
-				case /^n.*uth$/gi.test(subCounty):
-					subCountyNo = 1256;
-					break;
-				case /^n.*est$/gi.test(subCounty):
-					subCountyNo = 1257;
-					break;
-				case /^g.*/gi.test(subCounty):
-					subCountyNo = 1332;
-					break;
-				default:
-					subCountyNo = 1251;
-			}
-			break;
-		//19 Nyeri
-		case /^nyer.*/gi.test(county):
-			countyNo = 119;
-			switch (true) {
-				case /^k.*ast$/gi.test(subCounty):
-					subCountyNo = 1258;
-					break;
-				case /^k.*est$/gi.test(subCounty):
-					subCountyNo = 1259;
-					break;
-				case /^m.*ast$/gi.test(subCounty):
-					subCountyNo = 1260;
-					break;
-				case /^m.*est$/gi.test(subCounty):
-					subCountyNo = 1261;
-					break;
-				case /^muk.*/gi.test(subCounty):
-					subCountyNo = 1262;
-					break;
-				case /^n.*l$/gi.test(subCounty):
-					subCountyNo = 1263;
-					break;
-				case /^n.*th$/gi.test(subCounty):
-					subCountyNo = 1264;
-					break;
-				case /^t.*/gi.test(subCounty):
-					subCountyNo = 1265;
-					break;
-				default:
-					subCountyNo = 1258;
-					break;
-			}
-			break;
-		//20 Kirinyaga
-		case /^kiri.*/gi.test(county):
-			countyNo = 120;
-			switch (true) {
-				case /^k.*l$/gi.test(subCounty):
-					subCountyNo = 1101;
-					break;
-				case /^k.*ast$/gi.test(subCounty):
-					subCountyNo = 1102;
-					break;
-				case /^k.*est$/gi.test(subCounty):
-					subCountyNo = 1103;
-					break;
-				case /^m.*ast$/gi.test(subCounty):
-					subCountyNo = 1104;
-					break;
-				case /^m.*est$/gi.test(subCounty):
-					subCountyNo = 1105;
-					break;
-				default:
-					subCountyNo = 1103;
-			}
-			break;
-		//21 Murang'a
-		case /^mura.*/gi.test(county):
-			countyNo = 121;
-			switch (true) {
-				case /^gat.*/gi.test(subCounty):
-					subCountyNo = 1204;
-					break;
-				case /^kah.*/gi.test(subCounty):
-					subCountyNo = 1205;
-					break;
-				case /^kand.*/gi.test(subCounty):
-					subCountyNo = 1206;
-					break;
-				case /^kang.*/gi.test(subCounty):
-					subCountyNo = 1207;
-					break;
-				case /^kig.*/gi.test(subCounty):
-					subCountyNo = 1208;
-					break;
-				case /^ma.*/gi.test(subCounty):
-					subCountyNo = 1209;
-					break;
-				case /^m.*ast$/gi.test(subCounty):
-					subCountyNo = 1210;
-					break;
-				case /^m.*uth$/gi.test(subCounty):
-					subCountyNo = 1211;
-					break;
-				default:
-					subCountyNo = 1204;
-					break;
-			}
-			break;
-		//22 Kiambu
-		case /^kiam.*/gi.test(county):
-			countyNo = 122;
-			switch (true) {
-				case /^g.*rth$/gi.test(subCounty):
-					subCountyNo = 1081;
-					break;
-				case /^g.*uth$/gi.test(subCounty):
-					subCountyNo = 1082;
-					break;
-				case /^gi.*/gi.test(subCounty):
-					subCountyNo = 1083;
-					break;
-				case /^ju.*/gi.test(subCounty):
-					subCountyNo = 1084;
-					break;
-				case /^kab.*/gi.test(subCounty):
-					subCountyNo = 1085;
-					break;
-				case /^k.*a$/gi.test(subCounty):
-					subCountyNo = 1086;
-					break;
-				case /^k.*u$/gi.test(subCounty):
-					subCountyNo = 1087;
-					break;
-				case /^kik.*/gi.test(subCounty):
-					subCountyNo = 1088;
-					break;
-				case /^la.*/gi.test(subCounty):
-					subCountyNo = 1089;
-					break;
-				case /^li.*/gi.test(subCounty):
-					subCountyNo = 1090;
-					break;
-				case /^ru.*/gi.test(subCounty):
-					subCountyNo = 1091;
-					break;
-				case /^t.*ast$/gi.test(subCounty):
-					subCountyNo = 1092;
-					break;
-				case /^t.*est$/gi.test(subCounty):
-					subCountyNo = 1093;
-					break;
-				default:
-					subCountyNo = 1084;
-					break;
-			}
-			break;
-		//23 Turkana
-		case /^tur.*/gi.test(county):
-			countyNo = 123;
-			switch (true) {
-				case /^k.*/gi.test(subCounty):
-					subCountyNo = 1291;
-					break;
-				case /^l.*/gi.test(subCounty):
-					subCountyNo = 1292;
-					break;
-				case /^t.*l$/gi.test(subCounty):
-					subCountyNo = 1293;
-					break;
-				case /^t.*ast$/gi.test(subCounty):
-					subCountyNo = 1294;
-					break;
-				case /^t.*rth$/gi.test(subCounty):
-					subCountyNo = 1295;
-					break;
-				case /^t.*uth$/gi.test(subCounty):
-					subCountyNo = 1296;
-					break;
-				case /^t.*est$/gi.test(subCounty):
-					subCountyNo = 1297;
-					break;
-				default:
-					subCountyNo = 1293;
-					break;
-			}
-			break;
-		//24 West Pokot
-		case /^west.*/gi.test(county):
-			countyNo = 124;
-			switch (true) {
-				case /^ki.*/gi.test(subCounty):
-					subCountyNo = 1317;
-					break;
-				case /^p.*al$/gi.test(subCounty):
-					subCountyNo = 1318;
-					break;
-				case /^p.*rth$/gi.test(subCounty):
-					subCountyNo = 1319;
-					break;
-				case /^p.*uth$/gi.test(subCounty):
-					subCountyNo = 1320;
-					break;
-				case /^w.*ot$/gi.test(subCounty):
-					subCountyNo = 1321;
-					break;
-				default:
-					subCountyNo = 1320;
-					break;
-			}
-			break;
-		//25 Samburu
-		case /^samb.*/gi.test(county):
-			countyNo = 125;
-			switch (true) {
-				case /^sa.*al$/gi.test(subCounty):
-					subCountyNo = 1266;
-					break;
-				case /^sa.*ast$/gi.test(subCounty):
-					subCountyNo = 1267;
-					break;
-				case /^sa.*rth$/gi.test(subCounty):
-					subCountyNo = 1268;
-					break;
-				default:
-					subCountyNo = 1266;
-					break;
-			}
-			break;
-		//26 Trans Nzoia
-		case /^trans.*/gi.test(county):
-			countyNo = 126;
-			switch (true) {
-				case /^e.*/gi.test(subCounty):
-					subCountyNo = 1286;
-					break;
-				case /^ki.*/gi.test(subCounty):
-					subCountyNo = 1287;
-					break;
-				case /^kw.*/gi.test(subCounty):
-					subCountyNo = 1288;
-					break;
-				case /^t.*ast$/gi.test(subCounty):
-					subCountyNo = 1289;
-					break;
-				case /^s.*/gi.test(subCounty):
-					subCountyNo = 1290;
-					break;
-				case /^t.*est$/gi.test(subCounty):
-					subCountyNo = 1290;
-					break;
-				default:
-					subCountyNo = 1289;
-			}
-			break;
-		//27 Uasin Gichu
-		case /^uas.*/gi.test(county):
-			countyNo = 127;
-			switch (true) {
-				case /^e.*ast$/gi.test(subCounty):
-					subCountyNo = 1298;
-					break;
-				case /^a.*/gi.test(subCounty):
-					subCountyNo = 1298;
-					break;
-				case /^e.*est$/gi.test(subCounty):
-					subCountyNo = 1299;
-					break;
-				case /^k.*/gi.test(subCounty):
-					subCountyNo = 1300;
-					break;
-				case /^mo.*/gi.test(subCounty):
-					subCountyNo = 1301;
-					break;
-				case /^s.*/gi.test(subCounty):
-					subCountyNo = 1302;
-					break;
-				case /^wa.*/gi.test(subCounty):
-					subCountyNo = 1303;
-					break;
-				case /^ka.*/gi.test(subCounty):
-					subCountyNo = 1303;
-					break;
-				default:
-					subCountyNo = 1299;
-					break;
-			}
-			break;
-		//28 Elgeyo / Marakwet
-		case /^elg.*|^marak.*/gi.test(county):
-			countyNo = 128;
-			switch (true) {
-				case /^k.*rth$/gi.test(subCounty):
-					subCountyNo = 1029;
-					break;
-				case /^k.*uth$/gi.test(subCounty):
-					subCountyNo = 1030;
-					break;
-				case /^m.*ast$/gi.test(subCounty):
-					subCountyNo = 1031;
-					break;
-				case /^m.*est$/gi.test(subCounty):
-					subCountyNo = 1032;
-					break;
-				default:
-					subCountyNo = 1031;
-					break;
-			}
-			break;
-		//29 Nandi
-		case /^nand.*/gi.test(county):
-			countyNo = 129;
-			switch (true) {
-				case /^c.*/gi.test(subCounty):
-					subCountyNo = 1234;
-					break;
-				case /^n.*al$/gi.test(subCounty):
-					subCountyNo = 1235;
-					break;
-				case /^n.*ast$/gi.test(subCounty):
-					subCountyNo = 1236;
-					break;
-				case /^n.*rth$/gi.test(subCounty):
-					subCountyNo = 1237;
-					break;
-				case /^n.*uth$/gi.test(subCounty):
-					subCountyNo = 1238;
-					break;
-				case /^t.*/gi.test(subCounty):
-					subCountyNo = 1239;
-					break;
-				default:
-					subCountyNo = 1235;
-					break;
-			}
-			break;
-		//30 Baringo
-		case /^bar.*/gi.test(county):
-			countyNo = 130;
-			switch (true) {
-				case /^b.*l$/gi.test(subCounty):
-					subCountyNo = 1001;
-					break;
-				case /^b.*h$/gi.test(subCounty):
-					subCountyNo = 1002;
-					break;
-				case /^t.*est$/gi.test(subCounty):
-					subCountyNo = 1003;
-					break;
-				case /^e.*t$/gi.test(subCounty):
-					subCountyNo = 1003;
-					break;
-				case /^k.*/gi.test(subCounty):
-					subCountyNo = 1004;
-					break;
-				case /^ma.*/gi.test(subCounty):
-					subCountyNo = 1005;
-					break;
-				case /^mo.*/gi.test(subCounty):
-					subCountyNo = 1006;
-					break;
-				case /^t.*ast$/gi.test(subCounty):
-					subCountyNo = 1331;
-					break;
-				default:
-					subCountyNo = 1001;
-					break;
-			}
-			break;
-		//31 Laikipia
-		case /^laik.*/gi.test(county):
-			countyNo = 131;
-			switch (true) {
-				case /^l.*l$/gi.test(subCounty):
-					subCountyNo = 1143;
-					break;
-				case /^l.*ast$/gi.test(subCounty):
-					subCountyNo = 1144;
-					break;
-				case /^l.*rth$/gi.test(subCounty):
-					subCountyNo = 1145;
-					break;
-				case /^l.*est$/gi.test(subCounty):
-					subCountyNo = 1146;
-					break;
-				case /^n.*/gi.test(subCounty):
-					subCountyNo = 1147;
-					break;
-				default:
-					subCountyNo = 1143;
-					break;
-			}
-			break;
-		//32 Nakuru
-		case /^nak.*/gi.test(county):
-			countyNo = 132;
-			switch (true) {
-				case /^g.*/gi.test(subCounty):
-					subCountyNo = 1223;
-					break;
-				case /^k.*/gi.test(subCounty):
-					subCountyNo = 1224;
-					break;
-				case /^molo.*/gi.test(subCounty):
-					subCountyNo = 1226;
-					break;
-				case /^n.*a$/gi.test(subCounty):
-					subCountyNo = 1227;
-					break;
-				case /^n.*u$/gi.test(subCounty):
-					subCountyNo = 1228;
-					break;
-				case /^n.*rth$/gi.test(subCounty):
-					subCountyNo = 1229;
-					break;
-				case /^n.*est$/gi.test(subCounty):
-					subCountyNo = 1230;
-					break;
-				case /^nj.*/gi.test(subCounty):
-					subCountyNo = 1231;
-					break;
-				case /^r.*/gi.test(subCounty):
-					subCountyNo = 1232;
-					break;
-				case /^s.*/gi.test(subCounty):
-					subCountyNo = 1233;
-					break;
-				default:
-					subCountyNo = 1228;
-					break;
-			}
-			break;
-		//33 Narok
-		case /^nar.*/gi.test(county):
-			countyNo = 133;
-			switch (true) {
-				case /^n.*ast$/gi.test(subCounty):
-					subCountyNo = 1240;
-					break;
-				case /^n.*rth$/gi.test(subCounty):
-					subCountyNo = 1241;
-					break;
-				case /^n*uth$/gi.test(subCounty):
-					subCountyNo = 1242;
-					break;
-				case /^n.*est$/gi.test(subCounty):
-					subCountyNo = 1243;
-					break;
-				case /^t.*ast$/gi.test(subCounty):
-					subCountyNo = 1244;
-					break;
-				case /^t.*est$/gi.test(subCounty):
-					subCountyNo = 1245;
-					break;
-				default:
-					subCountyNo = 1241;
-					break;
-			}
-			break;
-		//34 Kajiado
-		case /^kaji.*/gi.test(county):
-			countyNo = 134;
-			switch (true) {
-				case /^is/gi.test(subCounty):
-					subCountyNo = 1056;
-					break;
-				case /^k.*al$.*/gi.test(subCounty):
-					subCountyNo = 1057;
-					break;
-				case /^k.*rth$.*/gi.test(subCounty):
-					subCountyNo = 1058;
-					break;
-				case /^k.*est$.*/gi.test(subCounty):
-					subCountyNo = 1059;
-					break;
-				case /^l.*/gi.test(subCounty):
-					subCountyNo = 1060;
-					break;
-				case /^m.*/gi.test(subCounty):
-					subCountyNo = 1061;
-					break;
-				default:
-					subCountyNo = 1057;
-					break;
-			}
-			break;
-		//35 Kericho
-		case /^ker.*/gi.test(county):
-			countyNo = 135;
-			switch (true) {
-				case /^be.*/gi.test(subCounty):
-					subCountyNo = 1075;
-					break;
-				case /^bu.*/gi.test(subCounty):
-					subCountyNo = 1076;
-					break;
-				case /^ke.*/gi.test(subCounty):
-					subCountyNo = 1077;
-					break;
-				case /^ki.*/gi.test(subCounty):
-					subCountyNo = 1078;
-					break;
-				case /^lo.*/gi.test(subCounty):
-					subCountyNo = 1079;
-					break;
-				case /^s.*/gi.test(subCounty):
-					subCountyNo = 1080;
-					break;
-				default:
-					subCountyNo = 1077;
-					break;
-			}
-			break;
-		//36 Bomet
-		case /^bome.*/gi.test(county):
-			countyNo = 136;
-			switch (true) {
-				case /^b.*l$/gi.test(subCounty):
-					subCountyNo = 1007;
-					break;
-				case /^b.*t$/gi.test(subCounty):
-					subCountyNo = 1008;
-					break;
-				case /^c.*/gi.test(subCounty):
-					subCountyNo = 1009;
-					break;
-				case /^k.*/gi.test(subCounty):
-					subCountyNo = 1010;
-					break;
-				case /^s.*/gi.test(subCounty):
-					subCountyNo = 1011;
-					break;
-				default:
-					subCountyNo = 1007;
-					break;
-			}
-			break;
-		//37 Kakamega
-		case /^kaka.*/gi.test(county):
-			countyNo = 137;
-			switch (true) {
-				case /^b.*/gi.test(subCounty):
-					subCountyNo = 1062;
-					break;
-				case /^k.*l$/gi.test(subCounty):
-					subCountyNo = 1063;
-					break;
-				case /^k.*ast$/gi.test(subCounty):
-					subCountyNo = 1064;
-					break;
-				case /^k.*rth$/gi.test(subCounty):
-					subCountyNo = 1065;
-					break;
-				case /^k.*uth$/gi.test(subCounty):
-					subCountyNo = 1066;
-					break;
-				case /^kh.*/gi.test(subCounty):
-					subCountyNo = 1067;
-					break;
-				case /^li.*/gi.test(subCounty):
-					subCountyNo = 1068;
-					break;
-				case /^lu.*/gi.test(subCounty):
-					subCountyNo = 1069;
-					break;
-				case /^mat.*/gi.test(subCounty):
-					subCountyNo = 1070;
-					break;
-				case /^matu.*/gi.test(subCounty):
-					subCountyNo = 1071;
-					break;
-				case /^mu.*s$/gi.test(subCounty):
-					subCountyNo = 1072;
-					break;
-				case /^mu.*t$/gi.test(subCounty):
-					subCountyNo = 1073;
-					break;
-				case /^n.*/gi.test(subCounty):
-					subCountyNo = 1074;
-					break;
-				default:
-					subCountyNo = 1072;
-					break;
-			}
-			break;
-		//38 Vihiga
-		case /^vih.*/gi.test(county):
-			countyNo = 138;
-			switch (true) {
-				case /^e.*/gi.test(subCounty):
-					subCountyNo = 1304;
-					break;
-				case /^h.*/gi.test(subCounty):
-					subCountyNo = 1305;
-					break;
-				case /^l.*/gi.test(subCounty):
-					subCountyNo = 1306;
-					break;
-				case /^s.*/gi.test(subCounty):
-					subCountyNo = 1307;
-					break;
-				case /^v.*/gi.test(subCounty):
-					subCountyNo = 1308;
-					break;
-				default:
-					subCountyNo = 1308;
-					break;
-			}
-			break;
-		//39 Bungoma
-		case /^bung.*/gi.test(county):
-			countyNo = 139;
-			switch (true) {
-				case /^b.*a$/gi.test(subCounty):
-					subCountyNo = 1012;
-					break;
-				case /^b.*al$/gi.test(subCounty):
-					subCountyNo = 1013;
-					break;
-				case /^b.*ast$/gi.test(subCounty):
-					subCountyNo = 1014;
-					break;
-				case /^b.*rth$/gi.test(subCounty):
-					subCountyNo = 1015;
-					break;
-				case /^b.*uth$/gi.test(subCounty):
-					subCountyNo = 1016;
-					break;
-				case /^b.*est$/gi.test(subCounty):
-					subCountyNo = 1017;
-					break;
-				case /^ch.*/gi.test(subCounty):
-					subCountyNo = 1018;
-					break;
-				case /^ki.*/gi.test(subCounty):
-					subCountyNo = 1019;
-					break;
-				case /^m.*n$/gi.test(subCounty):
-					subCountyNo = 1020;
-					break;
-				case /^w.*/gi.test(subCounty):
-					subCountyNo = 1021;
-					break;
-				case /^k.*/gi.test(subCounty):
-					subCountyNo = 1326;
-					break;
-				default:
-					subCountyNo = 1013;
-					break;
-			}
-			break;
-		//40 Busia
-		case /^bus.*/gi.test(county):
-			countyNo = 140;
-			switch (true) {
-				case /^bun.*/gi.test(subCounty):
-					subCountyNo = 1022;
-					break;
-				case /^bus.*/gi.test(subCounty):
-					subCountyNo = 1023;
-					break;
-				case /^but.*/gi.test(subCounty):
-					subCountyNo = 1024;
-					break;
-				case /^na.*/gi.test(subCounty):
-					subCountyNo = 1025;
-					break;
-				case /^sa.*/gi.test(subCounty):
-					subCountyNo = 1026;
-					break;
-				case /^t.*rth$/gi.test(subCounty):
-					subCountyNo = 1027;
-					break;
-				case /^t.*uth$/gi.test(subCounty):
-					subCountyNo = 1028;
-					break;
-				default:
-					subCountyNo = 1023;
-					break;
-			}
-			break;
-		//41 Siaya
-		case /^sia.*/gi.test(county):
-			countyNo = 141;
-			switch (true) {
-				case /^bo.*/gi.test(subCounty):
-					subCountyNo = 1269;
-					break;
-				case /^ge.*/gi.test(subCounty):
-					subCountyNo = 1270;
-					break;
-				case /^ra.*/gi.test(subCounty):
-					subCountyNo = 1271;
-					break;
-				case /^si.*/gi.test(subCounty):
-					subCountyNo = 1272;
-					break;
-				case /^uge.*/gi.test(subCounty):
-					subCountyNo = 1273;
-					break;
-				case /^ugu.*/gi.test(subCounty):
-					subCountyNo = 1274;
-					break;
-				default:
-					subCountyNo = 1272;
-					break;
-			}
-			break;
-		//42 Kisumu
-		case /^kisu.*/gi.test(county):
-			countyNo = 142;
-			switch (true) {
-				case /^k.*al$/gi.test(subCounty):
-					subCountyNo = 1116;
-					break;
-				case /^k.*ast$/gi.test(subCounty):
-					subCountyNo = 1117;
-					break;
-				case /^k.*est$/gi.test(subCounty):
-					subCountyNo = 1118;
-					break;
-				case /^m.*/gi.test(subCounty):
-					subCountyNo = 1119;
-					break;
-				case /^n.*h$/gi.test(subCounty):
-					subCountyNo = 1120;
-					break;
-				case /^nyando.*/gi.test(subCounty):
-					subCountyNo = 1121;
-					break;
-				case /^s.*/gi.test(subCounty):
-					subCountyNo = 1122;
-					break;
-				default:
-					subCountyNo = 1116;
-					break;
-			}
-			break;
-		//43 Homa Bay
-		case /^hom.*/gi.test(county):
-			countyNo = 143;
-			switch (true) {
-				case /^h.*ay$/gi.test(subCounty):
-					subCountyNo = 1045;
-					break;
-				case /^mb.*/gi.test(subCounty):
-					subCountyNo = 1046;
-					break;
-				case /^nd.*/gi.test(subCounty):
-					subCountyNo = 1047;
-					break;
-				case /^la.*ast$/gi.test(subCounty):
-					subCountyNo = 1048;
-					break;
-				case /^la.*rth$/gi.test(subCounty):
-					subCountyNo = 1049;
-					break;
-				case /^la.*uth$/gi.test(subCounty):
-					subCountyNo = 1050;
-					break;
-				case /^ra.*/gi.test(subCounty):
-					subCountyNo = 1051;
-					break;
-				case /^s.*/gi.test(subCounty):
-					subCountyNo = 1052;
-					break;
-				default:
-					subCountyNo = 1045;
-					break;
-			}
-			break;
-		//44 Migori
-		case /^migo.*/gi.test(county):
-			countyNo = 144;
-			switch (true) {
-				case /^aw.*/gi.test(subCounty):
-					subCountyNo = 1190;
-					break;
-				case /^k.*ast$/gi.test(subCounty):
-					subCountyNo = 1191;
-					break;
-				case /^k.*est$/gi.test(subCounty):
-					subCountyNo = 1192;
-					break;
-				case /^mig.*/gi.test(subCounty):
-					subCountyNo = 1193;
-					break;
-				case /^ny.*/gi.test(subCounty):
-					subCountyNo = 1194;
-					break;
-				case /^ro.*/gi.test(subCounty):
-					subCountyNo = 1195;
-					break;
-				case /^s.*st$/gi.test(subCounty):
-					subCountyNo = 1196;
-					break;
-				case /^ur.*/gi.test(subCounty):
-					subCountyNo = 1197;
-					break;
-				case /^ma.*/gi.test(subCounty):
-					subCountyNo = 1329;
-					break;
-				default:
-					subCountyNo = 1195;
-					break;
-			}
-			break;
-		//45 Kisii
-		case /^kisi.*/gi.test(county):
-			countyNo = 145;
-			switch (true) {
-				case /^gu.*/gi.test(subCounty):
-					subCountyNo = 1106;
-					break;
-				case /^g.*th$/gi.test(subCounty):
-					subCountyNo = 1107;
-					break;
-				case /^ke.*/gi.test(subCounty):
-					subCountyNo = 1108;
-					break;
-				case /^k.*al$/gi.test(subCounty):
-					subCountyNo = 1109;
-					break;
-				case /^k.*th$/gi.test(subCounty):
-					subCountyNo = 1110;
-					break;
-				case /^mar.*/gi.test(subCounty):
-					subCountyNo = 1112;
-					break;
-				case /^mas.*/gi.test(subCounty):
-					subCountyNo = 1113;
-					break;
-				case /^ny.*/gi.test(subCounty):
-					subCountyNo = 1114;
-					break;
-				case /^sa.*/gi.test(subCounty):
-					subCountyNo = 1115;
-					break;
-				case /^et.*/gi.test(subCounty):
-					subCountyNo = 1327;
-					break;
-				default:
-					subCountyNo = 1110;
-					break;
-			}
-			break;
-		//46 Nyamira
-		case /^nyam.*/gi.test(county):
-			countyNo = 146;
-			switch (true) {
-				case /^bo.*/gi.test(subCounty):
-					subCountyNo = 1246;
-					break;
-				case /^man.*/gi.test(subCounty):
-					subCountyNo = 1247;
-					break;
-				case /^ma.*th$/gi.test(subCounty):
-					subCountyNo = 1248;
-					break;
+	let countyCode = COUNTY_CODES.find(x => x.pattern.test(<string>county));
+	//if not matched return undefined to be handled by the calling function
+	if (!countyCode) return undefined;
 
-				case /^n.*rth$/gi.test(subCounty):
-					subCountyNo = 1249;
-					break;
-				case /^n.*uth$/gi.test(subCounty):
-					subCountyNo = 1250;
-					break;
-				default:
-					subCountyNo = 1247;
-					break;
-			}
-			break;
-		//47 Nairobi
-		case /^nai.*/gi.test(county):
-			countyNo = 147;
-			switch (true) {
-				case /^dag.*/gi.test(subCounty):
-					subCountyNo = 1212;
-					break;
-				case /^emb.*/gi.test(subCounty):
-					subCountyNo = 1213;
-					break;
-				case /^kam.*/gi.test(subCounty):
-					subCountyNo = 1214;
-					break;
-				case /^kasa.*/gi.test(subCounty):
-					subCountyNo = 1215;
-					break;
-				case /^kib.*/gi.test(subCounty):
-					subCountyNo = 1216;
-					break;
-				case /^lang.*/gi.test(subCounty):
-					subCountyNo = 1217;
-					break;
-				case /^mak.*/gi.test(subCounty):
-					subCountyNo = 1218;
-					break;
-				case /^mat.*/gi.test(subCounty):
-					subCountyNo = 1219;
-					break;
-				case /^nj.*/gi.test(subCounty):
-					subCountyNo = 1220;
-					break;
-				case /^st.*/gi.test(subCounty):
-					subCountyNo = 1221;
-					break;
-				case /^wes.*/gi.test(subCounty):
-					subCountyNo = 1222;
-					break;
-				default:
-					subCountyNo = 1221;
-					break;
-			}
-			break;
-		//if not matched return undefined to be handled by the calling function
-		default:
-			return undefined;
-	}
+	// Names, as listed in the Excel template, are matched before patterns
+	let subCountyCode =
+		countyCode.subCounties.find(x => x.name?.toLowerCase() === subCounty?.toLowerCase()) ??
+		countyCode.subCounties.find(x => x.pattern?.test(<string>subCounty));
 	return {
-		countyNo: countyNo,
-		subCountyNo: subCountyNo
+		countyNo: countyCode.no,
+		subCountyNo: subCountyCode?.no ?? countyCode.defaultSubCountyNo
 	};
 };
+
+// County and sub-county names understood by countyToNo, in the order of their NEMIS county codes
+export const COUNTIES: { [county: string]: string[] } = Object.fromEntries(
+	COUNTY_CODES.map(x => [x.name, x.subCounties.flatMap(y => y.name ?? []).sort()])
+);
+
 //converts nationalities to their respective codes and vice-vasa as per nemis
 export const nationalities = (nationality: number | string): number | string => {
 	if (typeof nationality === 'string') {
@@ -5,15 +5,59 @@
 require('dotenv').config();
 import { decrypt, encrypt } from 'crypto-js/aes';
 import { enc, format } from 'crypto-js/core';
+import { createHash, randomBytes, scryptSync, timingSafeEqual } from 'node:crypto';
 import CustomError from './error_handler';
 
+/**
+ * Encryption keys by version. ENCRYPTION_KEY is the current key used to encrypt, its version is set by
+ * ENCRYPTION_KEY_VERSION, 1 by default. Keys that were rotated out are kept in PREVIOUS_ENCRYPTION_KEYS
+ * as comma separated version:key pairs eg. 1:oldKey,2:olderKey, until every string encrypted using them
+ * is re-encrypted.
+ */
+const encryptionKeys = () => {
+	let currentKey = process.env.ENCRYPTION_KEY;
+	if (!currentKey) {
+		throw new CustomError('Encryption key not found', 500);
+	}
+	let currentVersion = Number(process.env.ENCRYPTION_KEY_VERSION || 1);
+	if (!Number.isInteger(currentVersion) || currentVersion < 1) {
+		throw new CustomError('ENCRYPTION_KEY_VERSION must be a positive whole number', 500);
+	}
+
+	let keys = new Map<number, string>();
+	for (const pair of (process.env.PREVIOUS_ENCRYPTION_KEYS ?? '').split(',')) {
+		if (!pair.trim()) continue;
+		let separator = pair.indexOf(':');
+		let version = Number(pair.slice(0, separator));
+		if (separator < 1 || !Number.isInteger(version) || !pair.slice(separator + 1)) {
+			throw new CustomError(
+				'PREVIOUS_ENCRYPTION_KEYS must be comma separated version:key pairs',
+				500
+			);
+		}
+		keys.set(version, pair.slice(separator + 1));
+	}
+	keys.set(currentVersion, currentKey);
+
+	return { currentVersion: currentVersion, keys: keys };
+};
+
+// Ciphertexts are prefixed with the version of the key used eg. v2:U2FsdGVk..., strings encrypted
+// before keys were versioned have no prefix and were encrypted using version 1
+const parseCiphertext = (encryptedString: string) => {
+	let versioned = /^v(\d+):(.*)$/s.exec(encryptedString);
+	return versioned
+		? { version: Number(versioned[1]), ciphertext: versioned[2] }
+		: { version: 1, ciphertext: encryptedString };
+};
+
 const encryptString = (plainString: string): string => {
 	try {
-		let encryptionKey = process.env.ENCRYPTION_KEY;
-		if (!encryptionKey) {
-			throw new CustomError('Encryption key not found', 500);
-		}
-		return encrypt(plainString, encryptionKey).toString(format.Hex);
+		let { currentVersion, keys } = encryptionKeys();
+		return (
+			`v${currentVersion}:` +
+			encrypt(plainString, keys.get(currentVersion)!).toString(format.Hex)
+		);
 	} catch (err) {
 		throw err;
 	}
@@ -21,14 +65,46 @@ const encryptString = (plainString: string): string => {
 
 const decryptString = (encryptedString: string): string => {
 	try {
-		let encryptionKey = process.env.ENCRYPTION_KEY;
+		let { version, ciphertext } = parseCiphertext(encryptedString);
+		let encryptionKey = encryptionKeys().keys.get(version);
 		if (!encryptionKey) {
-			throw new CustomError('Encryption key not found', 500);
+			throw new CustomError(
+				`Encryption key version ${version} not found. Add it to PREVIOUS_ENCRYPTION_KEYS.`,
+				500
+			);
 		}
-		return decrypt(encryptedString, encryptionKey).toString(enc.Utf8);
+		return decrypt(ciphertext, encryptionKey).toString(enc.Utf8);
 	} catch (err) {
 		throw err;
 	}
 };
 
-export { encryptString, decryptString };
+// Whether a string was encrypted using a key other than the current key
+const isEncryptedWithOldKey = (encryptedString: string): boolean =>
+	parseCiphertext(encryptedString).version !== encryptionKeys().currentVersion;
+
+// Passwords are hashed, not encrypted, since they only need to be verified
+const hashPassword = (password: string): string => {
+	let salt = randomBytes(16).toString('hex');
+	return salt + ':' + scryptSync(password, salt, 64).toString('hex');
+};
+
+const verifyPassword = (password: string, passwordHash: string): boolean => {
+	let [salt, hash] = passwordHash.split(':');
+	if (!salt || !hash) return false;
+	let expected = Buffer.from(hash, 'hex');
+	let actual = scryptSync(password, salt, expected.length);
+	return actual.length === expected.length && timingSafeEqual(actual, expected);
+};
+
+// API keys are long random strings, a fast unsalted hash is enough to look them up by
+const hashApiKey = (apiKey: string): string => createHash('sha256').update(apiKey).digest('hex');
+
+export {
+	encryptString,
+	decryptString,
+	isEncryptedWithOldKey,
+	hashPassword,
+	verifyPassword,
+	hashApiKey
+};
@@ -0,0 +1,261 @@
+/*
+ * Copyright (c) 2023. MIT License. Maina Derrick.
+ */
+
+import mongoose from 'mongoose';
+import learnerModel from '@database/learner';
+import continuingLearnerModel from '@database/continuing_learner';
+import nemisApiResultsModel from '@database/nemis_api_results';
+import CustomError from '@libs/error_handler';
+import logger from '@libs/logger';
+import { editDistance, isNameMatch, matchNames } from '@libs/name_match';
+
+type DatabaseLearner = InstanceType<typeof learnerModel>;
+type LearnerFields = Partial<mongoose.InferSchemaType<typeof learnerModel.schema>>;
+
+export type DuplicateReason =
+    | 'similarBirthCertificateNo'
+    | 'similarName'
+    | 'sameDob'
+    | 'sameParentTel'
+    | 'sameParentId';
+
+// Least confidence for two learners to be reported as probable duplicates
+const DUPLICATE_THRESHOLD = 0.7;
+
+const parentContacts = (learner: DatabaseLearner, field: 'tel' | 'id') =>
+    [learner.father?.[field], learner.mother?.[field], learner.guardian?.[field]]
+        .map(x => x?.trim())
+        .filter((x): x is string => !!x);
+
+/**
+ * Score how likely two learners are the same learner entered twice. Learners of different genders,
+ * or captured on NEMIS with different UPIs, are never duplicates.
+ * @returns confidence between 0 and 1 and the reasons for it
+ */
+const compareLearners = (a: DatabaseLearner, b: DatabaseLearner) => {
+    let reasons: DuplicateReason[] = [];
+    if (a.gender !== b.gender) return { confidence: 0, nameScore: 0, reasons: reasons };
+    if (a.upi && b.upi && a.upi.toLowerCase() !== b.upi.toLowerCase()) {
+        return { confidence: 0, nameScore: 0, reasons: reasons };
+    }
+
+    let confidence = 0;
+    let nameScore = matchNames(a.name, b.name).score;
+    if (isNameMatch(a.name, b.name)) {
+        reasons.push('similarName');
+        confidence += 0.5 * nameScore;
+    }
+
+    // Birth certificate numbers are unique, two learners can only have one mistyped digit apart
+    let birthCertificateA = a.birthCertificateNo?.trim().toLowerCase();
+    let birthCertificateB = b.birthCertificateNo?.trim().toLowerCase();
+    if (
+        birthCertificateA &&
+        birthCertificateB &&
+        editDistance(birthCertificateA, birthCertificateB) === 1
+    ) {
+        reasons.push('similarBirthCertificateNo');
+        confidence += 0.25;
+    }
+
+    if (a.dob && b.dob && a.dob.getTime() === b.dob.getTime()) {
+        reasons.push('sameDob');
+        confidence += 0.2;
+    }
+
+    let telsB = parentContacts(b, 'tel');
+    if (parentContacts(a, 'tel').some(x => telsB.includes(x))) {
+        reasons.push('sameParentTel');
+        confidence += 0.15;
+    }
+    let idsB = parentContacts(b, 'id');
+    if (parentContacts(a, 'id').some(x => idsB.includes(x))) {
+        reasons.push('sameParentId');
+        confidence += 0.15;
+    }
+
+    // Siblings share parents and at times a date of birth, their names have to match as well
+    if (!reasons.includes('similarName')) {
+        return { confidence: 0, nameScore: nameScore, reasons: reasons };
+    }
+    return {
+        confidence: Math.min(1, Math.round(confidence * 100) / 100),
+        nameScore: nameScore,
+        reasons: reasons
+    };
+};
+
+/**
+ * Find probable duplicates among learners and group them. Only learners sharing a name, a birth
+ * certificate number prefix, a date of birth or a parent's contact are compared.
+ */
+const findDuplicates = (learners: DatabaseLearner[]) => {
+    // Learners sharing a key are compared with each other
+    let blocks = new Map<string, number[]>();
+    let addToBlock = (key: string, i: number) => {
+        let block = blocks.get(key) ?? [];
+        block.push(i);
+        blocks.set(key, block);
+    };
+    learners.forEach((learner, i) => {
+        learner.name
+            ?.toLowerCase()
+            .split(/[^a-z']+/)
+            .filter(x => x.length > 2)
+            .forEach(x => addToBlock('name:' + x.slice(0, 3), i));
+        let birthCertificateNo = learner.birthCertificateNo?.trim().toLowerCase();
+        if (birthCertificateNo) addToBlock('bc:' + birthCertificateNo.slice(0, 4), i);
+        if (learner.dob) addToBlock('dob:' + learner.dob.getTime(), i);
+        [...parentContacts(learner, 'tel'), ...parentContacts(learner, 'id')].forEach(x =>
+            addToBlock('parent:' + x, i)
+        );
+    });
+
+    let compared = new Set<string>();
+    let pairs = [];
+    for (const block of blocks.values()) {
+        for (let x = 0; x < block.length; x++) {
+            for (let y = x + 1; y < block.length; y++) {
+                let key = block[x] + ':' + block[y];
+                if (compared.has(key)) continue;
+                compared.add(key);
+
+                let comparison = compareLearners(learners[block[x]], learners[block[y]]);
+                if (comparison.confidence >= DUPLICATE_THRESHOLD) {
+                    pairs.push({ a: block[x], b: block[y], ...comparison });
+                }
+            }
+        }
+    }
+
+    // Group learners linked by a probable duplicate pair
+    let groupOf = learners.map((_, i) => i);
+    let root = (i: number): number => (groupOf[i] === i ? i : (groupOf[i] = root(groupOf[i])));
+    pairs.forEach(pair => (groupOf[root(pair.a)] = root(pair.b)));
+
+    let groups = new Map<number, { learners: Set<number>; pairs: typeof pairs }>();
+    pairs.forEach(pair => {
+        let group = groups.get(root(pair.a)) ?? { learners: new Set<number>(), pairs: [] };
+        group.learners.add(pair.a).add(pair.b);
+        group.pairs.push(pair);
+        groups.set(root(pair.a), group);
+    });
+
+    let summary = (learner: DatabaseLearner) => ({
+        _id: learner._id,
+        adm: learner.adm,
+        name: learner.name,
+        gender: learner.gender,
+        dob: learner.dob,
+        grade: learner.grade,
+        upi: learner.upi,
+        birthCertificateNo: learner.birthCertificateNo
+    });
+
+    return [...groups.values()]
+        .map(group => ({
+            learners: [...group.learners].map(i => summary(learners[i])),
+            pairs: group.pairs.map(pair => ({
+                adm: [learners[pair.a].adm, learners[pair.b].adm],
+                confidence: pair.confidence,
+                nameScore: pair.nameScore,
+                reasons: pair.reasons
+            })),
+            confidence: Math.max(...group.pairs.map(x => x.confidence))
+        }))
+        .sort((a, b) => b.confidence - a.confidence);
+};
+
+// Fields copied from the duplicate when the learner kept doesn't have them
+const MERGED_FIELDS = [
+    'upi',
+    'birthCertificateNo',
+    'indexNo',
+    'marks',
+    'dob',
+    'stream',
+    'nhifNo',
+    'nemisId',
+    'nemisApiResultsId',
+    'continuingId',
+    'county',
+    'subCounty',
+    'countyNo',
+    'subCountyNo',
+    'address',
+    'kcpeYear'
+] as const;
+
+// Fields with a unique index, only one of the two learners can hold their values
+const UNIQUE_FIELDS = ['upi', 'birthCertificateNo'] as const;
+
+const isEmpty = (value: unknown) => value === undefined || value === null || value === '';
+
+/**
+ * Merge a duplicate into the learner kept. Details missing from the learner kept, including links to
+ * NEMIS data, are taken from the duplicate which is then archived.
+ * @returns The merged learner and the archived duplicate
+ */
+const mergeLearners = async (keep: DatabaseLearner, duplicate: DatabaseLearner) => {
+    if (keep._id.equals(duplicate._id)) {
+        throw new CustomError('A learner can not be merged with itself.', 400);
+    }
+    for (const field of ['upi', 'nemisId', 'nemisApiResultsId'] as const) {
+        let kept = keep.get(field)?.toString().toLowerCase();
+        let duplicated = duplicate.get(field)?.toString().toLowerCase();
+        if (kept && duplicated && kept !== duplicated) {
+            throw new CustomError(
+                `Learners are linked to different NEMIS records by ${field}, ${kept} and ${duplicated}. They are not duplicates.`,
+                400
+            );
+        }
+    }
+
+    let merged: LearnerFields = {};
+    for (const field of MERGED_FIELDS) {
+        let value = duplicate.get(field);
+        if (isEmpty(keep.get(field)) && !isEmpty(value)) Object.assign(merged, { [field]: value });
+    }
+    for (const parent of ['father', 'mother', 'guardian'] as const) {
+        if (!keep.get(parent)?.name && duplicate.get(parent)?.name) {
+            merged[parent] = duplicate.get(parent);
+        }
+    }
+    Object.assign(merged, {
+        admitted: keep.admitted || duplicate.admitted,
+        reported: keep.reported || duplicate.reported
+    });
+
+    // Unique values moving to the learner kept are released from the duplicate before it takes them
+    let released = UNIQUE_FIELDS.filter(x => merged[x] !== undefined);
+    let previous: LearnerFields = {
+        archived: duplicate.archived,
+        mergedInto: duplicate.mergedInto,
+        ...Object.fromEntries(released.map(x => [x, duplicate.get(x)]))
+    };
+    duplicate.set({ archived: true, mergedInto: keep._id });
+    released.forEach(x => duplicate.set(x, undefined));
+    await duplicate.save();
+
+    // Transactions need a replica set, the duplicate is restored instead if the learner kept can't be saved
+    try {
+        keep.set(merged);
+        await keep.save();
+    } catch (err) {
+        try {
+            duplicate.set(previous);
+            await duplicate.save();
+        } catch (restoreError) {
+            logger.error(restoreError);
+        }
+        throw err;
+    }
+
+    await continuingLearnerModel.updateMany({ learnerId: duplicate._id }, { learnerId: keep._id });
+    await nemisApiResultsModel.updateMany({ learnerId: duplicate._id }, { learnerId: keep._id });
+
+    return { learner: keep, archived: duplicate };
+};
+
+export { DUPLICATE_THRESHOLD, compareLearners, findDuplicates, mergeLearners };
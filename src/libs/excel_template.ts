@@ -0,0 +1,174 @@
+/*
+ * Copyright (c) 2023. MIT License. Maina Derrick.
+ */
+
+import { utils, write } from 'xlsx';
+import { ZodTypeAny } from 'zod';
+import { COUNTIES } from './converts';
+import { patchXlsx } from './export_excel';
+import {
+    completeLearnerSchema,
+    GENDER,
+    GRADES,
+    MEDICAL_CONDITIONS,
+    NATIONALITY
+} from './zod_validation';
+
+// Rows the dropdowns are applied to, excluding the header row
+const TEMPLATE_ROWS = 2000;
+// Name of the hidden sheet holding dropdown values. validateExcel skips hidden sheets
+const LISTS_SHEET = 'lists';
+
+// Parent contacts are nested in completeLearnerSchema but the importer reads them as flat columns
+const PARENT_COLUMNS = { name: 'Name', tel: 'Tel', id: 'Id' } as const;
+
+const COLUMN_HINTS: { [K: string]: string } = {
+    adm: 'Admission number, unique for each learner in the institution.',
+    name: 'Full name of the learner, at least two names.',
+    dob: 'Date of birth in the format YYYY-MM-DD.',
+    grade: 'Grade the learner is in, pick from the list.',
+    stream: 'Stream or class name, eg. East.',
+    upi: 'NEMIS UPI, leave blank if the learner is not captured yet.',
+    gender: 'Pick male or female from the list.',
+    address: 'Postal address.',
+    county: 'County of residence, pick from the list.',
+    subCounty: 'Sub-county of residence, pick a county first to list its sub-counties.',
+    birthCertificateNo: 'Birth certificate entry number.',
+    medicalCondition: 'Pick from the list, none if the learner has no medical condition.',
+    isSpecial: 'TRUE if the learner has special needs, FALSE otherwise.',
+    marks: 'KCPE marks, between 0 and 500.',
+    indexNo: 'KCPE index number, 11 characters long including any leading zero.',
+    nationality: 'Pick from the list, kenya if left blank.',
+    kcpeYear: 'Year the learner sat for KCPE, this year if left blank.',
+    Name: 'full name, at least two names.',
+    Tel: 'phone number eg. 0712345678 or +254712345678.',
+    Id: 'national ID number.'
+};
+
+interface TemplateColumn {
+    name: string;
+    required: boolean;
+    hint: string;
+    // Values offered in a dropdown
+    list?: readonly string[];
+}
+
+/**
+ * Columns of the template derived from completeLearnerSchema, in the same order as the schema.
+ * `continuing` is left out since it is set by the endpoint the file is uploaded to.
+ */
+const templateColumns = (): TemplateColumn[] => {
+    let shape: { [K: string]: ZodTypeAny } = completeLearnerSchema.shape;
+    let lists: { [K: string]: readonly string[] } = {
+        grade: GRADES,
+        gender: GENDER,
+        nationality: NATIONALITY,
+        medicalCondition: MEDICAL_CONDITIONS,
+        county: Object.keys(COUNTIES)
+    };
+
+    return Object.entries(shape)
+        .filter(([key]) => key !== 'continuing')
+        .flatMap(([key, schema]): TemplateColumn[] => {
+            if (['father', 'mother', 'guardian'].includes(key)) {
+                return Object.values(PARENT_COLUMNS).map(suffix => ({
+                    name: key + suffix,
+                    required: false,
+                    hint: `${key[0].toUpperCase() + key.slice(1)}'s ${COLUMN_HINTS[suffix]}`
+                }));
+            }
+            return [
+                {
+                    name: key,
+                    required: !schema.isOptional(),
+                    hint: COLUMN_HINTS[key] ?? '',
+                    list: lists[key]
+                }
+            ];
+        });
+};
+
+// Data validation xml for a list dropdown
+const listValidation = (sqref: string, formula: string) =>
+    `<dataValidation type="list" allowBlank="1" showErrorMessage="1" sqref="${sqref}">` +
+    `<formula1>${formula.replaceAll('&', '&amp;').replaceAll('<', '&lt;')}</formula1>` +
+    `</dataValidation>`;
+
+/**
+ * Build an Excel template learners can be filled into and uploaded to /learner/add/{joining|continuing}/excel.
+ * Headers carry a comment describing the expected value and list columns have dropdowns whose values
+ * are kept in a hidden sheet.
+ */
+const learnerTemplate = (): Buffer => {
+    let columns = templateColumns();
+    let listColumns = columns.filter(x => x.list);
+    let counties = Object.entries(COUNTIES);
+
+    // Learners sheet, a header row with a comment on each header
+    let learnerSheet = utils.aoa_to_sheet([columns.map(x => x.name)]);
+    columns.forEach((column, i) => {
+        let cell = learnerSheet[utils.encode_cell({ r: 0, c: i })];
+        cell.c = [
+            {
+                a: 'nemis_api',
+                t: `${column.required ? 'Required' : 'Optional'}. ${column.hint}`.trim()
+            }
+        ];
+        cell.c.hidden = true;
+    });
+    learnerSheet['!cols'] = columns.map(x => ({ wch: Math.max(x.name.length + 2, 12) }));
+
+    // Lists sheet, one column per dropdown followed by a column of sub-counties for each county
+    let listRows = Math.max(
+        ...listColumns.map(x => x.list!.length),
+        ...counties.map(([_, subCounties]) => subCounties.length)
+    );
+    let listSheet = utils.aoa_to_sheet(
+        [...Array(listRows + 1).keys()].map(row => [
+            ...listColumns.map(x => (row === 0 ? x.name : x.list![row - 1] ?? null)),
+            ...counties.map(([county, subCounties]) =>
+                row === 0 ? county : subCounties[row - 1] ?? null
+            )
+        ])
+    );
+
+    let workBook = utils.book_new();
+    utils.book_append_sheet(workBook, learnerSheet, 'Learners');
+    utils.book_append_sheet(workBook, listSheet, LISTS_SHEET);
+    workBook.Workbook = { Sheets: [{}, { Hidden: 1 }] };
+
+    // Dropdowns, SheetJS doesn't write data validations so they are added to the sheet's xml
+    let validations = listColumns.map((column, i) => {
+        let c = utils.encode_col(columns.indexOf(column));
+        let listCol = utils.encode_col(i);
+        return listValidation(
+            `${c}2:${c}${TEMPLATE_ROWS + 1}`,
+            `${LISTS_SHEET}!$${listCol}$2:$${listCol}$${column.list!.length + 1}`
+        );
+    });
+
+    // Sub-counties of the county picked on the same row
+    let countyCol = utils.encode_col(columns.findIndex(x => x.name === 'county'));
+    let subCountyCol = utils.encode_col(columns.findIndex(x => x.name === 'subCounty'));
+    let firstCountyCol = utils.encode_col(listColumns.length);
+    let lastCountyCol = utils.encode_col(listColumns.length + counties.length - 1);
+    let countyOffset = `MATCH($${countyCol}2,${LISTS_SHEET}!$${firstCountyCol}$1:$${lastCountyCol}$1,0)-1`;
+    validations.push(
+        listValidation(
+            `${subCountyCol}2:${subCountyCol}${TEMPLATE_ROWS + 1}`,
+            `OFFSET(${LISTS_SHEET}!$${firstCountyCol}$2,0,${countyOffset},COUNTA(OFFSET(${LISTS_SHEET}!$${firstCountyCol}$2,0,${countyOffset},${listRows},1)),1)`
+        )
+    );
+
+    return patchXlsx(write(workBook, { type: 'buffer', bookType: 'xlsx' }), {
+        '/xl/worksheets/sheet1.xml': xml =>
+            xml.replace(
+                '</sheetData>',
+                `</sheetData><dataValidations count="${validations.length}">${validations.join(
+                    ''
+                )}</dataValidations>`
+            )
+    });
+};
+
+export { learnerTemplate, templateColumns, LISTS_SHEET };
@@ -0,0 +1,163 @@
+/*
+ * Copyright (c) 2023. MIT License. Maina Derrick.
+ */
+
+import { Readable } from 'node:stream';
+import { CFB, utils, write } from 'xlsx';
+import { format } from 'date-fns';
+
+type ExportFormat = 'xlsx' | 'csv';
+
+/**
+ * Columns in the order they are exported. Names are the same ones validateExcel reads, so an exported
+ * sheet can be edited and uploaded back. Columns after kcpeYear are informational and are ignored by
+ * the importer.
+ */
+const EXPORT_COLUMNS = [
+    'adm',
+    'name',
+    'dob',
+    'grade',
+    'stream',
+    'gender',
+    'upi',
+    'birthCertificateNo',
+    'indexNo',
+    'marks',
+    'fatherName',
+    'fatherTel',
+    'fatherId',
+    'motherName',
+    'motherTel',
+    'motherId',
+    'guardianName',
+    'guardianTel',
+    'guardianId',
+    'address',
+    'county',
+    'subCounty',
+    'medicalCondition',
+    'isSpecial',
+    'nationality',
+    'kcpeYear',
+    'nhifNo',
+    'admitted',
+    'reported',
+    'error'
+] as const;
+
+const EXPORT_CONTENT_TYPES: { [K in ExportFormat]: string } = {
+    xlsx: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+    csv: 'text/csv'
+};
+
+// Learners added to an xlsx sheet at a time while they are read
+const XLSX_BATCH_SIZE = 500;
+
+type ExportOptions = {
+    sheetName?: string;
+    extraColumns?: { [K: string]: (learner: any) => unknown };
+};
+
+/**
+ * Flatten a learner into a row, parent contacts are split into columns the way the importer expects.
+ * Missing values are left out so their cells are empty instead of failing the importer's validation.
+ */
+const learnerToRow = (learner: any, extraColumns: [string, (learner: any) => unknown][]) => {
+    let row: { [K: string]: unknown } = {};
+
+    EXPORT_COLUMNS.forEach(column => {
+        let parent = column.match(/^(father|mother|guardian)(Name|Tel|Id)$/);
+        let value = parent
+            ? learner[parent[1]]?.[parent[2].toLowerCase()]
+            : learner[column as keyof typeof learner];
+
+        if (value instanceof Date) value = format(value, 'yyyy-MM-dd');
+        if (value !== undefined && value !== null && value !== '') row[column] = value;
+    });
+    extraColumns.forEach(([column, value]) => (row[column] = value(learner)));
+
+    return row;
+};
+
+// A csv field, quoted when it holds a separator. Booleans are written the way Excel writes them
+const csvField = (value: unknown) => {
+    if (value === undefined || value === null) return '';
+    let field = typeof value === 'boolean' ? (value ? 'TRUE' : 'FALSE') : String(value);
+    return /[",\r\n]|^\s|\s$/.test(field) ? `"${field.replaceAll('"', '""')}"` : field;
+};
+
+async function* csvRows(
+    learners: AsyncIterable<any> | Iterable<any>,
+    extraColumns: [string, (learner: any) => unknown][]
+) {
+    let header = [...EXPORT_COLUMNS, ...extraColumns.map(([column]) => column)];
+    yield header.map(csvField).join(',') + '\r\n';
+
+    for await (const learner of learners) {
+        let row = learnerToRow(learner, extraColumns);
+        yield header.map(column => csvField(row[column])).join(',') + '\r\n';
+    }
+}
+
+async function* xlsxFile(
+    learners: AsyncIterable<any> | Iterable<any>,
+    extraColumns: [string, (learner: any) => unknown][],
+    sheetName: string
+) {
+    let header = [...EXPORT_COLUMNS, ...extraColumns.map(([column]) => column)];
+    let workSheet = utils.json_to_sheet([], { header: header });
+
+    let batch: { [K: string]: unknown }[] = [];
+    for await (const learner of learners) {
+        batch.push(learnerToRow(learner, extraColumns));
+        if (batch.length < XLSX_BATCH_SIZE) continue;
+        utils.sheet_add_json(workSheet, batch, { header: header, skipHeader: true, origin: -1 });
+        batch = [];
+    }
+    utils.sheet_add_json(workSheet, batch, { header: header, skipHeader: true, origin: -1 });
+
+    let workBook = utils.book_new();
+    utils.book_append_sheet(workBook, workSheet, sheetName);
+    yield write(workBook, { type: 'buffer', bookType: 'xlsx' }) as Buffer;
+}
+
+/**
+ * Export learners, such as a database cursor, as a stream. Csv rows are written as learners are read.
+ * An xlsx file is a zip archive SheetJS can only write whole, so learners are added to the sheet in
+ * batches as they are read and the file is streamed once all of them are added. Extra columns, such as
+ * the issues a learner was reported for, are added after the importer's columns.
+ */
+const exportLearners = (
+    learners: AsyncIterable<any> | Iterable<any>,
+    fileFormat: ExportFormat,
+    opts?: ExportOptions
+) => {
+    let extraColumns = Object.entries(opts?.extraColumns ?? {});
+    return Readable.from(
+        fileFormat === 'csv'
+            ? csvRows(learners, extraColumns)
+            : xlsxFile(learners, extraColumns, opts?.sheetName || 'Learners')
+    );
+};
+
+/**
+ * Edit the xml parts of a written xlsx file. SheetJS doesn't write data validations or cell fills, so
+ * they are added to the xml directly. Parts are patched in the order they are given.
+ */
+const patchXlsx = (xlsx: Buffer, patches: { [path: string]: (xml: string) => string }): Buffer => {
+    let zip = CFB.read(xlsx, { type: 'buffer' });
+
+    Object.entries(patches).forEach(([path, patch]) => {
+        let part = CFB.find(zip, path);
+        if (!part) return;
+        part.content = Buffer.from(patch(Buffer.from(part.content).toString()));
+        part.size = part.content.length;
+    });
+
+    return CFB.write(zip, { fileType: 'zip', type: 'buffer' });
+};
+
+export { exportLearners, patchXlsx, EXPORT_COLUMNS, EXPORT_CONTENT_TYPES };
+
+export type { ExportFormat };
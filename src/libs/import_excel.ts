@@ -2,53 +2,208 @@
  * Copyright (c) 2023. MIT License. Maina Derrick.
  */
 
-import { accessSync, constants } from "fs";
-import { readFile, utils, WorkBook } from "xlsx";
-import { z as zod, ZodIssue } from "zod";
-import { CompleteLearner } from "types/nemisApiTypes";
-import { lowerCaseAllValues } from "./converts";
-import { completeLearnerSchema } from "./zod_validation";
-import CustomError from "./error_handler";
+import { accessSync, constants } from 'fs';
+import { readFile, utils, WorkBook, write } from 'xlsx';
+import { z as zod, ZodIssue } from 'zod';
+import { CompleteLearner } from 'types/nemisApiTypes';
+import { lowerCaseAllValues } from './converts';
+import { completeLearnerSchema } from './zod_validation';
+import CustomError from './error_handler';
+import { patchXlsx } from './export_excel';
+
+interface ExcelRowPreview {
+    // Row number as shown in Excel, the header is row 1
+    row: number;
+    adm?: string;
+    name?: string;
+    status: 'valid' | 'invalid';
+    errors: { column?: string; message: string }[];
+    learner?: CompleteLearner;
+}
+
+// Read learner rows from the only visible sheet of an Excel file
+const readLearnerSheet = (filePath: string) => {
+    accessSync(filePath, constants.R_OK);
+    // Values in csv files are read as text, so that leading zeros of index and phone numbers are kept
+    let workBook: WorkBook = readFile(filePath, {
+        dateNF: 'yyyy-mm-dd',
+        cellDates: true,
+        raw: true
+    });
+    // Hidden sheets, such as the dropdown lists in the template, don't hold learner data
+    let sheetNames = workBook.SheetNames.filter((_, i) => !workBook.Workbook?.Sheets?.[i]?.Hidden);
+    if (sheetNames.length < 1) {
+        throw new CustomError(
+            'Invalid file format. No sheets with data were found.' +
+                'The workbook should have at least one sheet containing learner data.',
+            400
+        );
+    }
+    if (sheetNames.length > 1) {
+        throw new CustomError(
+            'Invalid file format. More than one sheet was found.' +
+                'Please remove all unnecessary sheets and upload a file with only one sheet containing learner data.',
+            400
+        );
+    }
+    // Parse sheetData
+    const sheetData = utils.sheet_to_json<any>(workBook.Sheets[sheetNames[0]]);
+
+    // check if all keys are correct
+    if (!Array.isArray(sheetData) || sheetData.length === 0) {
+        throw new CustomError(
+            `Failed to convert sheet data.
+             The worksheet \'${sheetNames[0]}\' may not contain any data or the data could not be processed. 
+             xlsx.utils.sheet_to_json did not return an array or returned an empty array.`,
+            400
+        );
+    }
+    return { workBook: workBook, sheetName: sheetNames[0], sheetData: sheetData };
+};
 
 // Convert an Excel file to json and sanitize its data
 const validateExcel = (
     filePath: string
 ): Array<CompleteLearner & { validationError?: ZodIssue }> => {
     try {
-        accessSync(filePath, constants.R_OK);
-        let workBook: WorkBook = readFile(filePath, { dateNF: 'yyyy-mm-dd', cellDates: true });
-        if (workBook.SheetNames.length < 1) {
-            throw new CustomError(
-                'Invalid file format. No sheets with data were found.' +
-                    'The workbook should have at least one sheet containing learner data.',
-                400
-            );
-        }
-        if (workBook.SheetNames.length > 1) {
-            throw new CustomError(
-                'Invalid file format. More than one sheet was found.' +
-                    'Please remove all unnecessary sheets and upload a file with only one sheet containing learner data.',
-                400
-            );
-        }
-        // Parse sheetData
-        const sheetData = utils.sheet_to_json(workBook.Sheets[workBook.SheetNames[0]]);
-
-        // check if all keys are correct
-        if (!Array.isArray(sheetData) || sheetData.length === 0) {
-            throw new CustomError(
-                `Failed to convert sheet data.
-             The worksheet \'${workBook.SheetNames[0]}\' may not contain any data or the data could not be processed. 
-             xlsx.utils.sheet_to_json did not return an array or returned an empty array.`,
-                400
-            );
-        }
+        return readLearnerSheet(filePath).sheetData.map(x =>
+            validateLearnerJson(lowerCaseAllValues(x))
+        );
+    } catch (err: any) {
+        throw err;
+    }
+};
+
+/**
+ * Validate an Excel file without adding learners, reporting errors against the sheet's row numbers
+ * and the importer's column names.
+ */
+const previewExcel = (filePath: string) => {
+    try {
+        let { workBook, sheetName, sheetData } = readLearnerSheet(filePath);
+
+        let rows: ExcelRowPreview[] = sheetData.map(x => {
+            let parsed = parseLearnerJson(lowerCaseAllValues(x));
+            return {
+                // sheet_to_json sets a zero based __rowNum__ on each row
+                row: x.__rowNum__ + 1,
+                adm: x.adm === undefined ? undefined : String(x.adm),
+                name: x.name,
+                status: parsed.success ? 'valid' : 'invalid',
+                errors: parsed.success
+                    ? []
+                    : parsed.error.issues.map(issue => ({
+                          column: issueColumn(issue),
+                          message: issue.message
+                      })),
+                learner: parsed.success ? parsed.data : undefined
+            };
+        });
 
-        return sheetData.map(x => validateLearnerJson(lowerCaseAllValues(x)));
+        // The importer upserts by admission number, a repeated one would overwrite the earlier row
+        rows.forEach((x, i) => {
+            let first = rows.findIndex(y => y.adm !== undefined && y.adm === x.adm);
+            if (first === -1 || first === i) return;
+            x.status = 'invalid';
+            x.errors.push({
+                column: 'adm',
+                message: `Admission number is repeated, it is also on row ${rows[first].row}.`
+            });
+        });
+
+        return { workBook: workBook, sheetName: sheetName, rows: rows };
     } catch (err: any) {
         throw err;
     }
 };
+
+/**
+ * Return the uploaded workbook with a comment on every cell that failed to validate, the cells
+ * highlighted and the errors of each row listed in an extra importErrors column.
+ */
+const annotateExcel = (workBook: WorkBook, sheetName: string, rows: ExcelRowPreview[]) => {
+    let sheet = workBook.Sheets[sheetName];
+    let range = utils.decode_range(sheet['!ref'] ?? 'A1');
+    let headers: string[] = utils.sheet_to_json<string[]>(sheet, { header: 1 })[0] ?? [];
+    let errorColumn = range.e.c + 1;
+    let errorCells: string[] = [];
+
+    utils.sheet_add_aoa(sheet, [['importErrors']], { origin: { r: 0, c: errorColumn } });
+
+    rows.filter(x => x.errors.length > 0).forEach(({ row, errors }) => {
+        errors.forEach(error => {
+            // Errors not tied to a column are marked on the first cell of the row
+            let column = Math.max(headers.indexOf(error.column ?? ''), 0);
+            let address = utils.encode_cell({ r: row - 1, c: column });
+
+            // Add empty cells for missing values so that they can be highlighted
+            sheet[address] ??= { t: 's', v: '' };
+            sheet[address].c ??= [];
+            sheet[address].c.push({ a: 'nemis_api', t: error.message });
+            sheet[address].c.hidden = true;
+            errorCells.push(address);
+        });
+        utils.sheet_add_aoa(
+            sheet,
+            [[errors.map(x => (x.column ? `${x.column}: ` : '') + x.message).join('; ')]],
+            { origin: { r: row - 1, c: errorColumn } }
+        );
+    });
+
+    let sheetFile = `/xl/worksheets/sheet${workBook.SheetNames.indexOf(sheetName) + 1}.xml`;
+    // Highlighted copies of the cell formats follow the originals, a cell's copy is offset by their count
+    let highlightOffset = 0;
+
+    return patchXlsx(write(workBook, { type: 'buffer', bookType: 'xlsx' }), {
+        // Add a light red fill and a copy of each cell format using it, so that highlighted cells keep
+        // their number format, such as dates
+        '/xl/styles.xml': xml => {
+            let fillId = Number(xml.match(/<fills count="(\d+)"/)?.[1] ?? 0);
+            let cellXfs = xml.match(/<cellXfs count="\d+">([\s\S]*?)<\/cellXfs>/)?.[1] ?? '';
+            let xfs = cellXfs.match(/<xf\b[^>]*?(?:\/>|>[\s\S]*?<\/xf>)/g) ?? [
+                '<xf numFmtId="0" fontId="0" fillId="0" borderId="0" xfId="0"/>'
+            ];
+            let highlighted = xfs.map(xf =>
+                xf
+                    .replace(/\s(fillId|applyFill)="\d+"/g, '')
+                    .replace(/^<xf/, `<xf fillId="${fillId}" applyFill="1"`)
+            );
+            highlightOffset = xfs.length;
+
+            let allXfs = [...xfs, ...highlighted].join('');
+            return xml
+                .replace(/<fills count="\d+">/, `<fills count="${fillId + 1}">`)
+                .replace(
+                    '</fills>',
+                    '<fill><patternFill patternType="solid"><fgColor rgb="FFFFC7CE"/><bgColor indexed="64"/></patternFill></fill></fills>'
+                )
+                .replace(
+                    /<cellXfs count="\d+">[\s\S]*?<\/cellXfs>|<cellXfs\/>/,
+                    `<cellXfs count="${xfs.length * 2}">${allXfs}</cellXfs>`
+                );
+        },
+        [sheetFile]: xml =>
+            errorCells.reduce(
+                (xml, address) =>
+                    xml.replace(
+                        new RegExp(`<c r="${address}"(?: s="(\\d+)")?`),
+                        (_, style) =>
+                            `<c r="${address}" s="${highlightOffset + Number(style ?? 0)}"`
+                    ),
+                xml
+            )
+    });
+};
+
+// Column a zod issue belongs to. Parent contacts are nested in the schema but flat in the sheet
+const issueColumn = (issue: ZodIssue) => {
+    let [key, field] = issue.path.map(String);
+    if (['father', 'mother', 'guardian'].includes(key) && field) {
+        return key + field[0].toUpperCase() + field.slice(1);
+    }
+    return key;
+};
+
 /**
  Validates a learner object based on a Zod schema and applies additional custom validation logic.
  @param {any} obj - The learner_router object to be validated.
@@ -60,47 +215,7 @@ const validateExcel = (
 
 const validateLearnerJson = (obj: any): CompleteLearner & { validationError?: ZodIssue } => {
     try {
-        completeLearnerSchema.superRefine((value, ctx) => {
-            if (
-                value.birthCertificateNo &&
-                value.birthCertificateNo.length < 7 &&
-                obj?.nationality === 'kenya'
-            ) {
-                ctx.addIssue({
-                    code: zod.ZodIssueCode.custom,
-                    message:
-                        'Kenyan birth certificate entry numbers should be more' +
-                        ' than 7 (seven) characters long.'
-                });
-            }
-        });
-
-        // Prepare the object for validation
-        let objectToValidate = {
-            ...obj,
-            dob:
-                obj.dob instanceof Date
-                    ? (() =>
-                          // Fix off by 1 Date error
-                          obj.dob.setDate(obj.dob.getDate() + 1))()
-                    : obj.dob,
-            father: {
-                name: obj?.fatherName,
-                tel: obj?.fatherTel,
-                id: obj?.fatherId
-            },
-            mother: {
-                name: obj?.motherName,
-                tel: obj?.motherTel,
-                id: obj?.motherId
-            },
-            guardian: {
-                name: obj?.guardianName,
-                tel: obj?.guardianTel,
-                id: obj?.guardianId
-            }
-        };
-        let validatedObject = completeLearnerSchema.safeParse(objectToValidate);
+        let validatedObject = parseLearnerJson(obj);
         if (validatedObject.success) {
             return <CompleteLearner>validatedObject.data;
         } else {
@@ -114,4 +229,51 @@ const validateLearnerJson = (obj: any): CompleteLearner & { validationError?: Zo
     }
 };
 
-export { validateExcel, validateLearnerJson };
+// Nest parent contacts read from flat columns and validate against completeLearnerSchema
+const parseLearnerJson = (obj: any) => {
+    completeLearnerSchema.superRefine((value, ctx) => {
+        if (
+            value.birthCertificateNo &&
+            value.birthCertificateNo.length < 7 &&
+            obj?.nationality === 'kenya'
+        ) {
+            ctx.addIssue({
+                code: zod.ZodIssueCode.custom,
+                message:
+                    'Kenyan birth certificate entry numbers should be more' +
+                    ' than 7 (seven) characters long.'
+            });
+        }
+    });
+
+    // Prepare the object for validation
+    let objectToValidate = {
+        ...obj,
+        dob:
+            obj.dob instanceof Date
+                ? (() =>
+                      // Fix off by 1 Date error
+                      obj.dob.setDate(obj.dob.getDate() + 1))()
+                : obj.dob,
+        father: {
+            name: obj?.fatherName,
+            tel: obj?.fatherTel,
+            id: obj?.fatherId
+        },
+        mother: {
+            name: obj?.motherName,
+            tel: obj?.motherTel,
+            id: obj?.motherId
+        },
+        guardian: {
+            name: obj?.guardianName,
+            tel: obj?.guardianTel,
+            id: obj?.guardianId
+        }
+    };
+    return completeLearnerSchema.safeParse(objectToValidate);
+};
+
+export { validateExcel, validateLearnerJson, previewExcel, annotateExcel };
+
+export type { ExcelRowPreview };
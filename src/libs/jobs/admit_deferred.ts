@@ -0,0 +1,57 @@
+/*
+ * Copyright (c) 2023. MIT License. Maina Derrick.
+ */
+
+import CustomError from '@libs/error_handler';
+import nemisSessions from '@libs/nemis/session_pool';
+import {
+    DatabaseInstitution,
+    DeferredLearner,
+    JobProcessor,
+    ListAdmittedLearner
+} from 'types/nemisApiTypes';
+
+const admitDeferredProcessor: JobProcessor<{
+    institution: DatabaseInstitution;
+    deferred: DeferredLearner[];
+    admitted: ListAdmittedLearner[];
+}> = {
+    async prepare(institution) {
+        return nemisSessions.withSession(institution, async nemis => ({
+            institution: institution,
+            deferred: await nemis.getDeferredLearners(),
+            admitted: await nemis.listAdmittedJoiningLearners()
+        }));
+    },
+
+    async process(context, learner) {
+        if (!learner.indexNo) {
+            throw new CustomError('Learner has no index number.', 400);
+        }
+
+        if (context.admitted.some(x => x.indexNo === learner.indexNo)) {
+            learner.set({ admitted: true, error: undefined });
+            if (learner.deferred?.status) learner.set('deferred.status', 'admitted');
+            return { message: 'Learner is already admitted.' };
+        }
+
+        if (!context.deferred.some(x => x.indexNo === learner.indexNo)) {
+            throw new CustomError("Learner's admission was not deferred on NEMIS.", 404);
+        }
+
+        // The admit post-back is only valid with the view state of the session that listed it
+        await nemisSessions.withSession(context.institution, nemis =>
+            nemis.admitDefferedLearner({ indexNo: learner.indexNo!, adm: learner.adm })
+        );
+
+        learner.set({
+            admitted: true,
+            error: undefined,
+            'deferred.status': 'admitted',
+            'deferred.admittedOn': new Date()
+        });
+        return { message: 'Deferred learner was admitted successfully.' };
+    }
+};
+
+export { admitDeferredProcessor };
@@ -0,0 +1,130 @@
+/*
+ * Copyright (c) 2023. MIT License. Maina Derrick.
+ */
+
+import CustomError from '@libs/error_handler';
+import { matchNames } from '@libs/name_match';
+import NemisApiService from '@libs/nemis/nemis_api_handler';
+import { NemisWebService } from '@libs/nemis/nemis_web_handler';
+import nemisSessions from '@libs/nemis/session_pool';
+import {
+    CompleteLearner,
+    DatabaseInstitution,
+    JobLearner,
+    JobProcessor,
+    ListAdmittedLearner
+} from 'types/nemisApiTypes';
+
+const admitLearner = async (nemis: NemisWebService, learner: CompleteLearner) => {
+    try {
+        if (!learner?.indexNo) {
+            throw new CustomError(
+                'Learner has no index number. Please update learner to include an index number',
+                400
+            );
+        }
+
+        let admitApiResponse = await new NemisApiService().admitApiCalls(learner.indexNo);
+
+        // Extract all parsed data returned by the api
+        const { admission, reported, captured } = admitApiResponse;
+
+        if (admission instanceof CustomError) {
+            throw admission;
+        }
+        // Deferred admissions are not possible from /Learner/Studindex.aspx
+        if (admission.deferred) {
+            throw new CustomError(
+                "Learner's admission was deferred, admit the learner using /nemis/deferred.",
+                400,
+                'deferred_admission'
+            );
+        }
+        // Check how closely admitApiResponse matches to our learner
+        if (admission.gender !== learner.gender) {
+            throw new CustomError(
+                "Learner's gender doesn't match up with that returned by the nemis API. Check index number",
+                401
+            );
+        }
+
+        let { matched } = matchNames(learner.name, admission.name);
+
+        if (matched === 0) {
+            throw new CustomError('learner has no matching name to that returned by the Api', 400);
+        }
+
+        // if we matched more than one name skip checking marks
+        if (matched < 2)
+            if (admission.marks && admission?.marks !== String(learner.marks)) {
+                throw new CustomError("Learner's marks saved in the data", 400);
+            }
+
+        // Check if learner is admitted elsewhere
+        let reportedCaptured =
+            captured instanceof CustomError
+                ? reported instanceof CustomError
+                    ? undefined
+                    : reported
+                : captured;
+
+        if (reportedCaptured) {
+            // If admitted to another institution, check if learner is already captured
+            if (reportedCaptured.upi && reportedCaptured?.upi?.length > 3) {
+                throw new CustomError(
+                    `Learner has already been admitted and captured at ${reportedCaptured.capturedBy}, ${reportedCaptured.institution.name}`,
+                    400
+                );
+            }
+        }
+
+        // We can go ahead and admit if we haven't failed yet
+        return nemis.admitJoiningLearner({
+            ...admission,
+            mother: learner.mother,
+            father: learner.father,
+            guardian: learner.guardian,
+            adm: learner.adm
+        });
+    } catch (err) {
+        throw err;
+    }
+};
+
+// Record that the learner's admission was deferred, keeping when it was first detected
+const markDeferred = (learner: JobLearner) => {
+    if (learner.deferred?.status === 'deferred') return;
+    learner.set({ deferred: { status: 'deferred', detectedOn: new Date() } });
+};
+
+const admitJoiningProcessor: JobProcessor<{
+    institution: DatabaseInstitution;
+    admitted: ListAdmittedLearner[];
+}> = {
+    async prepare(institution) {
+        let admitted = await nemisSessions.withSession(institution, nemis =>
+            nemis.listAdmittedJoiningLearners()
+        );
+
+        return { institution: institution, admitted: admitted };
+    },
+
+    async process(context, learner) {
+        if (context.admitted.some(x => x.indexNo === learner.indexNo)) {
+            Object.assign(learner, { admitted: true, error: undefined });
+            return { message: 'Learner is already admitted.' };
+        }
+
+        let admitted = await nemisSessions
+            .withSession(context.institution, nemis => admitLearner(nemis, learner))
+            .catch(err => {
+                if (err?.cause === 'deferred_admission') markDeferred(learner);
+                throw err;
+            });
+
+        Object.assign(learner, { admitted: admitted, error: undefined });
+        return { message: 'Learner was admitted successfully.' };
+    }
+};
+
+export { admitLearner, markDeferred, admitJoiningProcessor };
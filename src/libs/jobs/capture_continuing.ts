@@ -0,0 +1,190 @@
+/*
+ * Copyright (c) 2023. MIT License. Maina Derrick.
+ */
+
+import CustomError from '@libs/error_handler';
+import { isNameMatch, nemisScore } from '@libs/name_match';
+import NemisApiService from '@libs/nemis/nemis_api_handler';
+import nemisSessions from '@libs/nemis/session_pool';
+import nemisLimiter from '@libs/nemis/limiter';
+import {
+    DatabaseInstitution,
+    Grades,
+    JobProcessor,
+    ListLearner,
+    SearchLearnerApiResponses
+} from 'types/nemisApiTypes';
+
+interface CaptureContinuingContext {
+    institution: DatabaseInstitution;
+    // Learners already captured on NEMIS, mapped by grade
+    listLearner: { [K in Grades]?: ListLearner[] | CustomError };
+    // Transfer learners instead of reporting them as errors
+    transfer: boolean;
+}
+
+const captureContinuingProcessor: JobProcessor<CaptureContinuingContext> = {
+    async prepare(institution, learners, options) {
+        // Get all grades to query list learner
+        let listGrades = [...new Set(learners.map(x => x.grade))];
+
+        // Nemis state is tied to the session, each grade is listed using a separate session from the pool
+        let listLearner = await nemisLimiter.map(
+            institution._id.toString(),
+            listGrades,
+            grade => nemisSessions.withSession(institution, nemis => nemis.listLearners(grade)),
+            options?.concurrency
+        );
+
+        let mappedListLearner: CaptureContinuingContext['listLearner'] = {};
+
+        listLearner.forEach((list, i) => {
+            Object.assign(mappedListLearner, {
+                [listGrades[i]]:
+                    list.status === 'fulfilled'
+                        ? list.value
+                        : list.reason instanceof CustomError
+                        ? list.reason
+                        : new CustomError(
+                              list.reason.message || ' An error parsing list of captured learners',
+                              500
+                          )
+            });
+        });
+
+        return {
+            institution: institution,
+            listLearner: mappedListLearner,
+            transfer: !!options?.transfer
+        };
+    },
+
+    async process(context, learner) {
+        let { institution } = context;
+
+        if (!learner.birthCertificateNo) {
+            throw new CustomError('Learner has no birth certificate number.', 400);
+        }
+
+        let gradeListLearner = context.listLearner[learner.grade];
+
+        if (gradeListLearner instanceof CustomError) throw gradeListLearner;
+
+        // Check if learner is already captured
+        let foundLearnerUpi = gradeListLearner?.find(
+            x => learner.birthCertificateNo === x.birthCertificateNo
+        );
+
+        if (foundLearnerUpi) {
+            Object.assign(learner, {
+                upi: foundLearnerUpi.upi,
+                admitted: true,
+                reported: true,
+                error: undefined
+            });
+            return { message: 'Learner is already captured.', result: foundLearnerUpi };
+        }
+
+        // Since we might have transfers in the capturing list, use nemis API to check if to capture or request transfer
+        let res: SearchLearnerApiResponses = await new NemisApiService().searchLearner(
+            encodeURI(learner.birthCertificateNo)
+        );
+
+        let transfer = false;
+
+        switch (true) {
+            // Current learner
+            case res.learnerCategory?.code === '1': {
+                let curInst = res.currentInstitution;
+                if (!curInst.level || !curInst.code) break;
+
+                // If learner is admitted in this school, update
+                if (curInst.code === institution.code) {
+                    Object.assign(learner, {
+                        upi: res.upi || undefined,
+                        admitted: true,
+                        reported: !!res.upi,
+                        error: undefined,
+                        nhifNo: res.nhifNo || undefined
+                    });
+                    return { message: 'Learner is already captured.', result: res };
+                }
+
+                // If institution is of lower level than this institution, use capture learner
+                // 'ECDE' < 'Primary' < 'Secondary' < 'TTC' < 'TVET' < 'JSS' < 'A-Level' < 'Pre-vocational'
+                if (curInst.level < String(institution.educationLevel.code)) break;
+
+                // If both institutions are at the same level
+                if (curInst.level === String(institution.educationLevel.code)) {
+                    learner.nemisScore = nemisScore(learner.name, res.name);
+
+                    // if api learner's gender is the same as learner, and at least two names match; transfer learner
+                    if (res.gender === learner.gender && isNameMatch(learner.name, res.name)) {
+                        transfer = true;
+                        break;
+                    }
+
+                    throw new CustomError(
+                        `learner birth certificate is in use by another learner; ${res.name}, ${
+                            res.gender
+                        }, ${res.upi || ''} at ${curInst.name}`,
+                        400
+                    );
+                }
+                break;
+            }
+            // Not a learner or alumni, capture
+            default:
+                break;
+        }
+
+        if (!transfer) {
+            let captureResults = await nemisSessions.withSession(institution, nemis =>
+                nemis.addContinuingLearner(learner)
+            );
+
+            Object.assign(learner, {
+                admitted: true,
+                reported: true,
+                upi: captureResults?.upi,
+                error: undefined
+            });
+            return { message: captureResults.message, result: captureResults };
+        }
+
+        // If user doesn't want us to handle transfers, report where the learner is currently captured.
+        if (!context.transfer) {
+            Object.assign(learner, { admitted: false, reported: false, upi: undefined });
+            throw new CustomError(
+                `Learner is admitted at ${res.currentInstitution?.name}, ${res.currentInstitution?.code} with UPI:${res.upi}. Use the transfer endpoint to transfer learner.`,
+                400
+            );
+        }
+
+        if (!(await nemisSessions.withSession(institution, nemis => nemis.transferIn(learner)))) {
+            throw new CustomError(
+                `Transfer request failed. Learner is admitted at ${res.currentInstitution.name}, ${res.currentInstitution.code} with UPI:${res?.upi}`,
+                400
+            );
+        }
+
+        // Leave admitted and reported as undefined to only be set when learner has been released from the current institution
+        let message = `Transfer request saved. Learner awaits to be release from ${res.currentInstitution.name}, ${res.currentInstitution.code}`;
+        Object.assign(learner, {
+            transfer: {
+                method: 'in',
+                institution: {
+                    code: res.currentInstitution.code,
+                    name: res.currentInstitution.name
+                },
+                status: 'pending',
+                requestedOn: new Date()
+            },
+            upi: res.upi,
+            error: message
+        });
+        return { message: message, result: res };
+    }
+};
+
+export { captureContinuingProcessor };
@@ -0,0 +1,61 @@
+/*
+ * Copyright (c) 2023. MIT License. Maina Derrick.
+ */
+
+import CustomError from '@libs/error_handler';
+import nemisSessions from '@libs/nemis/session_pool';
+import {
+    DatabaseInstitution,
+    JobProcessor,
+    ListAdmittedLearner,
+    ListLearner
+} from 'types/nemisApiTypes';
+
+interface CaptureJoiningContext {
+    institution: DatabaseInstitution;
+    // Learners already captured on NEMIS
+    captured: ListLearner[];
+    // Learners admitted and awaiting bio-data capture
+    admitted: ListAdmittedLearner[];
+}
+
+const captureJoiningProcessor: JobProcessor<CaptureJoiningContext> = {
+    async prepare(institution) {
+        return nemisSessions.withSession(institution, async nemis => ({
+            institution: institution,
+            captured: await nemis.listLearners('form 1'),
+            admitted: await nemis.listAdmittedJoiningLearners()
+        }));
+    },
+
+    async process(context, learner) {
+        // Learner might have been captured directly on the NEMIS website
+        let listLearner = context.captured.find(
+            x => x.birthCertificateNo === learner.birthCertificateNo
+        );
+        if (listLearner) {
+            Object.assign(learner, { upi: listLearner.upi, reported: true, error: undefined });
+            return { message: "Learner's bio-data was already captured.", result: listLearner };
+        }
+
+        if (!context.admitted.some(x => x.indexNo === learner.indexNo)) {
+            throw new CustomError('Learner is not admitted yet', 400);
+        }
+
+        let captureResults = await nemisSessions.withSession(context.institution, async nemis => {
+            // Capture post-back is only valid with the view state of the admitted learners page
+            let admitted = (await nemis.listAdmittedJoiningLearners()).find(
+                x => x.indexNo === learner.indexNo
+            );
+            if (!admitted) throw new CustomError('Learner is not admitted yet', 400);
+
+            return nemis.captureJoiningBiodata(learner, admitted);
+        });
+
+        Object.assign(learner, { upi: captureResults.upi, reported: true, error: undefined });
+
+        return { message: captureResults.message, result: captureResults };
+    }
+};
+
+export { captureJoiningProcessor };
@@ -0,0 +1,73 @@
+/*
+ * Copyright (c) 2023. MIT License. Maina Derrick.
+ */
+
+import continuingLearnerModel from '@database/continuing_learner';
+import CustomError from '@libs/error_handler';
+import nemisSessions from '@libs/nemis/session_pool';
+import { DatabaseInstitution, JobProcessor, RequestingLearner } from 'types/nemisApiTypes';
+
+interface CaptureRequestedContext {
+    institution: DatabaseInstitution;
+    // Approved continuing learner requests awaiting bio-data capture
+    approved: RequestingLearner[];
+}
+
+const captureRequestedProcessor: JobProcessor<CaptureRequestedContext> = {
+    async prepare(institution) {
+        let approved = await nemisSessions.withSession(institution, nemis =>
+            nemis.getPendingContinuingLearners()
+        );
+
+        return { institution: institution, approved: approved };
+    },
+
+    async process(context, learner) {
+        if (!learner.birthCertificateNo) {
+            throw new CustomError('Learner has no birth certificate number.', 400);
+        }
+        let birthCertificateNo = learner.birthCertificateNo.toLowerCase();
+
+        let approvedRequest = context.approved.find(
+            x => x.birthCertificateNo === birthCertificateNo
+        );
+        if (!approvedRequest) {
+            throw new CustomError("Learner's request has not been approved on NEMIS.", 400);
+        }
+
+        let upi = approvedRequest.upi;
+        let message = 'Learner is already captured.';
+
+        if (!upi) {
+            let captureResults = await nemisSessions.withSession(
+                context.institution,
+                async nemis => {
+                    // Capture post-back is only valid with the view state of the list it was read from
+                    let listed = (await nemis.getPendingContinuingLearners()).find(
+                        x => x.birthCertificateNo === birthCertificateNo
+                    );
+                    if (!listed?.postback) {
+                        throw new CustomError(
+                            'Learner is no longer awaiting bio-data capture on NEMIS.',
+                            404
+                        );
+                    }
+                    return nemis.captureContinuingLearners(learner, listed);
+                }
+            );
+            upi = captureResults.upi;
+            message = captureResults.message;
+        }
+
+        Object.assign(learner, { upi: upi, admitted: true, reported: true, error: undefined });
+
+        await continuingLearnerModel.updateOne(
+            { learnerId: learner._id },
+            { status: 'captured', upi: upi, capturedOn: new Date() }
+        );
+
+        return { message: message, result: { upi: upi } };
+    }
+};
+
+export { captureRequestedProcessor };
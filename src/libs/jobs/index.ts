@@ -0,0 +1,224 @@
+/*
+ * Copyright (c) 2023. MIT License. Maina Derrick.
+ */
+
+import mongoose from 'mongoose';
+import jobModel from '@database/job';
+import learnerModel from '@database/learner';
+import institutionModel from '@database/institution';
+import { currentActor, runAs } from '@libs/audit';
+import CustomError from '@libs/error_handler';
+import logger from '@libs/logger';
+import nemisLimiter from '@libs/nemis/limiter';
+import { DatabaseInstitution, JobLearner, JobProcessor, JobType } from 'types/nemisApiTypes';
+import { admitJoiningProcessor } from './admit_joining';
+import { captureJoiningProcessor } from './capture_joining';
+import { captureContinuingProcessor } from './capture_continuing';
+import { captureRequestedProcessor } from './capture_requested';
+import { admitDeferredProcessor } from './admit_deferred';
+import { submitNhifProcessor } from './submit_nhif';
+
+const jobProcessors = {
+    admitJoining: admitJoiningProcessor,
+    captureJoining: captureJoiningProcessor,
+    captureContinuing: captureContinuingProcessor,
+    captureRequested: captureRequestedProcessor,
+    admitDeferred: admitDeferredProcessor,
+    submitNhif: submitNhifProcessor
+};
+
+// Context each job type's processor prepares and then passes to every learner it processes
+type JobContexts = {
+    [K in JobType]: (typeof jobProcessors)[K] extends JobProcessor<infer C> ? C : never;
+};
+
+const processors: { [K in JobType]: JobProcessor<JobContexts[K]> } = jobProcessors;
+
+type Job = InstanceType<typeof jobModel>;
+
+/**
+ * Runs bulk NEMIS operations outside the HTTP request that queued them. Jobs are persisted in the
+ * `job` collection together with the state of each learner, so that a job interrupted by a server
+ * restart is resumed from the first learner that wasn't processed.
+ * Only one job runs per institution at a time, learners in the job are processed a few at a time as
+ * set by the job's concurrency.
+ */
+class JobQueue {
+    // Institutions with a job currently running
+    #running = new Set<string>();
+
+    async enqueue(
+        type: JobType,
+        institutionId: mongoose.Types.ObjectId,
+        learnerIds: mongoose.Types.ObjectId[],
+        opts?: { tokenId?: mongoose.Types.ObjectId; options?: object; concurrency?: number }
+    ) {
+        if (learnerIds.length === 0) {
+            throw new CustomError('A job must have at least one learner to process.', 400);
+        }
+
+        let actor = currentActor();
+        let job = await jobModel.create({
+            type: type,
+            institutionId: institutionId,
+            tokenId: opts?.tokenId ?? actor.tokenId,
+            userId: actor.userId,
+            apiKeyId: actor.apiKeyId,
+            options: opts?.options ?? {},
+            progress: { total: learnerIds.length, concurrency: nemisLimiter.limit(opts?.concurrency) },
+            learners: learnerIds.map(learnerId => ({ learnerId: learnerId }))
+        });
+
+        this.#next();
+
+        return job;
+    }
+
+    // Re-queue jobs that were running when the server stopped
+    async resume() {
+        let resumed = await jobModel.updateMany({ status: 'running' }, { status: 'queued' });
+        if (resumed.modifiedCount > 0) logger.info(`Resuming ${resumed.modifiedCount} job(s)`);
+        this.#next();
+    }
+
+    #next() {
+        jobModel
+            .find({ status: 'queued' })
+            .sort({ createdAt: 1 })
+            .then(queuedJobs => {
+                for (const job of queuedJobs) {
+                    let institutionId = job.institutionId.toString();
+                    if (this.#running.has(institutionId)) continue;
+
+                    this.#running.add(institutionId);
+                    let actor = {
+                        source: 'job' as const,
+                        institutionId: job.institutionId,
+                        tokenId: job.tokenId,
+                        userId: job.userId,
+                        apiKeyId: job.apiKeyId,
+                        jobId: job._id
+                    };
+                    runAs(actor, () => this.#run(job._id))
+                        .catch(err => logger.error(err))
+                        .finally(() => {
+                            this.#running.delete(institutionId);
+                            this.#next();
+                        });
+                }
+            })
+            .catch(err => logger.error(err));
+    }
+
+    async #run(jobId: mongoose.Types.ObjectId) {
+        let job = await jobModel.findOneAndUpdate(
+            { _id: jobId, status: 'queued' },
+            { status: 'running', startedAt: new Date() },
+            { returnDocument: 'after' }
+        );
+        if (!job) return;
+
+        try {
+            if (!processors[job.type as JobType]) {
+                throw new CustomError(`No processor is registered for ${job.type} jobs.`, 500);
+            }
+
+            // findById runs the findOne hook which decrypts the institution's password
+            let institution = (await institutionModel.findById(
+                job.institutionId
+            )) as DatabaseInstitution | null;
+
+            if (!institution || institution.isArchived) {
+                throw new CustomError('Institution associated with the job was not found.', 404);
+            }
+
+            await this.#processJob(job.type as JobType, job, institution);
+
+            await jobModel.updateOne(
+                { _id: job._id },
+                { status: 'completed', finishedAt: new Date() }
+            );
+        } catch (err: any) {
+            logger.error(err);
+            await jobModel.updateOne(
+                { _id: job._id },
+                {
+                    status: 'failed',
+                    error: err?.message || 'Job failed with an unknown error',
+                    finishedAt: new Date()
+                }
+            );
+        }
+    }
+
+    // Generic over the job type so that the processor is only given the context it prepared
+    async #processJob<K extends JobType>(type: K, job: Job, institution: DatabaseInstitution) {
+        let processor: JobProcessor<JobContexts[K]> = processors[type];
+        let pending = job.learners.filter(x => x.status === 'pending');
+
+        let learners = await learnerModel.find({
+            _id: { $in: pending.map(x => x.learnerId) },
+            institutionId: job.institutionId
+        });
+
+        let context = await processor.prepare(institution, learners, {
+            ...job.options,
+            concurrency: job.progress?.concurrency
+        });
+
+        await nemisLimiter.map(
+            job.institutionId.toString(),
+            pending,
+            jobLearner => {
+                let learner = learners.find(x => x._id.equals(jobLearner.learnerId));
+                return this.#processLearner(job._id, processor, context, jobLearner, learner);
+            },
+            job.progress?.concurrency
+        );
+    }
+
+    async #processLearner<C>(
+        jobId: mongoose.Types.ObjectId,
+        processor: JobProcessor<C>,
+        context: C,
+        jobLearner: { learnerId: mongoose.Types.ObjectId },
+        learner?: JobLearner
+    ) {
+        let update: { status: string; message?: string; result?: unknown };
+
+        try {
+            if (!learner || learner.archived) {
+                throw new CustomError('Learner was deleted before being processed.', 404);
+            }
+
+            let processed = await processor.process(context, learner);
+            update = { status: 'succeeded', ...processed };
+        } catch (err: any) {
+            update = {
+                status: 'failed',
+                message: err?.message || 'Learner failed to process with an unknown error'
+            };
+            if (learner) learner.error = update.message;
+        }
+
+        if (learner) await learner.save();
+
+        await jobModel.updateOne(
+            { _id: jobId, 'learners.learnerId': jobLearner.learnerId },
+            {
+                $set: {
+                    'learners.$.status': update.status,
+                    'learners.$.message': update.message,
+                    'learners.$.result': update.result,
+                    'learners.$.processedOn': new Date()
+                },
+                $inc: {
+                    'progress.processed': 1,
+                    [update.status === 'succeeded' ? 'progress.succeeded' : 'progress.failed']: 1
+                }
+            }
+        );
+    }
+}
+
+export default new JobQueue();
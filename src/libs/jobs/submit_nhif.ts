@@ -0,0 +1,110 @@
+/*
+ * Copyright (c) 2023. MIT License. Maina Derrick.
+ */
+
+import CustomError from '@libs/error_handler';
+import nemisSessions from '@libs/nemis/session_pool';
+import {
+    DatabaseInstitution,
+    Grades,
+    JobLearner,
+    JobProcessor,
+    ListLearner
+} from 'types/nemisApiTypes';
+
+// Learner listed on NEMIS and the results of submitting them, if they had no NHIF number
+interface ListedLearner {
+    listed: ListLearner;
+    submitted?: ListLearner & { message?: string; error?: string };
+}
+
+interface SubmitNhifContext {
+    institution: DatabaseInstitution;
+    // UPIs of the job's learners, mapped by grade
+    upis: { [K in Grades]?: string[] };
+    // Submission of each grade, started by the grade's first learner and awaited by the rest
+    submissions: { [K in Grades]?: Promise<Map<string, ListedLearner>> };
+}
+
+/**
+ * List a grade and submit all of its learners without an NHIF number in one session. Learners already
+ * having an NHIF number on NEMIS aren't submitted.
+ * @returns Learners listed on NEMIS mapped by UPI, learners not captured are left out
+ */
+const submitGrade = (context: SubmitNhifContext, grade: Grades) =>
+    nemisSessions.withSession(context.institution, async nemis => {
+        let upis = context.upis[grade] ?? [];
+        let listed = (await nemis.listLearners(grade)).filter(x => upis.includes(x.upi));
+
+        let toSubmit = listed.filter(x => !x.nhifNo);
+        let submitted = toSubmit.length > 0 ? await nemis.submitToNhif(grade, toSubmit) : [];
+
+        return new Map<string, ListedLearner>(
+            listed.map(x => [x.upi, { listed: x, submitted: submitted.find(y => y.upi === x.upi) }])
+        );
+    });
+
+const submitLearner = async (context: SubmitNhifContext, learner: JobLearner) => {
+    let upi = learner.upi?.toLowerCase();
+    if (!upi) {
+        throw new CustomError(
+            'Learner has no UPI. Capture the learner before submitting to NHIF.',
+            400
+        );
+    }
+
+    let grade = learner.grade as Grades;
+    let submission = (context.submissions[grade] ??= submitGrade(context, grade));
+    let listedLearner = (await submission).get(upi);
+    if (!listedLearner) {
+        throw new CustomError(`Learner is not captured in ${learner.grade} on NEMIS.`, 404);
+    }
+
+    // Learner might have been submitted directly on the NEMIS website
+    let { listed, submitted } = listedLearner;
+    if (!submitted) {
+        return { nhifNo: listed.nhifNo, message: 'Learner already has an NHIF number.' };
+    }
+    if (submitted.error) throw new CustomError(submitted.error, 500);
+    if (!submitted.nhifNo) throw new CustomError('NEMIS did not return an NHIF number.', 500);
+
+    return {
+        nhifNo: submitted.nhifNo,
+        message: submitted.message || 'Learner was submitted to NHIF.'
+    };
+};
+
+const submitNhifProcessor: JobProcessor<SubmitNhifContext> = {
+    async prepare(institution, learners) {
+        let upis: SubmitNhifContext['upis'] = {};
+        learners.forEach(learner => {
+            if (!learner.upi) return;
+            let grade = learner.grade as Grades;
+            upis[grade] = [...(upis[grade] ?? []), learner.upi.toLowerCase()];
+        });
+
+        return { institution: institution, upis: upis, submissions: {} };
+    },
+
+    async process(context, learner) {
+        let attempts = (learner.nhif?.attempts ?? 0) + 1;
+        try {
+            let { nhifNo, message } = await submitLearner(context, learner);
+
+            learner.nhifNo = Number(nhifNo);
+            learner.nhif = { attempts: attempts, submittedOn: new Date(), error: undefined };
+
+            return { message: message, result: { upi: learner.upi, nhifNo: nhifNo } };
+        } catch (err: any) {
+            // Failures are kept on the learner so they can be retried using POST /nemis/nhif?retry=true
+            learner.nhif = {
+                attempts: attempts,
+                submittedOn: new Date(),
+                error: err?.message || String(err)
+            };
+            throw err;
+        }
+    }
+};
+
+export { submitNhifProcessor };
@@ -0,0 +1,136 @@
+/*
+ * Copyright (c) 2023. MIT License. Maina Derrick.
+ */
+
+import mongoose from 'mongoose';
+import learnerModel from '@database/learner';
+import { GRADES } from './zod_validation';
+
+/**
+ * Issues a learner can be reported for. A learner is listed under every issue they have.
+ */
+const REPORT_ISSUES = {
+    // Joining learners not yet admitted on NEMIS, continuing learners don't need admission
+    notAdmitted: (learner: ReportLearner) => !learner.continuing && !learner.admitted,
+    notCaptured: (learner: ReportLearner) => !learner.upi,
+    missingNhif: (learner: ReportLearner) => !learner.nhifNo,
+    missingBirthCertificate: (learner: ReportLearner) => !learner.birthCertificateNo,
+    // Only joining learners are admitted using their index number
+    missingIndexNo: (learner: ReportLearner) => !learner.continuing && !learner.indexNo,
+    hasError: (learner: ReportLearner) => !!learner.error
+} as const;
+
+type ReportIssue = keyof typeof REPORT_ISSUES;
+
+// Learner fields included in a report
+const REPORT_FIELDS = [
+    'adm',
+    'name',
+    'gender',
+    'grade',
+    'stream',
+    'continuing',
+    'admitted',
+    'upi',
+    'indexNo',
+    'birthCertificateNo',
+    'nhifNo',
+    'error'
+] as const;
+
+type ReportLearner = {
+    _id: mongoose.Types.ObjectId;
+    continuing?: boolean;
+    admitted?: boolean;
+    upi?: string;
+    nhifNo?: number;
+    birthCertificateNo?: string;
+    indexNo?: string;
+    error?: string;
+    grade: (typeof GRADES)[number];
+    stream?: string;
+    [K: string]: any;
+};
+
+type ReportBuckets = { [K in ReportIssue]?: { count: number; learners: ReportLearner[] } };
+
+interface LearnerReport {
+    total: number;
+    summary: { [K in ReportIssue]?: number };
+    grades: {
+        grade: (typeof GRADES)[number];
+        stream: string | null;
+        total: number;
+        issues: ReportBuckets;
+    }[];
+}
+
+/**
+ * Group an institution's learners by grade and stream and list those with each of the requested
+ * issues. All issues are reported when none is requested.
+ */
+const learnerReport = async (
+    institutionId: mongoose.Types.ObjectId,
+    opts?: {
+        issues?: ReportIssue[];
+        grade?: (typeof GRADES)[number];
+        stream?: string;
+        // Learner fields to include, defaults to REPORT_FIELDS
+        select?: string;
+    }
+): Promise<LearnerReport> => {
+    let issues = opts?.issues?.length ? opts.issues : (Object.keys(REPORT_ISSUES) as ReportIssue[]);
+
+    let query = { institutionId: institutionId, archived: false };
+    if (opts?.grade) Object.assign(query, { grade: { $eq: opts.grade } });
+    if (opts?.stream) Object.assign(query, { stream: { $eq: opts.stream } });
+
+    let learners = (await learnerModel
+        .find(query)
+        .select(opts?.select ?? REPORT_FIELDS.join(' '))
+        .sort({ grade: 1, stream: 1, adm: 1 })
+        .lean()) as ReportLearner[];
+
+    let report: LearnerReport = {
+        total: learners.length,
+        summary: Object.fromEntries(issues.map(issue => [issue, 0])),
+        grades: []
+    };
+
+    for (const learner of learners) {
+        let stream = learner.stream || null;
+        let group = report.grades.find(x => x.grade === learner.grade && x.stream === stream);
+        if (!group) {
+            group = {
+                grade: learner.grade,
+                stream: stream,
+                total: 0,
+                issues: Object.fromEntries(
+                    issues.map(issue => [issue, { count: 0, learners: [] }])
+                )
+            };
+            report.grades.push(group);
+        }
+        group.total++;
+
+        issues.forEach(issue => {
+            if (!REPORT_ISSUES[issue](learner)) return;
+            group!.issues[issue]!.count++;
+            group!.issues[issue]!.learners.push(learner);
+            report.summary[issue]!++;
+        });
+    }
+
+    // Keep grades in the order they are taught
+    report.grades.sort(
+        (a, b) =>
+            GRADES.indexOf(a.grade) - GRADES.indexOf(b.grade) ||
+            (a.stream ?? '').localeCompare(b.stream ?? '')
+    );
+
+    return report;
+};
+
+export { learnerReport, REPORT_ISSUES, REPORT_FIELDS };
+
+export type { ReportIssue, LearnerReport };
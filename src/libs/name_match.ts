@@ -0,0 +1,159 @@
+/*
+ * Copyright (c) 2023. MIT License. Maina Derrick.
+ */
+
+// Least average similarity of the names that matched for two full names to belong to the same learner
+const NAME_MATCH_THRESHOLD = 0.8;
+
+// Score given to an initial matched to a name starting with the same letter eg. J and John
+const INITIAL_SCORE = 0.8;
+
+// Least edit distance similarity for two different names to be counted as a match
+const MIN_NAME_SIMILARITY = 0.75;
+
+/**
+ * Spellings of the same name commonly used interchangeably in Kenya, each group is matched to its
+ * first spelling. Spellings that only differ by doubled letters or ph/f don't need to be listed.
+ */
+const SPELLING_VARIANTS = [
+    ['mohamed', 'muhammad', 'mohammad', 'muhamed', 'mohamud', 'mahamed'],
+    ['abdi', 'abdy'],
+    ['ahmed', 'ahmad'],
+    ['hussein', 'husein', 'hussain', 'husain'],
+    ['ibrahim', 'ibrahimu'],
+    ['yusuf', 'yussuf', 'yusufu'],
+    ['joseph', 'josef'],
+    ['ann', 'anne', 'anna'],
+    ['catherine', 'cathrine', 'katherine', 'kathrine', 'catheline'],
+    ['elizabeth', 'elisabeth'],
+    ['stephen', 'steven', 'stephene'],
+    ['brian', 'bryan', 'brayan'],
+    ['cheruiyot', 'cheruyot'],
+    ['kiprotich', 'kiprotic'],
+    ['kipchirchir', 'kipchichir'],
+    ['chebet', 'chepet'],
+    ['jepkorir', 'chepkorir'],
+    ['ochieng', 'ochieg', 'ochien'],
+    ['odhiambo', 'odiambo', 'odhiyambo'],
+    ['otieno', 'otiyeno'],
+    ['onyango', 'onyago'],
+    ['achieng', 'achien', 'achieg'],
+    ['atieno', 'atiyeno'],
+    ['akinyi', 'akiny', 'akini'],
+    ['wanjiku', 'wanjiko', 'wanjikuu'],
+    ['wambui', 'wambuy'],
+    ['njeri', 'njery'],
+    ['wairimu', 'wairimo'],
+    ['nyambura', 'nyambra'],
+    ['njoroge', 'njorogee'],
+    ['kariuki', 'kariuky'],
+    ['wafula', 'wafla'],
+    ['nafula', 'nafla'],
+    ['wekesa', 'wekessa']
+];
+
+/**
+ * Reduce a name to a form that is the same for common spelling differences. Doubled letters are
+ * collapsed, ph is read as f and known spelling variants are replaced with a single spelling.
+ */
+const canonicalName = (name: string) => {
+    let simplified = name.replace(/ph/g, 'f').replace(/(.)\1+/g, '$1');
+    let variants = SPELLING_VARIANTS.find(group =>
+        group.some(x => x === name || x.replace(/ph/g, 'f').replace(/(.)\1+/g, '$1') === simplified)
+    );
+    return variants ? variants[0] : simplified;
+};
+
+// Lower case names without punctuation, split into single names eg. "O'Neil, John" to ["o'neil", "john"]
+const splitName = (name?: string) =>
+    (name ?? '')
+        .toLowerCase()
+        .replace(/[^a-z' ]+/g, ' ')
+        .split(' ')
+        .map(x => x.replace(/^'+|'+$/g, ''))
+        .filter(x => x);
+
+const editDistance = (a: string, b: string) => {
+    let previous = Array.from({ length: b.length + 1 }, (_, i) => i);
+    for (let i = 1; i <= a.length; i++) {
+        let current = [i];
+        for (let j = 1; j <= b.length; j++) {
+            current[j] = Math.min(
+                previous[j] + 1,
+                current[j - 1] + 1,
+                previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1)
+            );
+        }
+        previous = current;
+    }
+    return previous[b.length];
+};
+
+// Score between 0 and 1 of how alike two single names are
+const scoreSingleName = (a: string, b: string) => {
+    if (a === b) return 1;
+    // An initial eg. J for John
+    if (a.length === 1 || b.length === 1) return a[0] === b[0] ? INITIAL_SCORE : 0;
+
+    let canonicalA = canonicalName(a);
+    let canonicalB = canonicalName(b);
+    if (canonicalA === canonicalB) return 0.95;
+
+    let similarity =
+        1 - editDistance(canonicalA, canonicalB) / Math.max(canonicalA.length, canonicalB.length);
+    return similarity >= MIN_NAME_SIMILARITY ? similarity : 0;
+};
+
+/**
+ * Score how likely two full names belong to the same person, regardless of the order of the names.
+ * Each name is paired with the most similar name in the other full name, the score is the average
+ * similarity of the paired names with a small penalty for names that couldn't be paired.
+ * @returns score between 0 and 1, the number of names that matched and their average similarity
+ */
+const matchNames = (a?: string, b?: string) => {
+    let namesA = splitName(a);
+    let namesB = splitName(b);
+    if (namesA.length === 0 || namesB.length === 0) return { score: 0, matched: 0, similarity: 0 };
+
+    let pairs = namesA
+        .flatMap((x, i) => namesB.map((y, j) => ({ i, j, score: scoreSingleName(x, y) })))
+        .filter(x => x.score > 0)
+        .sort((x, y) => y.score - x.score);
+
+    let pairedA = new Set<number>();
+    let pairedB = new Set<number>();
+    let total = 0;
+    for (const pair of pairs) {
+        if (pairedA.has(pair.i) || pairedB.has(pair.j)) continue;
+        pairedA.add(pair.i);
+        pairedB.add(pair.j);
+        total += pair.score;
+    }
+
+    let fewer = Math.min(namesA.length, namesB.length);
+    let more = Math.max(namesA.length, namesB.length);
+    let score = (total / fewer) * (0.9 + (0.1 * fewer) / more);
+
+    return {
+        score: Math.round(score * 100) / 100,
+        matched: pairedA.size,
+        similarity: pairedA.size > 0 ? Math.round((total / pairedA.size) * 100) / 100 : 0
+    };
+};
+
+/**
+ * Whether two full names belong to the same person, at least two names have to match when both full
+ * names have more than one name. A differing third name is allowed since it is often left out or
+ * swapped for another.
+ */
+const isNameMatch = (a?: string, b?: string) => {
+    let { matched, similarity } = matchNames(a, b);
+    let required = Math.min(2, splitName(a).length, splitName(b).length);
+    return matched >= required && similarity >= NAME_MATCH_THRESHOLD;
+};
+
+// Score stored in the learner's nemisScore, a percentage of how closely the names match
+const nemisScore = (name?: string, nemisName?: string) =>
+    Math.round(matchNames(name, nemisName).score * 100);
+
+export { NAME_MATCH_THRESHOLD, editDistance, matchNames, isNameMatch, nemisScore };
@@ -0,0 +1,201 @@
+/*
+ * Copyright (c) 2023. MIT License. Maina Derrick.
+ */
+
+/**
+ * Record and replay of NEMIS website traffic. In record mode every request/response pair made through
+ * an attached axios instance is saved to a fixture file, in replay mode the same pairs are served back
+ * from the file without touching the network. Request bodies are kept in the fixture, and since every
+ * post carries the ASP.NET view state parsed from the previous response, a replayed request only
+ * matches when the view state was threaded through exactly as it was while recording.
+ *
+ * Set NEMIS_FIXTURE_MODE to `record` or `replay` and NEMIS_FIXTURE_PATH to the fixture file, or call
+ * nemisFixtures.use() before creating a NemisWebService instance.
+ */
+import { AxiosError, AxiosInstance, AxiosResponse, InternalAxiosRequestConfig } from 'axios';
+import { existsSync, mkdirSync, readFileSync, writeFileSync } from 'fs';
+import { dirname, resolve } from 'path';
+import qs from 'qs';
+import CustomError from '@libs/error_handler';
+import logger from '@libs/logger';
+
+type FixtureMode = 'record' | 'replay';
+
+interface FixtureInteraction {
+    request: {
+        method: string;
+        url: string;
+        body?: string;
+    };
+    response: {
+        status: number;
+        statusText: string;
+        headers: Record<string, any>;
+        // Path of the final page after redirects, used to detect redirects to the login page
+        path?: string;
+        data: any;
+    };
+}
+
+class NemisFixtures {
+    #mode: FixtureMode | undefined = undefined;
+    #path: string | undefined = undefined;
+    #interactions: FixtureInteraction[] = [];
+    // Index of replayed interactions, an interaction is only replayed once
+    #replayed = new Set<number>();
+    #configured = false;
+
+    /**
+     * Switch fixture mode. Recording starts a new fixture file while replaying loads an existing one.
+     * Passing no mode turns fixtures off and requests go to the live website.
+     */
+    use(mode?: FixtureMode, path?: string) {
+        this.#configured = true;
+        this.#mode = mode;
+        this.#path = resolve(path || 'fixtures/nemis.json');
+        this.#interactions = [];
+        this.#replayed.clear();
+
+        if (mode === 'replay') {
+            if (!existsSync(this.#path)) {
+                throw new CustomError(`Fixture file ${this.#path} does not exist.`, 500);
+            }
+            this.#interactions = JSON.parse(readFileSync(this.#path, 'utf-8'))?.interactions ?? [];
+        }
+        if (mode) logger.info(`NEMIS fixtures in ${mode} mode using ${this.#path}`);
+    }
+
+    /**
+     * Attach fixtures to an axios instance. Must be called before any other response interceptor is
+     * added so that recorded responses are the raw responses returned by NEMIS.
+     */
+    attach(axiosInstance: AxiosInstance) {
+        this.#configure();
+
+        if (this.#mode === 'record') {
+            axiosInstance.interceptors.response.use(
+                response => {
+                    this.#record(response);
+                    return response;
+                },
+                err => {
+                    if (err?.response) this.#record(err.response);
+                    return Promise.reject(err);
+                }
+            );
+        }
+
+        if (this.#mode === 'replay') {
+            axiosInstance.defaults.adapter = config => this.#replay(config);
+        }
+    }
+
+    #configure() {
+        if (this.#configured) return;
+        let mode = process.env.NEMIS_FIXTURE_MODE;
+        if (mode && mode !== 'record' && mode !== 'replay') {
+            throw new CustomError('NEMIS_FIXTURE_MODE must be either record or replay.', 500);
+        }
+        this.use(mode as FixtureMode | undefined, process.env.NEMIS_FIXTURE_PATH);
+    }
+
+    #record(response: AxiosResponse) {
+        let config = response.config;
+
+        this.#interactions.push({
+            request: {
+                method: (config.method || 'get').toLowerCase(),
+                url: config.url || '/',
+                body: this.#normalizeBody(config.data)
+            },
+            response: {
+                status: response.status,
+                statusText: response.statusText,
+                headers: this.#redactHeaders({ ...response.headers }),
+                path: response.request?.path,
+                data: response.data
+            }
+        });
+
+        let path = this.#path as string;
+        mkdirSync(dirname(path), { recursive: true });
+        writeFileSync(
+            path,
+            JSON.stringify(
+                { recordedAt: new Date().toISOString(), interactions: this.#interactions },
+                null,
+                2
+            )
+        );
+    }
+
+    async #replay(config: InternalAxiosRequestConfig): Promise<AxiosResponse> {
+        let method = (config.method || 'get').toLowerCase(),
+            url = config.url || '/',
+            body = this.#normalizeBody(config.data);
+
+        let index = this.#interactions.findIndex(
+            (x, i) =>
+                !this.#replayed.has(i) &&
+                x.request.method === method &&
+                x.request.url === url &&
+                x.request.body === body
+        );
+
+        if (index === -1) {
+            logger.error(`No recorded NEMIS response for ${method.toUpperCase()} ${url}`);
+            throw new CustomError(
+                `No recorded NEMIS response for ${method.toUpperCase()} ${url}. Record the fixture again.`,
+                500
+            );
+        }
+        this.#replayed.add(index);
+
+        let recorded = this.#interactions[index].response;
+        let response: AxiosResponse = {
+            status: recorded.status,
+            statusText: recorded.statusText,
+            headers: recorded.headers,
+            config: config,
+            request: { path: recorded.path },
+            data: recorded.data
+        };
+
+        let validateStatus = config.validateStatus;
+        if (!validateStatus || validateStatus(response.status)) return response;
+
+        throw new AxiosError(
+            'Request failed with status code ' + response.status,
+            response.status < 500 ? AxiosError.ERR_BAD_REQUEST : AxiosError.ERR_BAD_RESPONSE,
+            config,
+            response.request,
+            response
+        );
+    }
+
+    // Passwords are never written to fixtures, replayed requests are redacted the same way before matching
+    #normalizeBody(data: any): string | undefined {
+        if (typeof data !== 'string' || !data) return undefined;
+
+        let parsed = qs.parse(data);
+        let redacted = false;
+        for (const key of Object.keys(parsed)) {
+            if (/password/i.test(key)) {
+                parsed[key] = 'redacted';
+                redacted = true;
+            }
+        }
+        return redacted ? qs.stringify(parsed) : data;
+    }
+
+    #redactHeaders(headers: Record<string, any>) {
+        if (headers['set-cookie']) {
+            headers['set-cookie'] = ([] as string[])
+                .concat(headers['set-cookie'])
+                .map(cookie => cookie.replace(/^([^=]+)=[^;]*/, '$1=fixture'));
+        }
+        return headers;
+    }
+}
+
+export default new NemisFixtures();
@@ -0,0 +1,85 @@
+/*
+ * Copyright (c) 2023. MIT License. Maina Derrick.
+ */
+
+/**
+ * Caps how many NEMIS operations run at the same time for an institution. Bulk operations such as
+ * capturing continuing learners or listing every grade go through the limiter so that NEMIS isn't
+ * flooded with posts from a single institution, which trips its rate limits.
+ *
+ * NEMIS_CONCURRENCY sets the default limit, 2 by default. A different limit can be used per call, up
+ * to NEMIS_MAX_CONCURRENCY, 5 by default.
+ */
+import logger from '@libs/logger';
+
+interface InstitutionSlots {
+    running: number;
+    // Callers waiting for a running operation to finish
+    waiting: (() => void)[];
+}
+
+class NemisLimiter {
+    #institutions = new Map<string, InstitutionSlots>();
+    readonly defaultLimit = Number(process.env.NEMIS_CONCURRENCY) || 2;
+    readonly maxLimit = Math.max(Number(process.env.NEMIS_MAX_CONCURRENCY) || 5, this.defaultLimit);
+
+    /**
+     * Limit to use for an operation, falling back to the default when no limit was requested.
+     */
+    limit(requested?: number) {
+        if (!requested || requested < 1) return this.defaultLimit;
+        return Math.min(Math.floor(requested), this.maxLimit);
+    }
+
+    /**
+     * Run callback once fewer than limit operations are running for the institution.
+     */
+    async run<T>(institution: string, callback: () => Promise<T>, limit?: number): Promise<T> {
+        let slots = this.#slots(institution);
+        let maxRunning = this.limit(limit);
+
+        while (slots.running >= maxRunning) {
+            await new Promise<void>(resolve => slots.waiting.push(resolve));
+        }
+
+        slots.running++;
+        try {
+            return await callback();
+        } finally {
+            slots.running--;
+            // Wake everyone up, each waiter checks the limit it was called with
+            slots.waiting.splice(0).forEach(resolve => resolve());
+        }
+    }
+
+    /**
+     * Call callback for every item while keeping to the institution's limit. Results are returned in
+     * the same order as items, the same way Promise.allSettled does.
+     */
+    map<T, R>(
+        institution: string,
+        items: T[],
+        callback: (item: T, index: number) => Promise<R>,
+        limit?: number
+    ): Promise<PromiseSettledResult<R>[]> {
+        logger.debug(
+            `Running ${items.length} NEMIS operation(s) for ${institution}, ${this.limit(
+                limit
+            )} at a time`
+        );
+        return Promise.allSettled(
+            items.map((item, index) => this.run(institution, () => callback(item, index), limit))
+        );
+    }
+
+    #slots(institution: string) {
+        let slots = this.#institutions.get(institution);
+        if (!slots) {
+            slots = { running: 0, waiting: [] };
+            this.#institutions.set(institution, slots);
+        }
+        return slots;
+    }
+}
+
+export default new NemisLimiter();
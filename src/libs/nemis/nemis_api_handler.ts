@@ -9,6 +9,7 @@ import CustomError from '@libs/error_handler';
 import axios, { AxiosError } from 'axios';
 import { lowerCaseAllValues } from '@libs/converts';
 import { admissionApiResponseSchema, searchLearnerSchema } from './validations';
+import nemisResilience from './resilience';
 
 export default class  {
     private axiosInstance;
@@ -16,8 +17,9 @@ export default class  {
 
     constructor() {
         this.axiosInstance = axios.create({
-            baseURL: 'http://nemis.education.go.ke/generic2' // https is not supported
+            baseURL: process.env.NEMIS_API_URL || 'http://nemis.education.go.ke/generic2' // https is not supported
         });
+        nemisResilience.attach(this.axiosInstance, 'api');
 
         this.axiosInstance.defaults.headers.common['User-Agent'] = this.userAgent;
 
@@ -33,7 +35,7 @@ export default class  {
             let schoolDashboard = (await this.axiosInstance.get('/api/SchDashboard/' + encodeURIComponent(code))).data;
             return { schoolDashboard: schoolDashboard };
         } catch (err) {
-            throw new CustomError('Failed to get homepage apis. Try again later.', 500);
+            throw new CustomError('Failed to get homepage apis. Try again later.', 500, err);
         }
     }
 
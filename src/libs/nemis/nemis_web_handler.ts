@@ -8,24 +8,23 @@
 import axios, { AxiosError, AxiosInstance } from "axios";
 import {
     AdmissionApiResults,
-    AdmitApiCall,
     ApprovedLearner,
     CaptureBiodataResponse,
     CompleteDatabaseLearner,
     CompleteLearner,
     ContinuingLearnerApiResponse,
-    ContinuingLearnerType,
+    DeferredLearner,
     Grades,
     Institution,
     ListAdmittedLearner,
     ListLearner,
-    NemisLearnerFromDb,
     RequestedJoiningLearner,
     RequestingJoiningLearner,
     RequestingLearner,
     SchoolSelected,
     SelectedLearner,
-    StateObject
+    StateObject,
+    TransferRequest
 } from "types/nemisApiTypes";
 import { cwd } from "node:process";
 import logger from "@libs/logger";
@@ -39,6 +38,8 @@ import { countyToNo, form, medicalConditionCode, nationalities, splitNames } fro
 import buffer from "buffer";
 import FormData from "form-data";
 import NemisApiService from "./nemis_api_handler";
+import nemisFixtures from "./fixtures";
+import nemisResilience from "./resilience";
 import { Tabletojson as tableToJson } from "tabletojson";
 
 type ParentContact = {
@@ -80,9 +81,13 @@ class NemisWebService {
     private readonly axiosInstance: AxiosInstance;
 
     constructor(cookie?: string, stateObject?: StateObject) {
-        this.axiosInstance = axios.create({
-            baseURL: 'http://nemis.education.go.ke' // https is not supported
-        });
+        let baseURL = process.env.NEMIS_WEB_URL || 'http://nemis.education.go.ke'; // https is not supported
+        this.axiosInstance = axios.create({ baseURL: baseURL });
+        // Host header has to match the base url for redirects to be followed to the same server
+        this.#SECURE_HEADERS.host = new URL(baseURL).host;
+        nemisResilience.attach(this.axiosInstance, 'web');
+        // Fixtures first so that recorded responses are untouched by our own interceptors
+        nemisFixtures.attach(this.axiosInstance);
         this.#setupAxiosInterceptors();
         if (cookie) this.#cookie = cookie;
         if (stateObject) this.#stateObject = stateObject;
@@ -92,6 +97,10 @@ class NemisWebService {
         return this.#stateObject;
     }
 
+    getCookie(): string | undefined {
+        return this.#cookie;
+    }
+
     /**
      * Logs in the user with the given username and password.
      * @returns {Promise<string>} - A promise that resolves with the user's session cookie if the login is successful.
@@ -261,6 +270,8 @@ class NemisWebService {
                 .convert(listLearnerTable?.outerHTML || '')
                 .flat()
                 .filter(e => !!e['No.']);
+            // A grade with no learners only has the table header
+            if (listLearnerJson.length === 0) return [];
             // do_postback doesn't match indexNo of each element, so we find the difference and
             // use it to generate the correct post_backs
             let firstViewElement = listLearnerTable.querySelector('tr.GridRow > td:nth-child(13) > a')?.id;
@@ -442,23 +453,76 @@ class NemisWebService {
         }
     }
 
-    async admitDefferedLearner(defferedLearner: NemisLearnerFromDb) {
+    /**
+     * Learners selected to the institution whose admission was deferred, listed on
+     * /Learner/differedadmissions.aspx. They can not be admitted from /Learner/Studindex.aspx.
+     */
+    async getDeferredLearners(): Promise<DeferredLearner[]> {
         try {
-            let differedTableHtml = htmlParser.parse(await this.axiosInstance.get('/Learner/differedadmissions.aspx'))?.outerHTML;
-            if (!defferedLearner)
-                throw {
-                    message: "Couldn't parse defffered learner_router table.",
-                    cause: 'defferedLearnerHtml is undefined'
-                };
-            return tableToJson.convert(differedTableHtml).map(x => {
-                console.log(x);
-            });
+            let deferredTable = htmlParser((await this.changeResultsPerPage('/Learner/differedadmissions.aspx'))?.data)?.querySelector(
+                '#ctl00_ContentPlaceHolder1_grdLearners'
+            )?.outerHTML;
+            if (!deferredTable) return [];
+            return <DeferredLearner[]>tableToJson
+                .convert(deferredTable, { stripHtmlFromCells: false })
+                ?.flat()
+                ?.map((x, i) => {
+                    if (!x['Index'] || x['Index'] === '&nbsp;') return;
+                    return {
+                        no: i + 1,
+                        indexNo: String(x['Index']).trim(),
+                        name: String(x['Name'])?.toLowerCase(),
+                        gender: String(x['Gender'])?.toLowerCase(),
+                        yob: Number(x['Year of Birth']),
+                        marks: Number(x['Marks']),
+                        subCounty: String(x['Sub-County'])?.toLowerCase(),
+                        admitCallback: x[6]?.match(/Admit\$\d+/)?.[0]
+                    };
+                })
+                ?.filter(x => x);
+        } catch (err) {
+            throw err;
+        }
+    }
+
+    /**
+     * Admit a learner whose admission was deferred using the admission number given, the learner is
+     * then listed with other admitted learners awaiting bio-data capture.
+     */
+    async admitDefferedLearner(defferedLearner: { indexNo: string; adm: string }): Promise<boolean> {
+        try {
+            let deferredLearner = (await this.getDeferredLearners()).find(x => x.indexNo === defferedLearner.indexNo?.trim());
+            if (!deferredLearner) {
+                throw new CustomError(
+                    `Learner with index number ${defferedLearner.indexNo} is not listed among deferred admissions.`,
+                    404,
+                    'not_found'
+                );
+            }
+            if (!deferredLearner.admitCallback) {
+                throw new CustomError('Failed to get the admit post-back of the deferred learner.', 500);
+            }
+            let postResponse = await this.axiosInstance.post(
+                '/Learner/differedadmissions.aspx',
+                qs.stringify({
+                    ...this.#stateObject,
+                    __EVENTTARGET: 'ctl00$ContentPlaceHolder1$grdLearners',
+                    __EVENTARGUMENT: deferredLearner.admitCallback,
+                    ctl00$ContentPlaceHolder1$txtAdmNo: defferedLearner.adm,
+                    ctl00$ContentPlaceHolder1$SelectRecs: this.recordsPerPage
+                })
+            );
+            let message = htmlParser(postResponse?.data)?.querySelector('#ctl00_ContentPlaceHolder1_ErrorMessage')?.innerText?.trim();
+            if (!message || !/THE STUDENT HAS BEEN ADMITTED TO THE SCHOOL/i.test(message)) {
+                throw new CustomError('Admitting deferred learner failed with error: ' + (message || 'No error message was returned.'), 500);
+            }
+            return true;
         } catch (err) {
             throw err;
         }
     }
 
-    async requestJoiningLearner(indexNo: string, requestingLearner: RequestingJoiningLearner & AdmitApiCall) {
+    async requestJoiningLearner(indexNo: string, requestingLearner: RequestingJoiningLearner & AdmissionApiResults) {
         try {
             const studentIndexDocument = htmlParser((await this.axiosInstance.get('/Learner/Studindex.aspx'))?.data);
             let canAdmit = studentIndexDocument.querySelector('#txtCanAdmt')?.attrs?.value !== '0';
@@ -485,13 +549,12 @@ class NemisWebService {
                         ctl00$ContentPlaceHolder1$txtReq: 1,
                         ctl00$ContentPlaceHolder1$txtSName: requestingLearner?.schoolAdmitted?.originalString,
                         ctl00$ContentPlaceHolder1$txtSName2: requestingLearner?.schoolAdmitted?.originalString,
-                        ctl00$ContentPlaceHolder1$txtSchool: requestingLearner?.schoolSelected?.code,
+                        ctl00$ContentPlaceHolder1$txtSchool: requestingLearner?.selectedSchool?.knecCode,
                         ctl00$ContentPlaceHolder1$txtSearch: requestingLearner?.indexNo,
                         ctl00$ContentPlaceHolder1$txtStatus: ''
                     })
                 })
             )?.data;
-            await writeFileSync(process.cwd() + '/debug/html/search.html', postHtml);
             if (!/^.+pageRedirect.+Learner.+fStudindexreq/gi.test(postHtml)) {
                 let viewstateAtob = buffer.atob(this.#stateObject?.__VIEWSTATE || '');
                 if (viewstateAtob && /School Vacacies are exhausted!!/.test(viewstateAtob))
@@ -538,7 +601,13 @@ class NemisWebService {
         }
     }
 
-    async transferIn(learner: CompleteDatabaseLearner): Promise<boolean> {
+    /**
+     * Request a learner admitted at another institution to be transferred in. The learner stays at the other
+     * institution until they are released, see getTransferRequests.
+     * @param learner Learner with a upi or birth certificate number
+     * @param opts NEMIS reason code, 1 by default, and remarks sent with the request
+     */
+    async transferIn(learner: Pick<CompleteDatabaseLearner, 'upi' | 'birthCertificateNo'>, opts?: { reason?: string; remarks?: string }): Promise<boolean> {
         try {
             await this.axiosInstance.get('/Learner/StudReceive.aspx');
             // Send check to receive results that will allow use to capture transfer
@@ -546,9 +615,9 @@ class NemisWebService {
                 '/Learner/StudReceive.aspx',
                 qs.stringify({
                     ...this.#stateObject,
-                    ctl00$ContentPlaceHolder1$DrpReason: '1',
+                    ctl00$ContentPlaceHolder1$DrpReason: opts?.reason || '1',
                     ctl00$ContentPlaceHolder1$SearchCmd: 'CHECK',
-                    ctl00$ContentPlaceHolder1$txtRemark: '',
+                    ctl00$ContentPlaceHolder1$txtRemark: opts?.remarks || '',
                     ctl00$ContentPlaceHolder1$txtSearch: learner.upi || learner.birthCertificateNo
                 })
             );
@@ -559,8 +628,8 @@ class NemisWebService {
                 qs.stringify({
                     ...this.#stateObject,
                     ctl00$ContentPlaceHolder1$BtnAdmit: '[ SAVE ]',
-                    ctl00$ContentPlaceHolder1$DrpReason: '1',
-                    ctl00$ContentPlaceHolder1$txtRemark: '',
+                    ctl00$ContentPlaceHolder1$DrpReason: opts?.reason || '1',
+                    ctl00$ContentPlaceHolder1$txtRemark: opts?.remarks || '',
                     ctl00$ContentPlaceHolder1$txtSearch: learner.upi || learner.birthCertificateNo
                 })
             );
@@ -577,6 +646,78 @@ class NemisWebService {
         }
     }
 
+    /**
+     * Lists transfer requests by scraping /Learner/Listtransfersin.aspx, learners this institution requested to
+     * transfer in, or /Learner/Listtransfersout.aspx, learners other institutions requested to transfer out of this
+     * institution.
+     */
+    async getTransferRequests(method: 'in' | 'out'): Promise<TransferRequest[]> {
+        try {
+            let transferTable = htmlParser(
+                (await this.changeResultsPerPage(method === 'in' ? '/Learner/Listtransfersin.aspx' : '/Learner/Listtransfersout.aspx'))?.data
+            )?.querySelector('#ctl00_ContentPlaceHolder1_grdLearners')?.outerHTML;
+            if (!transferTable) return [];
+            return tableToJson
+                .convert(transferTable, { stripHtmlFromCells: false })
+                ?.flat()
+                .filter(x => x['UPI'] && x['UPI'] !== '&nbsp;')
+                .map((x, i) => {
+                    let status = htmlParser(x['Status'] ?? '').innerText.trim().toLowerCase();
+                    return {
+                        no: i + 1,
+                        upi: htmlParser(x['UPI']).innerText.trim().toLowerCase(),
+                        name: htmlParser(x['Student Name'] ?? '').innerText.trim().toLowerCase(),
+                        gender: htmlParser(x['Gender'] ?? '').innerText.trim().toLowerCase(),
+                        grade: htmlParser(x['Class'] ?? '').innerText.trim().toLowerCase(),
+                        institution: {
+                            code: htmlParser(x['Institution Code'] ?? '').innerText.trim(),
+                            name: htmlParser(x['Institution Name'] ?? '').innerText.trim().toLowerCase()
+                        },
+                        reason: htmlParser(x['Reason'] ?? '').innerText.trim().toLowerCase() || undefined,
+                        remarks: htmlParser(x['Remarks'] ?? '').innerText.replace('&nbsp;', '').trim() || undefined,
+                        requestedOn: htmlParser(x['Date Requested'] ?? '').innerText.trim() || undefined,
+                        status: status === 'released' ? 'released' : 'pending',
+                        releaseCallback: x['Action']?.match(/Release\$\d+/)?.[0]
+                    };
+                });
+        } catch (err) {
+            throw err;
+        }
+    }
+
+    /**
+     * Release a learner another institution requested to transfer in, found using their upi on
+     * /Learner/Listtransfersout.aspx.
+     * @returns The released transfer request
+     */
+    async releaseLearner(upi: string): Promise<TransferRequest> {
+        try {
+            let transferRequest = (await this.getTransferRequests('out')).find(x => x.upi.toLowerCase() === upi.trim().toLowerCase());
+            if (!transferRequest) {
+                throw new CustomError(`No transfer out request was found for learner with UPI: ${upi}`, 404, 'not_found');
+            }
+            if (!transferRequest.releaseCallback) {
+                throw new CustomError(`Learner with UPI: ${upi} was already released to ${transferRequest.institution.name}`, 400);
+            }
+            let postResponse = await this.axiosInstance.post(
+                '/Learner/Listtransfersout.aspx',
+                qs.stringify({
+                    ...this.#stateObject,
+                    __EVENTTARGET: 'ctl00$ContentPlaceHolder1$grdLearners',
+                    __EVENTARGUMENT: transferRequest.releaseCallback,
+                    ctl00$ContentPlaceHolder1$SelectRecs: this.recordsPerPage
+                })
+            );
+            let message = htmlParser(postResponse?.data)?.querySelector('#ctl00_ContentPlaceHolder1_ErrorMessage')?.innerText?.trim();
+            if (message !== 'Learner Released Successfully') {
+                throw new CustomError('Releasing learner failed with error: ' + (message || 'No error message was returned.'), 500);
+            }
+            return { ...transferRequest, status: 'released', releaseCallback: undefined };
+        } catch (err) {
+            throw err;
+        }
+    }
+
     async getRequestedJoiningLearners() {
         try {
             let requestedJoiningLearnerTable = htmlParser((await this.changeResultsPerPage('/Learner/Liststudreq.aspx'))?.data)?.querySelector(
@@ -671,6 +812,42 @@ class NemisWebService {
         }
     }
 
+    /**
+     * Delete a joining request that is yet to be approved, found using the learner's index number on
+     * /Learner/Liststudreq.aspx.
+     * @returns The deleted joining request
+     */
+    async cancelJoiningRequest(indexNo: string): Promise<RequestedJoiningLearner> {
+        try {
+            let joiningRequest = (await this.getRequestedJoiningLearners()).find(x => x.indexNo === indexNo.trim());
+            if (!joiningRequest) {
+                throw new CustomError(`No joining request was found for learner with index number ${indexNo}`, 404, 'not_found');
+            }
+            if (!joiningRequest.deleteCallback) {
+                throw new CustomError(`Joining request for ${joiningRequest.name} was approved on ${joiningRequest.approved?.on} and can not be cancelled`, 400);
+            }
+            let postResponse = await this.axiosInstance.post(
+                '/Learner/Liststudreq.aspx',
+                qs.stringify({
+                    ...this.#stateObject,
+                    // The callback is sometimes matched from the element's id rather than its post-back
+                    __EVENTTARGET: joiningRequest.deleteCallback.replaceAll('_', '$'),
+                    __EVENTARGUMENT: '',
+                    ctl00$ContentPlaceHolder1$SelectRecs: this.recordsPerPage
+                })
+            );
+            // NEMIS doesn't always show a message after deleting, confirm the request is no longer listed
+            if ((await this.getRequestedJoiningLearners()).find(x => x.indexNo === joiningRequest!.indexNo)) {
+                let message = htmlParser(postResponse?.data)?.querySelector('#ctl00_ContentPlaceHolder1_ErrorMessage')?.innerText?.trim();
+                throw new CustomError('Cancelling joining request failed with error: ' + (message || 'No error message was returned.'), 500);
+            }
+            let { deleteCallback, ...cancelledRequest } = joiningRequest;
+            return cancelledRequest;
+        } catch (err) {
+            throw err;
+        }
+    }
+
     async getDates() {
         return await this.axiosInstance.get('/generic/api/formone/admissiondates').catch(err => {
             Promise.reject(err);
@@ -719,7 +896,8 @@ class NemisWebService {
     }
 
     async requestContinuingLearners(
-        requestingLearner: ContinuingLearnerType & {
+        requestingLearner: CompleteLearner & {
+            remarks?: string;
             apiResults?: ContinuingLearnerApiResponse;
         }
     ) {
@@ -788,7 +966,7 @@ class NemisWebService {
                         remarks: String(x['Remark'])?.toLowerCase()
                     };
                 })
-                .filter(x => x.adm === requestingLearner.adm && x.birthCertificateNo === requestingLearner.birthCertificateNo);
+                .filter(x => x.adm === requestingLearner.adm && x.birthCertificateNo === requestingLearner.birthCertificateNo?.toLowerCase());
             if (requestedLearner.length !== 1) {
                 throw {
                     message: 'Error requesting learner_router',
@@ -1078,7 +1256,7 @@ class NemisWebService {
     }
 
     //submit to NHIF
-    async submitToNhif(grade: Grades, learnersWithoutNhif: ListLearner[]) {
+    async submitToNhif(grade: Grades, learnersWithoutNhif: ListLearner[]): Promise<(ListLearner & { message?: string; error?: string })[]> {
         try {
             if (!learnersWithoutNhif) {
                 throw {
@@ -1167,37 +1345,48 @@ class NemisWebService {
                 if (!successMessage) return Promise.reject('Failed to get nhif number since successMessageElement is' + ' empty');
 
                 if (successMessage.startsWith('The remote server returned an error:')) return Promise.reject(successMessage);
-                let parsedReturnObject = {
-                    nhifNo: successMessage.match(/\d.+/g)?.shift()?.trim(),
-                    message: successMessage.replace(/&times;\W|\d+/g, '')?.trim(),
-                    alertHtml: successMessageElement?.outerHTML
-                };
-                if (!parsedReturnObject.nhifNo)
+                let nhifNo = successMessage.match(/\d.+/g)?.shift()?.trim();
+                if (!nhifNo)
                     throw {
                         message: "Failed to get nhif number since successMessage doesn't contain a" + ' number',
                         cause: "Couldn't find nhif number on the returned page"
                     };
-                return parsedReturnObject;
+                return {
+                    nhifNo: nhifNo,
+                    message: successMessage.replace(/&times;\W|\d+/g, '')?.trim(),
+                    alertHtml: successMessageElement?.outerHTML
+                };
             };
-            //await postNhif(learnersWithoutNhif[10]);
-            let submitNhifPromise = <
-                PromiseSettledResult<{
-                    nhifNo: string;
-                    alertHtml: string | undefined;
-                    message: string;
-                }>[]
-            >await Promise.allSettled(learnersWithoutNhif.map(x => postNhif(x)));
-            return submitNhifPromise
-                .map((x, i) => {
-                    if (x.status === 'fulfilled') {
-                        return {
-                            ...learnersWithoutNhif[i],
-                            nhifNo: x.value?.nhifNo,
-                            message: x.value?.message
+            // Viewing a learner posts back to the list page using its view state, but submitting leaves the view state of
+            // Learner/Alearner.aspx. The grade is listed again before each learner for the list's view state and post back
+            let submitNhifPromise: PromiseSettledResult<Awaited<ReturnType<typeof postNhif>>>[] = [];
+            for (const learnerWithoutNhif of learnersWithoutNhif) {
+                try {
+                    let listedLearner = (await this.listLearners(grade)).find(x => x.upi === learnerWithoutNhif.upi);
+                    if (!listedLearner) {
+                        throw {
+                            message: `Learner with UPI ${learnerWithoutNhif.upi} is no longer listed in ${grade}.`
                         };
                     }
-                })
-                .filter(x => x);
+                    submitNhifPromise.push({ status: 'fulfilled', value: await postNhif(listedLearner) });
+                } catch (err) {
+                    submitNhifPromise.push({ status: 'rejected', reason: err });
+                }
+            }
+            // Failed learners are returned with the error NEMIS returned so that they can be retried
+            return submitNhifPromise.map((x, i) => {
+                if (x.status === 'fulfilled') {
+                    return {
+                        ...learnersWithoutNhif[i],
+                        nhifNo: x.value?.nhifNo,
+                        message: x.value?.message
+                    };
+                }
+                return {
+                    ...learnersWithoutNhif[i],
+                    error: <string>(typeof x.reason === 'string' ? x.reason : x.reason?.message || 'Submitting to NHIF failed with an unknown error')
+                };
+            });
         } catch (err) {
             throw err;
         }
@@ -1364,9 +1553,9 @@ class NemisWebService {
                     message: "Couldn't parse table element."
                 };
             let firstTableElement = tableToJson.convert(table, { stripHtml: false })?.flat()?.shift();
-            if (!firstTableElement) return getResponse;
-            if (typeof firstTableElement !== 'object') return getResponse;
-            let numberOfPages = Object.entries(firstTableElement)
+            // An empty list learner table could be for a different grade, so we still check the selected grade
+            if (typeof firstTableElement !== 'object' && url !== '/Learner/Listlearners.aspx') return getResponse;
+            let numberOfPages = Object.entries(firstTableElement ?? {})
                 ?.map(x => {
                     if (typeof x[1] === 'string') {
                         return x[1].match(/__doPostBack\('ctl00\$ContentPlaceHolder1\$grdLearners','Page\$\d+'\)/g);
@@ -1422,17 +1611,7 @@ class NemisWebService {
                     })
                 };
                 if (url === '/Admission/Listlearnersrep.aspx') {
-                    Object.assign(config, {
-                        headers: {
-                            DNT: '1',
-                            'Upgrade-Insecure-Requests': '1',
-                            'Content-Type': 'application/x-www-form-urlencoded',
-                            'User-Agent':
-                                'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/113.0.0.0 Safari/537.36',
-                            Accept: 'text/html,application/xhtml+xml,application/xml;q=0.9,image/avif,image/webp,image/apng,*/*;q=0.8,application/signed-exchange;v=b3;q=0.7',
-                            host: 'nemis.education.go.ke'
-                        }
-                    });
+                    Object.assign(config, { headers: this.#SECURE_HEADERS });
                 }
                 await this.axiosInstance(config);
             }
@@ -1494,7 +1673,7 @@ class NemisWebService {
                             'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/100.0.4896.127 Safari/537.36',
                         'Content-Type': 'application/x-www-form-urlencoded; charset=UTF-8',
                         Accept: '*/*',
-                        host: 'nemis.education.go.ke'
+                        host: this.#SECURE_HEADERS.host
                     });
                 if (this.#cookie) Object.assign(config.headers, { cookie: this.#cookie });
                 return config;
@@ -1516,7 +1695,7 @@ class NemisWebService {
                         response.status = 401;
                         response.statusText = 'Unauthorized';
 
-                        return Promise.reject(new CustomError('Invalid cookie. Got redirected to login page.', 401));
+                        return Promise.reject(new CustomError('Invalid cookie. Got redirected to login page.', 401, 'session_expired'));
                     }
 
                     if (response.data) this.#setViewState(response?.data); // Set view state
@@ -1556,7 +1735,7 @@ class NemisWebService {
                             err.type = err.code;
                             break;
                     }
-                    return err;
+                    return Promise.reject(err);
                 }
 
                 //handle no ENOTFOUND
@@ -0,0 +1,163 @@
+/*
+ * Copyright (c) 2023. MIT License. Maina Derrick.
+ */
+
+/**
+ * Retries, timeouts and a circuit breaker for requests made to NEMIS. It wraps the axios adapter of
+ * NemisWebService and NemisApiService so that every attempt is made below their interceptors, which
+ * only get to see the final response or error.
+ *
+ * Failed requests are retried with exponential backoff when NEMIS timed out, could not be reached or
+ * answered with a 502, 503 or 504. Posts are only retried when the request never reached NEMIS since
+ * posting the same form twice could, for example, admit a learner twice. Once NEMIS fails
+ * NEMIS_BREAKER_THRESHOLD requests in a row, the circuit opens and requests fail fast with a 503 until
+ * NEMIS_BREAKER_RESET has elapsed, after which a single request is let through to test the waters.
+ *
+ * NEMIS_TIMEOUT (2m), NEMIS_RETRIES (3), NEMIS_RETRY_DELAY (1s), NEMIS_BREAKER_THRESHOLD (5) and
+ * NEMIS_BREAKER_RESET (30s) can be set in the environment.
+ */
+import axios, { AxiosError, AxiosInstance, AxiosResponse, InternalAxiosRequestConfig } from 'axios';
+import ms from 'ms';
+import CustomError from '@libs/error_handler';
+import logger from '@libs/logger';
+
+type BreakerState = 'closed' | 'open' | 'half-open';
+
+interface CircuitBreaker {
+    state: BreakerState;
+    failures: number;
+    openedAt: number;
+}
+
+// Errors where the request never reached NEMIS, safe to retry for any method
+const NOT_SENT_CODES = ['ECONNREFUSED', 'ENOTFOUND', 'EAI_AGAIN'];
+const NETWORK_CODES = [...NOT_SENT_CODES, 'ECONNRESET', 'ECONNABORTED', 'ETIMEDOUT', 'EPIPE'];
+const RETRY_STATUS = [502, 503, 504];
+
+const sleep = (delay: number) => new Promise(resolve => setTimeout(resolve, delay));
+
+// NEMIS is down if it didn't answer or answered with a gateway error, any other response means it is up
+const isNemisDown = (err: any) =>
+    err instanceof AxiosError &&
+    (err.response ? RETRY_STATUS.includes(err.response.status) : NETWORK_CODES.includes(err.code!));
+
+/**
+ * Walks the cause chain of an error looking for the error thrown when the circuit is open or NEMIS
+ * could not be reached. Errors thrown by NemisWebService are at times wrapped by the caller.
+ */
+const isNemisUnavailable = (err: any, depth = 0): boolean => {
+    if (!err || depth > 3) return false;
+    if (err instanceof CustomError && err.cause === 'nemis_unavailable') return true;
+    if (isNemisDown(err)) return true;
+    return isNemisUnavailable(err.cause, depth + 1);
+};
+
+class NemisResilience {
+    #breakers = new Map<string, CircuitBreaker>();
+    #timeout = ms(process.env.NEMIS_TIMEOUT || '2m');
+    #retries = Number(process.env.NEMIS_RETRIES ?? 3);
+    #retryDelay = ms(process.env.NEMIS_RETRY_DELAY || '1s');
+    #threshold = Number(process.env.NEMIS_BREAKER_THRESHOLD) || 5;
+    #resetAfter = ms(process.env.NEMIS_BREAKER_RESET || '30s');
+
+    /**
+     * Wrap the adapter of an axios instance. Instances attached using the same name share a circuit
+     * breaker. Should be attached before fixtures so that replayed responses are not retried.
+     */
+    attach(axiosInstance: AxiosInstance, name: string) {
+        let adapter = axios.getAdapter(axiosInstance.defaults.adapter);
+
+        axiosInstance.defaults.timeout = this.#timeout;
+        axiosInstance.defaults.adapter = config => this.#request(name, config, adapter);
+    }
+
+    async #request(
+        name: string,
+        config: InternalAxiosRequestConfig,
+        adapter: (config: InternalAxiosRequestConfig) => Promise<AxiosResponse>
+    ): Promise<AxiosResponse> {
+        this.#allowRequest(name);
+
+        for (let attempt = 0; ; attempt++) {
+            try {
+                let response = await adapter(config);
+                this.#onSuccess(name);
+                return response;
+            } catch (err) {
+                if (!isNemisDown(err)) {
+                    this.#onSuccess(name);
+                    throw err;
+                }
+                if (attempt >= this.#retries || !this.#canRetry(config, err as AxiosError)) {
+                    this.#onFailure(name);
+                    throw err;
+                }
+
+                // Exponential backoff with some jitter so that parallel requests don't retry in step
+                let delay = this.#retryDelay * 2 ** attempt * (0.5 + Math.random() / 2);
+                logger.debug(
+                    `NEMIS ${config.method?.toUpperCase()} ${config.url} failed with ${
+                        (err as AxiosError).response?.status ?? (err as AxiosError).code
+                    }, retrying in ${ms(Math.round(delay))}`
+                );
+                await sleep(delay);
+            }
+        }
+    }
+
+    #canRetry(config: InternalAxiosRequestConfig, err: AxiosError) {
+        // Multipart forms are streamed and can't be sent again
+        if (config.data && typeof config.data !== 'string' && !Buffer.isBuffer(config.data)) {
+            return false;
+        }
+        if (!config.method || config.method.toLowerCase() === 'get') return true;
+        return !err.response && NOT_SENT_CODES.includes(err.code!);
+    }
+
+    #breaker(name: string) {
+        let breaker = this.#breakers.get(name);
+        if (!breaker) {
+            breaker = { state: 'closed', failures: 0, openedAt: 0 };
+            this.#breakers.set(name, breaker);
+        }
+        return breaker;
+    }
+
+    #allowRequest(name: string) {
+        let breaker = this.#breaker(name);
+        if (breaker.state === 'closed') return;
+
+        let retryIn = breaker.openedAt + this.#resetAfter - Date.now();
+        // Only one request is let through while half open
+        if (breaker.state === 'open' && retryIn <= 0) {
+            breaker.state = 'half-open';
+            return;
+        }
+        throw new CustomError(
+            `NEMIS is currently unavailable. Try again in ${ms(Math.max(retryIn, 1000))}.`,
+            503,
+            'nemis_unavailable'
+        );
+    }
+
+    #onSuccess(name: string) {
+        let breaker = this.#breaker(name);
+        if (breaker.state !== 'closed') logger.info(`NEMIS ${name} is reachable again`);
+        breaker.state = 'closed';
+        breaker.failures = 0;
+    }
+
+    #onFailure(name: string) {
+        let breaker = this.#breaker(name);
+        breaker.failures++;
+        if (breaker.state === 'half-open' || breaker.failures >= this.#threshold) {
+            if (breaker.state !== 'open') logger.warn(`NEMIS ${name} is unreachable, failing fast`);
+            breaker.state = 'open';
+            breaker.openedAt = Date.now();
+        }
+    }
+}
+
+export default new NemisResilience();
+
+export { isNemisUnavailable };
@@ -0,0 +1,174 @@
+/*
+ * Copyright (c) 2023. MIT License. Maina Derrick.
+ */
+
+/**
+ * Logged-in NEMIS sessions kept per institution so that cookies are reused instead of logging in for
+ * every grade or learner. A session is leased to one caller at a time since NEMIS ties view state, such
+ * as the grade selected on the list learners page, to the session. Sessions that NEMIS has expired are
+ * detected from the redirect to the login page and logged in again transparently. The caller is only
+ * run again if it hadn't started changing data on NEMIS, so that nothing is posted twice.
+ *
+ * NEMIS_MAX_SESSIONS caps the number of sessions per institution, 3 by default, and NEMIS_SESSION_TTL
+ * sets how long an idle session is kept, 15m by default.
+ */
+import ms from 'ms';
+import mongoose from 'mongoose';
+import { auditNemis, NEMIS_ACTIONS } from '@libs/audit';
+import CustomError from '@libs/error_handler';
+import logger from '@libs/logger';
+import { StateObject } from 'types/nemisApiTypes';
+import { NemisWebService } from './nemis_web_handler';
+
+interface NemisSession {
+    cookie: string;
+    state?: StateObject;
+    busy: boolean;
+    lastUsed: number;
+}
+
+interface InstitutionSessions {
+    password: string;
+    sessions: NemisSession[];
+    // Callers waiting for a session to be released
+    waiting: (() => void)[];
+}
+
+// Institutions are passed as credentials, their _id is used to audit actions taken on NEMIS
+type NemisCredentials = { username: string; password: string; _id?: mongoose.Types.ObjectId };
+
+// Errors thrown by NemisWebService methods are at times wrapped, so we check the cause too
+const isSessionExpired = (err: any, depth = 0): boolean => {
+    if (!err || depth > 3) return false;
+    if (err instanceof CustomError && err.cause === 'session_expired') return true;
+    return isSessionExpired(err.cause, depth + 1);
+};
+
+// Call onAction before any NemisWebService method that changes data on NEMIS is called
+const trackActions = (nemis: NemisWebService, onAction: () => void) =>
+    new Proxy(nemis, {
+        get(target, property) {
+            let value = Reflect.get(target, property, target);
+            if (typeof value !== 'function' || !NEMIS_ACTIONS.includes(String(property))) {
+                return value;
+            }
+            return (...args: unknown[]) => {
+                onAction();
+                return value(...args);
+            };
+        }
+    });
+
+class NemisSessionPool {
+    #institutions = new Map<string, InstitutionSessions>();
+    #maxSessions = Number(process.env.NEMIS_MAX_SESSIONS) || 3;
+    #sessionTtl = ms(process.env.NEMIS_SESSION_TTL || '15m');
+
+    /**
+     * Lease a logged-in session for the institution and call callback with it. If the session has
+     * expired before callback changed any data on NEMIS, callback is called once more with a new
+     * session. Otherwise the error is thrown, since a post might have gone through before it expired.
+     */
+    async withSession<T>(
+        credentials: NemisCredentials,
+        callback: (nemis: NemisWebService) => Promise<T>
+    ): Promise<T> {
+        let session = await this.#acquire(credentials);
+        let nemis = new NemisWebService(session.cookie, session.state);
+        let loggedOut = false;
+        let changedData = false;
+
+        try {
+            return await callback(
+                trackActions(auditNemis(nemis, credentials._id), () => (changedData = true))
+            );
+        } catch (err) {
+            if (!isSessionExpired(err)) throw err;
+            if (changedData) {
+                // The expired session is dropped, the next caller logs in again
+                loggedOut = true;
+                throw new CustomError(
+                    'NEMIS session expired while changing data on NEMIS. Check NEMIS before trying again, part of the changes might have been saved.',
+                    500
+                );
+            }
+
+            logger.debug(`NEMIS session for ${credentials.username} expired, logging in again`);
+            try {
+                await this.#login(credentials, session);
+            } catch (err) {
+                loggedOut = true;
+                throw err;
+            }
+            nemis = new NemisWebService(session.cookie, session.state);
+
+            return await callback(auditNemis(nemis, credentials._id));
+        } finally {
+            session.cookie = nemis.getCookie() || session.cookie;
+            session.state = nemis.getState();
+            this.#release(credentials, session, loggedOut);
+        }
+    }
+
+    #pool(credentials: NemisCredentials) {
+        let key = credentials.username.toLowerCase();
+        let pool = this.#institutions.get(key);
+
+        // Sessions logged in using an old password are dropped
+        if (!pool || pool.password !== credentials.password) {
+            pool = { password: credentials.password, sessions: [], waiting: pool?.waiting ?? [] };
+            this.#institutions.set(key, pool);
+        }
+        return pool;
+    }
+
+    async #acquire(credentials: NemisCredentials): Promise<NemisSession> {
+        let pool = this.#pool(credentials);
+
+        // Drop idle sessions NEMIS has most likely expired
+        pool.sessions = pool.sessions.filter(
+            x => x.busy || Date.now() - x.lastUsed < this.#sessionTtl
+        );
+
+        let idle = pool.sessions.find(x => !x.busy);
+        if (idle) {
+            idle.busy = true;
+            return idle;
+        }
+
+        if (pool.sessions.length < this.#maxSessions) {
+            let session: NemisSession = { cookie: '', busy: true, lastUsed: Date.now() };
+            pool.sessions.push(session);
+            try {
+                await this.#login(credentials, session);
+            } catch (err) {
+                this.#release(credentials, session, true);
+                throw err;
+            }
+            return session;
+        }
+
+        // Wait for a session to be released then try again
+        await new Promise<void>(resolve => pool.waiting.push(resolve));
+        return this.#acquire(credentials);
+    }
+
+    async #login(credentials: NemisCredentials, session: NemisSession) {
+        let nemis = new NemisWebService();
+        session.cookie = await nemis.login(credentials.username, credentials.password);
+        session.state = nemis.getState();
+        session.lastUsed = Date.now();
+    }
+
+    #release(credentials: NemisCredentials, session: NemisSession, remove = false) {
+        let pool = this.#pool(credentials);
+
+        session.busy = false;
+        session.lastUsed = Date.now();
+        if (remove) pool.sessions = pool.sessions.filter(x => x !== session);
+
+        pool.waiting.shift()?.();
+    }
+}
+
+export default new NemisSessionPool();
@@ -202,6 +202,8 @@ const admissionSchema = resultsSchema.and(
 			category2: zod.string().toLowerCase().trim().optional()
 		})
 		.transform(res => ({
+			// NEMIS spells deferred admissions as differed, such learners are admitted from /Learner/differedadmissions.aspx
+			deferred: /defer|differ/.test(res.method ?? ''),
 			schoolAdmitted: {
 				method: res.method,
 				originalString: res.schooladmitted,
@@ -302,7 +304,13 @@ const listLearnerSchema = zod
 		}),
 		AGE: zod.coerce.number(),
 		'Birth Cert No': zod.string().trim().toLowerCase(),
-		Disability: zod.coerce.boolean(),
+		// NEMIS shows Yes for learners with a disability and No, or nothing, for the rest
+		Disability: zod
+			.string()
+			.trim()
+			.toLowerCase()
+			.optional()
+			.transform(x => x === 'yes' || x === 'true'),
 		'Medical Condition': zod.string().trim().toLowerCase(),
 		'Home Phone': zod.string().trim().toLowerCase(),
 		'NHIF No': zod.string()
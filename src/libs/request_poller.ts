@@ -0,0 +1,216 @@
+/*
+ * Copyright (c) 2023. MIT License. Maina Derrick.
+ */
+
+import mongoose from 'mongoose';
+import ms from 'ms';
+import learnerModel from '@database/learner';
+import continuingLearnerModel from '@database/continuing_learner';
+import institutionModel from '@database/institution';
+import { runAs } from '@libs/audit';
+import jobQueue from '@libs/jobs';
+import logger from '@libs/logger';
+import nemisSessions from '@libs/nemis/session_pool';
+import { ApprovedLearner, DatabaseInstitution, RequestingLearner } from 'types/nemisApiTypes';
+
+/**
+ * Checks NEMIS for joining and continuing learner requests approved since they were made. Approvals
+ * are recorded and newly approved learners are queued for admission, or bio-data capture for
+ * continuing learners.
+ * Institutions with pending requests are checked every REQUEST_POLL_INTERVAL, 30m by default, a
+ * value of 0 turns polling off leaving approvals to be checked when requests are listed.
+ */
+class RequestPoller {
+    #interval = ms(process.env.REQUEST_POLL_INTERVAL || '30m');
+    #timer?: NodeJS.Timeout;
+    #polling = false;
+
+    start() {
+        if (this.#timer || !(this.#interval > 0)) return;
+        this.#timer = setInterval(
+            () => runAs({ source: 'poller' }, () => this.poll()),
+            this.#interval
+        );
+        // Don't keep the process alive just to poll
+        this.#timer.unref();
+    }
+
+    async poll() {
+        if (this.#polling) return;
+        this.#polling = true;
+        try {
+            let joining: mongoose.Types.ObjectId[] = await learnerModel.distinct('institutionId', {
+                'joiningRequest.status': 'pending',
+                archived: false
+            });
+            let continuing: mongoose.Types.ObjectId[] = await continuingLearnerModel.distinct(
+                'institutionId',
+                { status: 'pending' }
+            );
+
+            let institutionIds = [...joining, ...continuing].filter(
+                (id, i, ids) => ids.findIndex(x => x.equals(id)) === i
+            );
+            for (const institutionId of institutionIds) {
+                // findById runs the findOne hook which decrypts the institution's password
+                let institution = (await institutionModel.findById(
+                    institutionId
+                )) as DatabaseInstitution | null;
+                if (!institution || institution.isArchived) continue;
+
+                if (joining.some(x => x.equals(institutionId))) {
+                    await this.checkJoining(institution).catch(err =>
+                        logger.warn(
+                            `Checking joining requests of ${institution!.code} failed: ${
+                                err?.message
+                            }`
+                        )
+                    );
+                }
+                if (continuing.some(x => x.equals(institutionId))) {
+                    await this.checkContinuing(institution).catch(err =>
+                        logger.warn(
+                            `Checking continuing requests of ${institution!.code} failed: ${
+                                err?.message
+                            }`
+                        )
+                    );
+                }
+            }
+        } catch (err) {
+            logger.error(err);
+        } finally {
+            this.#polling = false;
+        }
+    }
+
+    // List approved joining requests on NEMIS and record them
+    async checkJoining(
+        institution: DatabaseInstitution,
+        opts?: { tokenId?: mongoose.Types.ObjectId }
+    ) {
+        let approved = await nemisSessions.withSession(institution, nemis =>
+            nemis.getApprovedJoiningLearners()
+        );
+        return {
+            approved: approved,
+            job: await this.recordJoiningApprovals(institution, approved, opts)
+        };
+    }
+
+    /**
+     * Mark learners whose joining request was approved and queue the admission of those that were not
+     * approved before, learners whose admission failed are left to be admitted using /nemis/admit.
+     * @returns The admission job, if any learner was queued
+     */
+    async recordJoiningApprovals(
+        institution: DatabaseInstitution,
+        approved: ApprovedLearner[],
+        opts?: { tokenId?: mongoose.Types.ObjectId }
+    ) {
+        if (approved.length === 0) return;
+
+        let learners = await learnerModel.find({
+            institutionId: institution._id,
+            indexNo: { $in: approved.map(x => x.indexNo) },
+            continuing: false,
+            archived: false
+        });
+
+        let newlyApproved = learners.filter(x => x.joiningRequest?.status !== 'approved');
+        for (const learner of learners) {
+            let approval = approved.find(x => x.indexNo === learner.indexNo);
+            learner.set({
+                'joiningRequest.status': 'approved',
+                'joiningRequest.approved': {
+                    by: approval?.approved?.by,
+                    on: approval?.approved?.on
+                }
+            });
+            await learner.save();
+        }
+
+        let toAdmit = newlyApproved.filter(x => !x.admitted);
+        if (toAdmit.length === 0) return;
+
+        logger.info(
+            `Queueing admission of ${toAdmit.length} approved joining learner(s) for ${institution.code}`
+        );
+        return jobQueue.enqueue(
+            'admitJoining',
+            institution._id,
+            toAdmit.map(x => x._id),
+            { tokenId: opts?.tokenId }
+        );
+    }
+
+    // List approved continuing learner requests on NEMIS and record them
+    async checkContinuing(
+        institution: DatabaseInstitution,
+        opts?: { tokenId?: mongoose.Types.ObjectId }
+    ) {
+        let approved = await nemisSessions.withSession(institution, nemis =>
+            nemis.getPendingContinuingLearners()
+        );
+        return {
+            approved: approved,
+            job: await this.recordContinuingApprovals(institution, approved, opts)
+        };
+    }
+
+    /**
+     * Mark pending continuing learner requests that were approved and queue the bio-data capture of
+     * their learners, learners whose capture failed are left to be captured using /nemis/capture.
+     * @returns The capture job, if any learner was queued
+     */
+    async recordContinuingApprovals(
+        institution: DatabaseInstitution,
+        approved: RequestingLearner[],
+        opts?: { tokenId?: mongoose.Types.ObjectId }
+    ) {
+        if (approved.length === 0) return;
+
+        let requests = await continuingLearnerModel.find({
+            institutionId: institution._id,
+            status: 'pending'
+        });
+
+        let newlyApproved = [];
+        for (const request of requests) {
+            // NEMIS lists birth certificate numbers in lower case
+            let approval = approved.find(
+                x => x.birthCertificateNo === request.birthCertificateNo?.toLowerCase()
+            );
+            if (!approval) continue;
+
+            Object.assign(request, {
+                status: 'approved',
+                approvedOn: new Date(),
+                postback: approval.postback,
+                upi: approval.upi || undefined
+            });
+            newlyApproved.push(await request.save());
+        }
+
+        let toCapture = await learnerModel
+            .find({
+                _id: { $in: newlyApproved.map(x => x.learnerId) },
+                upi: { $in: [null, undefined, ''] },
+                archived: false
+            })
+            .select('_id');
+        if (toCapture.length === 0) return;
+
+        logger.info(
+            `Queueing capture of ${toCapture.length} approved continuing learner(s) for ${institution.code}`
+        );
+        return jobQueue.enqueue(
+            'captureRequested',
+            institution._id,
+            toCapture.map(x => x._id),
+            { tokenId: opts?.tokenId }
+        );
+    }
+}
+
+export default new RequestPoller();
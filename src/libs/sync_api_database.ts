@@ -2,28 +2,87 @@
  * Copyright (c) 2023. MIT License. Maina Derrick.
  */
 
+import mongoose from "mongoose";
 import { DatabaseInstitution, ListLearner } from "types/nemisApiTypes";
-import { NemisWebService } from "@libs/nemis/nemis_web_handler";
+import nemisSessions from "@libs/nemis/session_pool";
+import nemisLimiter from "@libs/nemis/limiter";
+import CustomError from "@libs/error_handler";
+import { isNameMatch, nemisScore } from "@libs/name_match";
 import { GRADES } from "./zod_validation";
 import learner from "@database/learner";
+import syncRunModel from "@database/sync_run";
 
-const sync = async (institution: DatabaseInstitution) => {
+type SyncRun = InstanceType<typeof syncRunModel>;
+
+/**
+ * Record a sync run before it starts so that its progress can be checked at /learner/sync/history/:id.
+ * Only one sync runs at a time for each institution.
+ */
+const createSyncRun = async (
+    institution: DatabaseInstitution,
+    opts?: { trigger?: "schedule" | "manual"; tokenId?: mongoose.Types.ObjectId }
+) => {
+    return syncRunModel
+        .create({
+            institutionId: institution._id,
+            trigger: opts?.trigger ?? "manual",
+            tokenId: opts?.tokenId,
+            status: "running",
+            startedAt: new Date()
+        })
+        .catch(async err => {
+            // A unique index allows only one running sync per institution
+            if (err?.code !== 11000) throw err;
+            let running = await syncRunModel.findOne({
+                institutionId: institution._id,
+                status: "running"
+            });
+            throw new CustomError(
+                `A sync started at ${running?.startedAt?.toISOString()} is still running. Check its progress at /learner/sync/history/${
+                    running?._id
+                }`,
+                409,
+                { syncRunId: running?._id }
+            );
+        });
+};
+
+/**
+ * Match learners in the database without a UPI to learners listed on NEMIS using their birth certificate
+ * numbers. Grades that fail to list and learners that fail to save are recorded in the sync run, the run
+ * fails if nothing could be listed.
+ * @returns The completed sync run
+ */
+const sync = async (institution: DatabaseInstitution, run?: SyncRun) => {
+    let syncRun = run ?? (await createSyncRun(institution));
     try {
         // List all learners
-        let listAllLearners = await Promise.all(
-            // Use a new instance of NemisWebService to avoid state conflict
-            institution.supportedGrades.map((grade): Promise<ListLearner[]> => {
-                // Nemis state is tied to the cookie returned, so we log in for each grade  to have separate states for each
-                return new Promise(async (resolve, reject) => {
-                    try {
-                        let nemis = new NemisWebService();
-                        await nemis.login(institution.username, institution.password);
-                        resolve(await nemis.listLearners(grade));
-                    } catch (err) {
-                        reject(err);
-                    }
-                });
-            })
+        // Nemis state is tied to the session, each grade is listed using a separate session from the pool
+        let listAllLearners = (
+            await nemisLimiter.map(institution._id.toString(), institution.supportedGrades, grade =>
+                nemisSessions.withSession(institution, nemis => nemis.listLearners(grade))
+            )
+        ).map((x, i) => {
+            if (x.status === "fulfilled") return x.value;
+            syncRun.failures.push({
+                grade: institution.supportedGrades[i],
+                message: x.reason?.message || "Failed to list learners"
+            });
+            return [] as ListLearner[];
+        });
+
+        if (
+            institution.supportedGrades.length > 0 &&
+            syncRun.failures.length === institution.supportedGrades.length
+        ) {
+            throw new CustomError(
+                "Failed to list learners of all supported grades from NEMIS.",
+                500
+            );
+        }
+        syncRun.set(
+            "learners.listed",
+            listAllLearners.reduce((total, x) => total + x.length, 0)
         );
 
         // Map list learner to an easy-to-use object
@@ -55,6 +114,11 @@ const sync = async (institution: DatabaseInstitution) => {
             )
         );
 
+        syncRun.set(
+            "learners.checked",
+            databaseLearner.reduce((total, x) => total + x.length, 0)
+        );
+
         // Map database learner to an easy-to-use object
         let mappedDatabaseLearner = {} as {
             [K in (typeof GRADES)[number]]: (typeof databaseLearner)[number];
@@ -90,11 +154,20 @@ const sync = async (institution: DatabaseInstitution) => {
                         return false;
                     });
                     if (filteredLearner.length === 1) {
+                        // A wrongly entered birth certificate number could belong to another learner
+                        if (!isNameMatch(learner.name, filteredLearner[0].name)) {
+                            syncRun.failures.push({
+                                adm: learner.adm,
+                                message: `Birth certificate number is used by ${filteredLearner[0].name}, UPI ${filteredLearner[0].upi}, whose name doesn't match.`
+                            });
+                            return;
+                        }
                         Object.assign(learner, {
                             upi: filteredLearner[0].upi,
                             reported: true,
                             admitted: true,
                             nhifNo: filteredLearner[0].nhifNo,
+                            nemisScore: nemisScore(learner.name, filteredLearner[0].name),
                             error: undefined
                         });
                         updatedLearner.push(learner);
@@ -104,12 +177,27 @@ const sync = async (institution: DatabaseInstitution) => {
             });
         }
 
-        await Promise.all(updatedLearner.map(x => x.save()));
+        let saved = await Promise.allSettled(updatedLearner.map(x => x.save()));
+        saved.forEach((x, i) => {
+            if (x.status === "rejected") {
+                syncRun.failures.push({
+                    adm: updatedLearner[i].adm,
+                    message: x.reason?.message || "Failed to save learner"
+                });
+            }
+        });
+        syncRun.set("learners.updated", saved.filter(x => x.status === "fulfilled").length);
+        syncRun.status = "completed";
 
-        console.debug('local database has been synced');
-    } catch (err) {
-        console.warn(err);
+        return syncRun;
+    } catch (err: any) {
+        syncRun.status = "failed";
+        syncRun.failures.push({ message: err?.message || String(err) });
+        throw err;
+    } finally {
+        syncRun.finishedAt = new Date();
+        await syncRun.save();
     }
 };
 
-export { sync };
+export { createSyncRun, sync };
@@ -0,0 +1,160 @@
+/*
+ * Copyright (c) 2023. MIT License. Maina Derrick.
+ */
+
+import learnerModel from '@database/learner';
+import CustomError from '@libs/error_handler';
+import { matchNames } from '@libs/name_match';
+import nemisLimiter from '@libs/nemis/limiter';
+import nemisSessions from '@libs/nemis/session_pool';
+import { DatabaseInstitution, Grades, ListLearner } from 'types/nemisApiTypes';
+
+type DatabaseLearner = InstanceType<typeof learnerModel>;
+
+export interface FieldMismatch {
+    field: 'name' | 'dob' | 'gender' | 'grade';
+    local?: string;
+    nemis?: string;
+    // How closely the names match, only set for names
+    score?: number;
+}
+
+// NEMIS uses m/f or male/female depending on the page
+const normalizeGender = (gender?: string) => gender?.trim().toLowerCase().charAt(0);
+
+// List learner dates are parsed as mm-dd-yyyy, database dates are compared using the server's time zone
+const formatDob = (dob?: Date) =>
+    dob && !isNaN(dob.getTime())
+        ? [
+              String(dob.getMonth() + 1).padStart(2, '0'),
+              String(dob.getDate()).padStart(2, '0'),
+              dob.getFullYear()
+          ].join('-')
+        : undefined;
+
+// Convert a mm-dd-yyyy list learner date of birth to the YYYY/MM/DD format expected by the importer
+const parseListDob = (dob?: string) => {
+    let [month, day, year] = (dob ?? '').split('-');
+    if (!month || !day || !year) return;
+    return [year, month, day].join('/');
+};
+
+const compareFields = (local: DatabaseLearner, nemis: ListLearner) => {
+    let mismatches: FieldMismatch[] = [];
+    // Names in a different order or case are the same
+    let { score } = matchNames(local.name, nemis.name);
+    if (score < 1) {
+        mismatches.push({ field: 'name', local: local.name, nemis: nemis.name, score: score });
+    }
+    let localDob = formatDob(local.dob);
+    if (localDob !== nemis.dob) {
+        mismatches.push({ field: 'dob', local: localDob, nemis: nemis.dob });
+    }
+    if (normalizeGender(local.gender) !== normalizeGender(nemis.gender)) {
+        mismatches.push({ field: 'gender', local: local.gender, nemis: nemis.gender });
+    }
+    if (local.grade !== nemis.grade) {
+        mismatches.push({ field: 'grade', local: local.grade, nemis: nemis.grade });
+    }
+    return mismatches;
+};
+
+/**
+ * Compare learners in the database with learners captured on NEMIS for every supported grade. Learners
+ * are matched using their UPI, then their birth certificate number.
+ * Database learners in grades that failed to list are left out of onlyLocal since they can't be compared.
+ */
+const diffDatabase = async (institution: DatabaseInstitution) => {
+    let grades = institution.supportedGrades as Grades[];
+
+    // Nemis state is tied to the session, each grade is listed using a separate session from the pool
+    let listed = await nemisLimiter.map(institution._id.toString(), grades, grade =>
+        nemisSessions.withSession(institution, nemis => nemis.listLearners(grade))
+    );
+
+    let failedGrades: { grade: Grades; message: string }[] = [];
+    let nemisLearners: ListLearner[] = [];
+    listed.forEach((x, i) => {
+        if (x.status === 'fulfilled') {
+            nemisLearners.push(...x.value.map(y => ({ ...y, grade: grades[i] })));
+        } else {
+            failedGrades.push({
+                grade: grades[i],
+                message: x.reason?.message || 'Failed to list learners'
+            });
+        }
+    });
+    if (grades.length > 0 && failedGrades.length === grades.length) {
+        throw new CustomError(
+            'Failed to list learners of all supported grades from NEMIS.',
+            500,
+            failedGrades
+        );
+    }
+
+    let localLearners = await learnerModel
+        .find({ institutionId: institution._id, archived: false })
+        .sort({ grade: 1, adm: 1 });
+
+    let unmatched = new Set(nemisLearners);
+    let byUpi = new Map(nemisLearners.map(x => [x.upi, x]));
+    let byBirthCertificateNo = new Map(nemisLearners.map(x => [x.birthCertificateNo, x]));
+    // A NEMIS learner is matched to one database learner at most
+    let takeMatch = (map: Map<string, ListLearner>, key: string) => {
+        let nemisLearner = map.get(key);
+        if (!nemisLearner || !unmatched.has(nemisLearner)) return;
+        unmatched.delete(nemisLearner);
+        return nemisLearner;
+    };
+
+    let onlyLocal = [];
+    let mismatched = [];
+    let matched = 0;
+
+    for (const local of localLearners) {
+        let upi = local.upi?.toLowerCase();
+        let birthCertificateNo = local.birthCertificateNo?.toLowerCase();
+
+        let matchedBy: 'upi' | 'birthCertificateNo' = 'upi';
+        let nemisLearner = upi ? takeMatch(byUpi, upi) : undefined;
+        if (!nemisLearner && birthCertificateNo) {
+            matchedBy = 'birthCertificateNo';
+            nemisLearner = takeMatch(byBirthCertificateNo, birthCertificateNo);
+        }
+
+        if (!nemisLearner) {
+            if (failedGrades.some(x => x.grade === local.grade)) continue;
+            onlyLocal.push({
+                _id: local._id,
+                adm: local.adm,
+                name: local.name,
+                grade: local.grade,
+                upi: local.upi,
+                birthCertificateNo: local.birthCertificateNo
+            });
+            continue;
+        }
+
+        matched++;
+        let fields = compareFields(local, nemisLearner);
+        if (fields.length > 0) {
+            mismatched.push({
+                _id: local._id,
+                adm: local.adm,
+                upi: nemisLearner.upi,
+                matchedBy: matchedBy,
+                fields: fields
+            });
+        }
+    }
+
+    return {
+        failedGrades: failedGrades,
+        matched: matched,
+        onlyNemis: [...unmatched].map(({ doPostback, ...x }) => x),
+        onlyLocal: onlyLocal,
+        mismatched: mismatched
+    };
+};
+
+export { diffDatabase, parseListDob };
@@ -0,0 +1,94 @@
+/*
+ * Copyright (c) 2023. MIT License. Maina Derrick.
+ */
+
+import ms from 'ms';
+import institutionModel from '@database/institution';
+import syncRunModel from '@database/sync_run';
+import { runAs } from '@libs/audit';
+import logger from '@libs/logger';
+import { createSyncRun, sync } from '@libs/sync_api_database';
+import { DatabaseInstitution } from 'types/nemisApiTypes';
+
+/**
+ * Syncs the database of each institution that isn't archived with NEMIS every SYNC_INTERVAL, 24h by
+ * default. Manual syncs count, an institution is only synced when its last sync started more than
+ * SYNC_INTERVAL ago. A value of 0 turns scheduled syncs off.
+ */
+class SyncScheduler {
+    #interval = ms(process.env.SYNC_INTERVAL || '24h');
+    // Institutions are checked for a due sync more often than they are synced
+    #checkInterval = Math.min(this.#interval, ms('10m'));
+    #timer?: NodeJS.Timeout;
+    #checking = false;
+
+    async start() {
+        // Runs left running when the server stopped will never finish
+        let interrupted = await syncRunModel.updateMany(
+            { status: 'running' },
+            {
+                status: 'failed',
+                finishedAt: new Date(),
+                $push: { failures: { message: 'Sync was interrupted by a server restart.' } }
+            }
+        );
+        if (interrupted.modifiedCount > 0) {
+            logger.warn(`Marked ${interrupted.modifiedCount} interrupted sync run(s) as failed`);
+        }
+
+        if (this.#timer || !(this.#interval > 0)) return;
+        this.#timer = setInterval(
+            () => runAs({ source: 'schedule' }, () => this.check()),
+            this.#checkInterval
+        );
+        // Don't keep the process alive just to sync
+        this.#timer.unref();
+    }
+
+    async check() {
+        if (this.#checking) return;
+        this.#checking = true;
+        try {
+            let institutions = await institutionModel
+                .find({ isArchived: { $ne: true } })
+                .select('_id');
+
+            for (const { _id } of institutions) {
+                let lastRun = await syncRunModel
+                    .findOne({ institutionId: _id })
+                    .sort({ startedAt: -1 })
+                    .select('status startedAt');
+                if (lastRun?.status === 'running') continue;
+                if (lastRun && Date.now() - lastRun.startedAt.getTime() < this.#interval) continue;
+
+                // findById runs the findOne hook which decrypts the institution's password
+                let institution = (await institutionModel.findById(
+                    _id
+                )) as DatabaseInstitution | null;
+                if (!institution) continue;
+
+                await this.syncInstitution(institution);
+            }
+        } catch (err) {
+            logger.error(err);
+        } finally {
+            this.#checking = false;
+        }
+    }
+
+    async syncInstitution(institution: DatabaseInstitution) {
+        try {
+            let run = await sync(
+                institution,
+                await createSyncRun(institution, { trigger: 'schedule' })
+            );
+            logger.info(
+                `Synced ${institution.code}, ${run.learners?.updated ?? 0} learner(s) updated`
+            );
+        } catch (err: any) {
+            logger.warn(`Scheduled sync of ${institution.code} failed: ${err?.message}`);
+        }
+    }
+}
+
+export default new SyncScheduler();
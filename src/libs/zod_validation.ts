@@ -152,7 +152,8 @@ let completeLearnerSchema = z.object({
     upi: z.string().trim().min(4).optional(),
     gender: z.string().transform((value, ctx) => {
         switch (value) {
-            case 'male' || 'female':
+            case 'male':
+            case 'female':
                 break;
             case 'm':
                 value = 'male';
@@ -185,7 +186,11 @@ let completeLearnerSchema = z.object({
     subCounty: z.string().trim().optional(),
     birthCertificateNo: z.union([z.undefined(), z.coerce.string().trim()]),
     medicalCondition: medicalConditionSchema,
-    isSpecial: z.boolean().default(false),
+    // Csv files hold booleans as text
+    isSpecial: z.preprocess(
+        value => (value === 'true' ? true : value === 'false' ? false : value),
+        z.boolean().default(false)
+    ),
     marks: z.union([z.undefined(), z.coerce.number().min(0).max(500)]),
     indexNo: z.union([
         z.undefined(),
@@ -213,6 +218,7 @@ export {
     NATIONALITY,
     MEDICAL_CONDITIONS,
     GRADES,
+    GENDER,
     gradesSchema,
     genderSchema,
     nationalitiesSchema,
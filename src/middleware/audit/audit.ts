@@ -0,0 +1,79 @@
+/*
+ * Copyright (c) 2023. MIT License. Maina Derrick.
+ */
+
+import { Request } from 'express';
+import mongoose from 'mongoose';
+import { z } from 'zod';
+import auditModel from '@database/audit';
+import learnerModel from '@database/learner';
+import { sendErrorMessage } from '@middleware/utils/middleware_error_handler';
+
+const objectIdSchema = z
+    .string()
+    .trim()
+    .refine(x => mongoose.isValidObjectId(x), 'Expected a valid id.');
+
+const auditQuerySchema = z.object({
+    // An action eg. learner.update, or a model or nemis to get all its actions
+    action: z.string().trim().min(1).optional(),
+    model: z.string().trim().min(1).optional(),
+    targetId: objectIdSchema.optional(),
+    adm: z.string().trim().min(1).optional(),
+    source: z.enum(['request', 'job', 'schedule', 'poller', 'system']).optional(),
+    tokenId: objectIdSchema.optional(),
+    userId: objectIdSchema.optional(),
+    apiKeyId: objectIdSchema.optional(),
+    jobId: objectIdSchema.optional(),
+    from: z.coerce.date().optional(),
+    to: z.coerce.date().optional(),
+    limit: z.coerce.number().int().min(1).max(500).default(50)
+});
+
+const escapeRegex = (x: string) => x.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+const listAuditEntries = async (req: Request) => {
+    try {
+        let query = auditQuerySchema.parse(req.query);
+
+        let targetIds = query.targetId ? [query.targetId] : [];
+        if (query.adm) {
+            // Archived learners keep their adm, they are part of the learner's history
+            let learners = await learnerModel
+                .find({ institutionId: req.institution._id, adm: query.adm })
+                .select('_id');
+            targetIds.push(...learners.map(x => x._id.toString()));
+        }
+
+        let entries = await auditModel
+            .find({
+                institutionId: req.institution._id,
+                ...(query.action && {
+                    action: query.action.includes('.')
+                        ? query.action
+                        : new RegExp('^' + escapeRegex(query.action) + '\\.')
+                }),
+                ...(query.model && { 'target.model': query.model }),
+                ...((query.targetId || query.adm) && { 'target.ids': { $in: targetIds } }),
+                ...(query.source && { 'actor.source': query.source }),
+                ...(query.tokenId && { 'actor.tokenId': query.tokenId }),
+                ...(query.userId && { 'actor.userId': query.userId }),
+                ...(query.apiKeyId && { 'actor.apiKeyId': query.apiKeyId }),
+                ...(query.jobId && { 'actor.jobId': query.jobId }),
+                ...((query.from || query.to) && {
+                    createdAt: {
+                        ...(query.from && { $gte: query.from }),
+                        ...(query.to && { $lte: query.to })
+                    }
+                })
+            })
+            .sort({ createdAt: -1 })
+            .limit(query.limit);
+
+        req.sendResponse.respond(entries, `${entries.length} audit entries found.`);
+    } catch (err) {
+        sendErrorMessage(req, err);
+    }
+};
+
+export { listAuditEntries };
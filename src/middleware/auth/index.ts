@@ -6,17 +6,68 @@ import { NextFunction, Request, Response } from "express";
 import { decode, JsonWebTokenError, TokenExpiredError, verify } from "jsonwebtoken";
 import mongoose from "mongoose";
 import institution_schema from "@database/institution";
+import apiKeyModel from "@database/api_key";
 import tokenSchema from "@database/token";
+import userModel from "@database/user";
+import { runAs } from "@libs/audit";
+import { hashApiKey } from "@libs/crypt";
 import CustomError from "@libs/error_handler";
 import { sendErrorMessage } from "@middleware/utils/middleware_error_handler";
-import { DatabaseInstitution } from "types/nemisApiTypes";
+import { DatabaseApiKey, DatabaseInstitution, DatabaseUser } from "types/nemisApiTypes";
+import { isAllowed, requiredScope } from "./roles";
+
+// Find the user a token was issued to, tokens of archived users can't be used
+const findTokenUser = async (userId?: mongoose.Types.ObjectId) => {
+    if (!userId) return;
+    let user = await userModel.findById(userId);
+    if (!user || user.archived) {
+        throw new CustomError('Forbidden. The user this token was issued to was removed.', 403);
+    }
+    return user;
+};
+
+// Authenticate a request made using an API key in the X-API-Key header instead of a bearer token
+const authenticateApiKey = async (req: Request, key: string) => {
+    let apiKey = await apiKeyModel.findOne({ keyHash: hashApiKey(key) });
+
+    if (!apiKey) throw new CustomError('Forbidden. Invalid API key.', 403);
+    if (apiKey.revoked?.on) {
+        throw new CustomError('Forbidden. This API key is revoked.', 403);
+    }
+    if (apiKey.expires && apiKey.expires.getTime() < Date.now()) {
+        throw new CustomError('Forbidden. This API key has expired.', 403);
+    }
+
+    let scope = requiredScope(req);
+    if (!scope || !apiKey.scopes.includes(scope)) {
+        throw new CustomError(
+            scope
+                ? `Forbidden. This API key doesn't have the ${scope} scope needed for ${req.method} ${req.path}.`
+                : `Forbidden. ${req.method} ${req.path} can not be used with an API key.`,
+            403
+        );
+    }
+
+    let institution = await institution_schema.findById(apiKey.institutionId);
+    if (!institution || institution.isArchived) {
+        throw new CustomError('Forbidden. The institution of this API key was deleted.', 403);
+    }
+
+    apiKey.lastUsed = new Date();
+    await apiKey.save();
+
+    req.institution = <DatabaseInstitution>institution.toObject();
+    req.apiKey = <DatabaseApiKey>apiKey.toObject();
+    req.auditActor = { source: 'request', institutionId: institution._id, apiKeyId: apiKey._id };
+    req.isValidToken = true;
+};
 
 // todo replace with passport
 export default async (req: Request, _: Response, next: NextFunction) => {
     try {
         // If a path is /api/auth/register , skip auth middleware
         if (
-            ['/api/auth/register', '/api/auth/recover'].some(element =>
+            ['/api/auth/register', '/api/auth/recover', '/api/auth/login'].some(element =>
                 req.path.endsWith(element)
             ) ||
             !/^\/api\//.test(req.path)
@@ -26,6 +77,13 @@ export default async (req: Request, _: Response, next: NextFunction) => {
             return next();
         }
 
+        let apiKeyHeader = req.headers?.['x-api-key'];
+        if (typeof apiKeyHeader === 'string' && apiKeyHeader) {
+            await authenticateApiKey(req, apiKeyHeader);
+            // Changes made by the rest of the request are recorded against the API key
+            return runAs(req.auditActor!, next);
+        }
+
         const authMethod = <string | undefined>req.headers?.authorization?.split(' ')[0];
         const token = <string | undefined>req.headers?.authorization?.split(' ')[1];
 
@@ -74,9 +132,10 @@ export default async (req: Request, _: Response, next: NextFunction) => {
                     403
                 );
 
-            case tokenFromDb.revoked === undefined:
+            // revoked is a nested path, it is an empty object until the token is revoked
+            case !!tokenFromDb.revoked?.on:
                 throw new CustomError(
-                    'Forbidden. This token is revoked. Register for a  new token at `/auth/register`',
+                    'Forbidden. This token is revoked. Log in again or recover a token at `/auth/recover`',
                     403
                 );
 
@@ -89,9 +148,16 @@ export default async (req: Request, _: Response, next: NextFunction) => {
                     if (tokenFromDb.token !== token)
                         throw new CustomError('Forbidden. Invalid token', 401);
                     console.debug('Token refresh');
+                    await findTokenUser(tokenFromDb.userId);
 
                     req.token = tokenFromDb.toObject();
-                    return next();
+                    req.auditActor = {
+                        source: 'request',
+                        institutionId: tokenFromDb.institutionId,
+                        tokenId: tokenFromDb._id,
+                        userId: tokenFromDb.userId
+                    };
+                    return runAs(req.auditActor, next);
                 }
                 console.debug('Token has expired');
                 throw new CustomError(
@@ -117,11 +183,32 @@ export default async (req: Request, _: Response, next: NextFunction) => {
             );
         }
 
+        let user = await findTokenUser(tokenFromDb.userId);
+        // The institution's own token has the same rights as an admin
+        let role = user?.role ?? 'admin';
+        if (!isAllowed(role, req)) {
+            throw new CustomError(
+                `Forbidden. Users with the ${role} role can not ${req.method} ${req.path}.`,
+                403
+            );
+        }
+
+        tokenFromDb.lastUsed = new Date();
+        await tokenFromDb.save();
+
         req.institution = <DatabaseInstitution>institution?.toObject();
         req.token = tokenFromDb.toObject();
+        req.user = <DatabaseUser | undefined>user?.toObject();
+        req.auditActor = {
+            source: 'request',
+            institutionId: tokenFromDb.institutionId,
+            tokenId: tokenFromDb._id,
+            userId: tokenFromDb.userId
+        };
         req.isValidToken = true;
 
-        return next();
+        // Changes made by the rest of the request are recorded against the token
+        return runAs(req.auditActor, next);
     } catch (err: any) {
         if (err instanceof TokenExpiredError) {
             console.warn(err.message);
@@ -0,0 +1,65 @@
+/*
+ * Copyright (c) 2023. MIT License. Maina Derrick.
+ */
+
+import { Request } from 'express';
+import mongoose from 'mongoose';
+import { z } from 'zod';
+import institutionModel from '@database/institution';
+import userModel from '@database/user';
+import { verifyPassword } from '@libs/crypt';
+import CustomError from '@libs/error_handler';
+import JWT from '@libs/JWT';
+import { sendErrorMessage } from '@middleware/utils/middleware_error_handler';
+
+const loginSchema = z.object({
+    code: z
+        .string({ required_error: 'Institution code is required.' })
+        .trim()
+        .min(1, 'Institution code can not be blank.'),
+    username: z
+        .string({ required_error: 'Username is required.' })
+        .trim()
+        .toLowerCase()
+        .min(1, 'Username can not be blank.'),
+    password: z
+        .string({ required_error: 'Password is required.' })
+        .min(1, 'Password can not be blank.')
+});
+
+// Log in a user of an institution and issue them a new token
+export default async (req: Request) => {
+    try {
+        const { code, username, password } = loginSchema.parse(req.body);
+
+        let institution = await institutionModel
+            .findOne({ $or: [{ code: code }, { username: code }], isArchived: { $ne: true } })
+            .select('_id');
+
+        let user = institution
+            ? await userModel.findOne({
+                  institutionId: institution._id,
+                  username: username,
+                  archived: false
+              })
+            : undefined;
+
+        // The same error whether the user exists or not
+        if (!user || !verifyPassword(password, user.passwordHash)) {
+            throw new CustomError('Invalid institution code, username or password.', 401);
+        }
+
+        const token = await new JWT().getNewToken(
+            new mongoose.Types.ObjectId(),
+            user.institutionId,
+            user._id
+        );
+        user.lastLogin = new Date();
+        await user.save();
+
+        let { passwordHash, ...userObject } = user.toObject();
+        req.sendResponse.respond({ ...userObject, token: token }, 'Logged in successfully.');
+    } catch (err) {
+        sendErrorMessage(req, err);
+    }
+};
@@ -7,6 +7,9 @@ import { sendErrorMessage } from "@middleware/utils/middleware_error_handler";
 import { Request } from "express";
 import { DatabaseToken } from "types/nemisApiTypes";
 import { validateUsernamePassword } from "@middleware/utils/query_params";
+import JWT from "@libs/JWT";
+import institutionModel from "@database/institution";
+import mongoose from "mongoose";
 
 export default async (req: Request) => {
     try {
@@ -19,7 +22,22 @@ export default async (req: Request) => {
                 'Institution data was deleted from the local database. Use register to get a new token '
             );
         }
-        if (!token) throw new CustomError('No valid token associated with the institution.', 400);
+        // The institution's token was revoked, its credentials were just verified so issue a new one
+        if (!token || token.revoked?.on) {
+            let newToken = await new JWT().getNewToken(
+                new mongoose.Types.ObjectId(),
+                institution._id
+            );
+            await institutionModel.updateOne(
+                { _id: institution._id },
+                { token: newToken._id, ...(token && { $push: { archivedTokens: token._id } }) }
+            );
+
+            return req.sendResponse.respond(
+                Object.assign(institution.toObject(), { token: newToken }),
+                'The previous token was revoked, a new token was issued.'
+            );
+        }
         // Send token saved in Database
         req.sendResponse.respond(
             institution,
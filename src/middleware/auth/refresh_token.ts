@@ -11,7 +11,8 @@ export default async (req: Request) => {
     try {
         let [_, newTokenObject] = await new JWT().refreshToken(
             req.token.institutionId,
-            req.token._id
+            req.token._id,
+            req.token.userId
         );
 
         req.sendResponse.respond(newTokenObject, 'Token refreshed.');
@@ -0,0 +1,81 @@
+/*
+ * Copyright (c) 2023. MIT License. Maina Derrick.
+ */
+
+import { Request } from 'express';
+import { API_KEY_SCOPES } from '@database/api_key';
+import { UserRole } from 'types/nemisApiTypes';
+
+type ApiKeyScope = (typeof API_KEY_SCOPES)[number];
+
+// Paths only admins can use, whatever the method
+const ADMIN_ONLY_PATHS = [
+    /^\/api\/users(\/|$)/,
+    /^\/api\/keys(\/|$)/,
+    /^\/api\/audit(\/|$)/,
+    /^\/api\/institution\/(update|delete)\/?$/
+];
+
+// GET paths that change data in the database or on NEMIS, read-only users can't use them
+const READ_ONLY_DENIED_PATHS = [
+    /^\/api\/learner\/sync(?!\/history)(\/|$)/,
+    // Listing requests records approvals and queues admission or capture of approved learners
+    /^\/api\/nemis\/request(\/|$)/,
+    // Listing deferred admissions and transfers records them on learners
+    /^\/api\/nemis\/deferred\/?$/,
+    /^\/api\/nemis\/transfer(\/|$)/,
+    // Searching saves the learner's nemisScore
+    /^\/api\/nemis\/search(\/|$)/
+];
+
+// Paths every user can call, whatever the method, to manage their own session
+const SESSION_PATHS = [/^\/api\/auth\/(refresh|logout)\/?$/, /^\/api\/auth\/tokens(\/|$)/];
+
+/**
+ * Whether a role can make a request. Admins can make any request, registrars can make any request
+ * except managing users and the institution and read-only users can only view data.
+ */
+const isAllowed = (role: UserRole, req: Request) => {
+    let path = req.path;
+    if (role === 'admin' || SESSION_PATHS.some(x => x.test(path))) return true;
+    if (ADMIN_ONLY_PATHS.some(x => x.test(path))) return false;
+    if (role === 'registrar') return true;
+
+    return ['GET', 'HEAD'].includes(req.method) && !READ_ONLY_DENIED_PATHS.some(x => x.test(path));
+};
+
+/**
+ * Scope an API key needs for a request, the first rule matching the path applies. Rules for reads only
+ * match GET requests and rules for writes match any other method. Requests matching no rule, such as
+ * managing users or keys, can't be made using an API key.
+ */
+const SCOPE_RULES: { path: RegExp; read?: boolean; scope: ApiKeyScope }[] = [
+    { path: /^\/api\/institution\/?$/, read: true, scope: 'institution:read' },
+    { path: /^\/api\/jobs(\/|$)/, read: true, scope: 'jobs:read' },
+    { path: /^\/api\/learner\/sync(?!\/history)(\/|$)/, scope: 'learner:write' },
+    { path: /^\/api\/learner(\/|$)/, read: true, scope: 'learner:read' },
+    { path: /^\/api\/learner(\/|$)/, read: false, scope: 'learner:write' },
+    { path: /^\/api\/nemis\/capture(\/|$)/, scope: 'nemis:capture' },
+    { path: /^\/api\/nemis\/nhif\/?$/, read: false, scope: 'nemis:capture' },
+    { path: /^\/api\/nemis\/(admit|deferred)(\/|$)/, read: false, scope: 'nemis:admit' },
+    { path: /^\/api\/nemis\/selected\/?$/, read: false, scope: 'learner:write' },
+    // Listing requests queues admission or capture of learners whose request was approved
+    { path: /^\/api\/nemis\/request\/joining(\/approved)?\/?$/, read: true, scope: 'nemis:admit' },
+    { path: /^\/api\/nemis\/request\/continuing\/?$/, read: true, scope: 'nemis:capture' },
+    { path: /^\/api\/nemis\/request(\/|$)/, read: false, scope: 'nemis:request' },
+    { path: /^\/api\/nemis\/transfer(\/|$)/, read: false, scope: 'nemis:transfer' },
+    // Listing transfers and deferred admissions records them on learners, searching saves nemisScore
+    { path: /^\/api\/nemis\/transfer(\/|$)/, read: true, scope: 'nemis:transfer' },
+    { path: /^\/api\/nemis\/deferred\/?$/, read: true, scope: 'nemis:admit' },
+    { path: /^\/api\/nemis\/search(\/|$)/, read: true, scope: 'learner:write' },
+    { path: /^\/api\/nemis(\/|$)/, read: true, scope: 'nemis:read' }
+];
+
+const requiredScope = (req: Request) => {
+    let isRead = ['GET', 'HEAD'].includes(req.method);
+    return SCOPE_RULES.find(
+        x => x.path.test(req.path) && (x.read === undefined || x.read === isRead)
+    )?.scope;
+};
+
+export { ApiKeyScope, isAllowed, requiredScope };
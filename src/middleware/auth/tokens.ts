@@ -0,0 +1,107 @@
+/*
+ * Copyright (c) 2023. MIT License. Maina Derrick.
+ */
+
+import { Request } from 'express';
+import mongoose from 'mongoose';
+import { z } from 'zod';
+import tokenModel from '@database/token';
+import CustomError from '@libs/error_handler';
+import JWT from '@libs/JWT';
+import { sendErrorMessage } from '@middleware/utils/middleware_error_handler';
+
+const reasonSchema = z.object({ reason: z.string().trim().min(1).optional() }).optional();
+
+// Admins, including the institution's own token, manage all tokens of the institution. Other users
+// only manage their own tokens
+const manageableTokens = (req: Request) => ({
+    institutionId: req.institution._id,
+    archived: false,
+    'revoked.on': { $exists: false },
+    ...(req.user && req.user.role !== 'admin' && { userId: req.user._id })
+});
+
+const listTokens = async (req: Request) => {
+    try {
+        let tokens = await tokenModel
+            .find(manageableTokens(req))
+            .select('-token -tokenSecret')
+            .populate('userId', 'username name role')
+            .sort({ createdAt: -1 });
+
+        req.sendResponse.respond(
+            tokens.map(x => ({
+                ...x.toObject(),
+                current: x._id.equals(req.token._id),
+                expired: x.expires.getTime() < Date.now()
+            })),
+            `${tokens.length} active token(s) found.`
+        );
+    } catch (err) {
+        sendErrorMessage(req, err);
+    }
+};
+
+const revokeToken = async (req: Request) => {
+    try {
+        let id = req.params.id;
+        if (!mongoose.isValidObjectId(id)) throw new CustomError(`Invalid token id ${id}.`, 400);
+        let reason = reasonSchema.parse(req.body)?.reason;
+
+        let token = await tokenModel
+            .findOne({ ...manageableTokens(req), _id: id })
+            .select('-token -tokenSecret');
+        if (!token) {
+            throw new CustomError(
+                `Active token with id ${id} was not found among your tokens.`,
+                404,
+                'not_found'
+            );
+        }
+
+        await new JWT().revokeTokens(
+            req.institution._id,
+            [token._id],
+            reason || 'token was revoked'
+        );
+
+        req.sendResponse.respond(
+            { _id: token._id, userId: token.userId, createdAt: token.createdAt },
+            'Token revoked.'
+        );
+    } catch (err) {
+        sendErrorMessage(req, err);
+    }
+};
+
+// Revoke all tokens the caller can manage except the one used to make the request
+const revokeAllTokens = async (req: Request) => {
+    try {
+        let reason = reasonSchema.parse(req.body)?.reason;
+
+        let tokens = await tokenModel
+            .find({ ...manageableTokens(req), _id: { $ne: req.token._id } })
+            .select('_id');
+        let revoked = await new JWT().revokeTokens(
+            req.institution._id,
+            tokens.map(x => x._id),
+            reason || 'all tokens were revoked'
+        );
+
+        req.sendResponse.respond({ revoked: revoked }, `${revoked} token(s) revoked.`);
+    } catch (err) {
+        sendErrorMessage(req, err);
+    }
+};
+
+const logout = async (req: Request) => {
+    try {
+        await new JWT().revokeTokens(req.institution._id, [req.token._id], 'user logged out');
+
+        req.sendResponse.respond({ _id: req.token._id }, 'Logged out, the token was revoked.');
+    } catch (err) {
+        sendErrorMessage(req, err);
+    }
+};
+
+export { listTokens, logout, revokeAllTokens, revokeToken };
@@ -16,13 +16,18 @@ import institutionModel from "@database/institution";
 const getInstitution = (req: Request) => {
     const response = req.sendResponse;
     try {
-        if (!req.token || !req.institution)
+        if ((!req.token && !req.apiKey) || !req.institution)
             throw new CustomError(
                 'Something went terribly wrong. Please contact the administrator',
                 500
             );
 
-        let institutionObject = Object.assign(req.institution, { token: req.token });
+        // Only the institution's own token can see its NEMIS password
+        let { password, ...institution } = req.institution;
+        let institutionObject = Object.assign(
+            req.user || req.apiKey ? institution : req.institution,
+            { token: req.token }
+        );
 
         return response.respond(institutionObject);
     } catch (err: any) {
@@ -0,0 +1,50 @@
+/*
+ * Copyright (c) 2023. MIT License. Maina Derrick.
+ */
+
+import { Request } from 'express';
+import mongoose from 'mongoose';
+import jobModel from '@database/job';
+import CustomError from '@libs/error_handler';
+import { sendErrorMessage } from '@middleware/utils/middleware_error_handler';
+
+const listJobs = async (req: Request) => {
+    try {
+        // Leave out per-learner results, they're available from /jobs/:id
+        let jobs = await jobModel
+            .find({ institutionId: req.institution._id })
+            .sort({ createdAt: -1 })
+            .select('-learners');
+
+        req.sendResponse.respond(jobs);
+    } catch (err) {
+        sendErrorMessage(req, err);
+    }
+};
+
+const getJob = async (req: Request) => {
+    try {
+        if (!mongoose.isValidObjectId(req.params?.id)) {
+            throw new CustomError('Invalid job id. Job id must be a valid mongoose _id', 400);
+        }
+
+        let job = await jobModel
+            .findOne({ _id: req.params.id, institutionId: req.institution._id })
+            .populate('learners.learnerId', 'adm name grade upi indexNo birthCertificateNo');
+
+        if (!job) {
+            throw new CustomError('No job was found with the provided id.', 404, 'not_found');
+        }
+
+        req.sendResponse.respond(
+            job,
+            `Job is ${job.status}. ${job.progress?.processed ?? 0} of ${
+                job.progress?.total ?? 0
+            } learners processed.`
+        );
+    } catch (err) {
+        sendErrorMessage(req, err);
+    }
+};
+
+export { listJobs, getJob };
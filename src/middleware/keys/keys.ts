@@ -0,0 +1,104 @@
+/*
+ * Copyright (c) 2023. MIT License. Maina Derrick.
+ */
+
+import { Request } from 'express';
+import mongoose from 'mongoose';
+import { randomBytes } from 'node:crypto';
+import { z } from 'zod';
+import apiKeyModel, { API_KEY_SCOPES } from '@database/api_key';
+import { hashApiKey } from '@libs/crypt';
+import CustomError from '@libs/error_handler';
+import { sendErrorMessage } from '@middleware/utils/middleware_error_handler';
+
+const newApiKeySchema = z.object({
+    name: z
+        .string({ required_error: 'Name of the API key is required.' })
+        .trim()
+        .min(1, 'Name of the API key can not be blank.'),
+    scopes: z
+        .array(z.enum(API_KEY_SCOPES), {
+            errorMap: () => ({
+                message: `Expected an array of scopes from ${API_KEY_SCOPES.join(', ')}.`
+            })
+        })
+        .min(1)
+        .transform(x => [...new Set(x)]),
+    expires: z.coerce
+        .date()
+        .refine(x => x.getTime() > Date.now(), 'Expiry date must be in the future.')
+        .optional()
+});
+
+// API keys are returned without their hash
+const apiKeyToJson = (apiKey: InstanceType<typeof apiKeyModel>) => {
+    let { keyHash, ...apiKeyObject } = apiKey.toObject();
+    return apiKeyObject;
+};
+
+const listApiKeys = async (req: Request) => {
+    try {
+        let revoked = z.enum(['true', 'false']).optional().parse(req.query?.revoked);
+
+        let apiKeys = await apiKeyModel
+            .find({
+                institutionId: req.institution._id,
+                'revoked.on': { $exists: revoked === 'true' }
+            })
+            .sort({ createdAt: -1 });
+
+        req.sendResponse.respond(apiKeys.map(apiKeyToJson), `${apiKeys.length} API key(s) found.`);
+    } catch (err) {
+        sendErrorMessage(req, err);
+    }
+};
+
+// The key is only returned when it is created, only its hash is stored
+const createApiKey = async (req: Request) => {
+    try {
+        let newApiKey = newApiKeySchema.parse(req.body);
+
+        let key = 'nemis_' + randomBytes(24).toString('hex');
+        let apiKey = await apiKeyModel.create({
+            ...newApiKey,
+            institutionId: req.institution._id,
+            prefix: key.slice(0, 12),
+            keyHash: hashApiKey(key),
+            createdBy: req.token?._id
+        });
+
+        req.sendResponse.respond(
+            { ...apiKeyToJson(apiKey), key: key },
+            'API key created. Store the key safely, it will not be shown again.',
+            201
+        );
+    } catch (err) {
+        sendErrorMessage(req, err);
+    }
+};
+
+const revokeApiKey = async (req: Request) => {
+    try {
+        let id = req.params.id;
+        if (!mongoose.isValidObjectId(id)) throw new CustomError(`Invalid API key id ${id}.`, 400);
+
+        let apiKey = await apiKeyModel.findOne({ _id: id, institutionId: req.institution._id });
+        if (!apiKey)
+            throw new CustomError(`API key with id ${id} was not found.`, 404, 'not_found');
+        if (apiKey.revoked?.on) throw new CustomError('API key is already revoked.', 409);
+
+        let reason = z.string().trim().optional().parse(req.body?.reason);
+        apiKey.revoked = {
+            on: new Date(),
+            by: req.token?._id,
+            reason: reason || 'revoked by admin'
+        };
+        await apiKey.save();
+
+        req.sendResponse.respond(apiKeyToJson(apiKey), 'API key revoked.');
+    } catch (err) {
+        sendErrorMessage(req, err);
+    }
+};
+
+export { createApiKey, listApiKeys, revokeApiKey };
@@ -4,12 +4,19 @@
 
 import { Request } from "express";
 import learnerModel from "@database/learner";
-import { validateExcel, validateLearnerJson } from "@libs/import_excel";
+import {
+    annotateExcel,
+    previewExcel,
+    validateExcel,
+    validateLearnerJson
+} from "@libs/import_excel";
+import { learnerTemplate } from "@libs/excel_template";
+import { EXPORT_CONTENT_TYPES } from "@libs/export_excel";
 import CustomError from "@libs/error_handler";
 import { sendErrorMessage } from "@middleware/utils/middleware_error_handler";
 import { lowerCaseAllValues } from "@libs/converts";
 import { CompleteLearner } from "../../../types/nemisApiTypes";
-import { ZodIssue } from "zod";
+import { z, ZodIssue } from "zod";
 
 type HandleValidatedData = (
     validatedJson: Array<
@@ -20,6 +27,15 @@ type HandleValidatedData = (
     req: Request
 ) => Promise<any>;
 
+const previewQuerySchema = z
+    .object({
+        // Validate the file without adding learners to the database
+        preview: z.enum(['true', 'false']).transform(x => x === 'true'),
+        // Download the uploaded file with failed cells highlighted instead of a json report
+        annotate: z.enum(['true', 'false']).transform(x => x === 'true')
+    })
+    .partial();
+
 const addLearnerByFile = async (req: Request) => {
     try {
         // If for some reason the file path wasn't passed
@@ -29,6 +45,10 @@ const addLearnerByFile = async (req: Request) => {
                 400
             );
         }
+        let query = previewQuerySchema.parse(req.query);
+        if (query.preview || query.annotate) {
+            return await previewLearnerFile(req, !!query.annotate);
+        }
         // Validate requested file
         await handleValidatedData(validateExcel(req.body.file), req);
     } catch (err: any) {
@@ -49,6 +69,69 @@ const addLearnerByJson = async (req: Request) => {
     }
 };
 
+// Report what importing a file would do, row by row, without writing to the database
+const previewLearnerFile = async (req: Request, annotate: boolean) => {
+    let { workBook, sheetName, rows } = previewExcel(req.body.file);
+
+    if (annotate) {
+        return req.sendResponse.download(
+            annotateExcel(workBook, sheetName, rows),
+            'learner_import_errors.xlsx',
+            EXPORT_CONTENT_TYPES.xlsx
+        );
+    }
+
+    // Learners already in the database are updated, the rest are inserted
+    let existing = await learnerModel
+        .find({
+            institutionId: req.institution._id,
+            adm: { $in: rows.filter(x => x.status === 'valid').map(x => x.learner!.adm) }
+        })
+        .select('adm')
+        .lean();
+    let existingAdm = existing.map(x => x.adm);
+
+    let report = rows.map(({ learner, ...row }) => ({
+        ...row,
+        action:
+            row.status === 'valid'
+                ? existingAdm.includes(learner!.adm)
+                    ? 'update'
+                    : 'insert'
+                : undefined
+    }));
+    let invalid = report.filter(x => x.status === 'invalid').length;
+
+    req.sendResponse.respond(
+        {
+            summary: {
+                total: report.length,
+                valid: report.length - invalid,
+                invalid: invalid,
+                insert: report.filter(x => x.action === 'insert').length,
+                update: report.filter(x => x.action === 'update').length
+            },
+            rows: report
+        },
+        invalid > 0
+            ? `${invalid} of ${report.length} row(s) failed to validate. No learners were added.`
+            : `All ${report.length} row(s) are valid. No learners were added.`
+    );
+};
+
+// Excel template to fill in learners before uploading them to /add/{joining|continuing}/excel
+const downloadLearnerTemplate = async (req: Request) => {
+    try {
+        req.sendResponse.download(
+            learnerTemplate(),
+            'learner_template.xlsx',
+            EXPORT_CONTENT_TYPES.xlsx
+        );
+    } catch (err: any) {
+        sendErrorMessage(req, err);
+    }
+};
+
 const handleValidatedData: HandleValidatedData = async (validatedJson, req) => {
     let validationError = validatedJson.filter(x => !!x.validationError);
     if (validationError.length > 0) {
@@ -85,4 +168,4 @@ const handleValidatedData: HandleValidatedData = async (validatedJson, req) => {
     );
 };
 
-export { addLearnerByFile, addLearnerByJson };
+export { addLearnerByFile, addLearnerByJson, downloadLearnerTemplate };
@@ -0,0 +1,133 @@
+/*
+ * Copyright (c) 2023. MIT License. Maina Derrick.
+ */
+
+import { Request } from 'express';
+import { z } from 'zod';
+import learnerModel from '@database/learner';
+import CustomError from '@libs/error_handler';
+import { validateLearnerJson } from '@libs/import_excel';
+import { diffDatabase, parseListDob } from '@libs/sync_diff';
+import { sendErrorMessage } from '@middleware/utils/middleware_error_handler';
+
+const nemisLearnerToImport = z.object({
+    upi: z.coerce
+        .string()
+        .trim()
+        .toLowerCase()
+        .refine(val => val !== 'undefined', 'UPI of the learner is required.'),
+    adm: z.coerce
+        .string()
+        .trim()
+        .min(1)
+        .refine(val => val !== 'undefined', 'Adm number can not be empty or undefined.'),
+    stream: z.string().trim().optional()
+});
+
+// A learner or an array of learners, NEMIS doesn't list admission numbers so one is required
+const importNemisSchema = z
+    .union([nemisLearnerToImport, z.array(nemisLearnerToImport).min(1)], {
+        errorMap: () => ({
+            message: 'Expected an array of {upi, adm, stream} for the NEMIS learners to import.'
+        })
+    })
+    .transform(x => (Array.isArray(x) ? x : [x]));
+
+const getDatabaseDiff = async (req: Request) => {
+    try {
+        let diff = await diffDatabase(req.institution);
+
+        req.sendResponse.respond(
+            diff,
+            `${diff.matched} learner(s) matched, ${diff.mismatched.length} of them with mismatched details. ${diff.onlyNemis.length} learner(s) are only on NEMIS and ${diff.onlyLocal.length} only in the database.` +
+                (diff.failedGrades.length > 0
+                    ? ` ${diff.failedGrades.length} grade(s) failed to list and were not compared.`
+                    : '')
+        );
+    } catch (err) {
+        sendErrorMessage(req, err);
+    }
+};
+
+const importNemisLearners = async (req: Request) => {
+    try {
+        let learnersToImport = importNemisSchema.parse(req.body);
+
+        let { onlyNemis } = await diffDatabase(req.institution);
+
+        // Admission numbers are unique across the collection
+        let usedAdm = (
+            await learnerModel
+                .find({ adm: { $in: learnersToImport.map(x => x.adm) } })
+                .select('adm')
+                .lean()
+        ).map(x => x.adm);
+
+        let imported = [];
+        let failed = [];
+
+        for (const learnerToImport of learnersToImport) {
+            let nemisLearner = onlyNemis.find(x => x.upi === learnerToImport.upi);
+            if (!nemisLearner) {
+                failed.push({
+                    ...learnerToImport,
+                    error: 'Learner is not captured on NEMIS or is already in the database.'
+                });
+                continue;
+            }
+            if (usedAdm.includes(learnerToImport.adm)) {
+                failed.push({
+                    ...learnerToImport,
+                    error: `Adm ${learnerToImport.adm} is already used by another learner.`
+                });
+                continue;
+            }
+
+            let learner = validateLearnerJson({
+                adm: learnerToImport.adm,
+                stream: learnerToImport.stream,
+                name: nemisLearner.name,
+                gender: nemisLearner.gender,
+                dob: parseListDob(nemisLearner.dob),
+                grade: nemisLearner.grade,
+                upi: nemisLearner.upi,
+                birthCertificateNo: nemisLearner.birthCertificateNo || undefined,
+                isSpecial: nemisLearner.isSpecial
+            });
+            if (learner.validationError) {
+                failed.push({ ...learnerToImport, error: learner.validationError });
+                continue;
+            }
+
+            imported.push(
+                await learnerModel.create({
+                    ...learner,
+                    institutionId: req.institution._id,
+                    nhifNo: Number(nemisLearner.nhifNo) || undefined,
+                    admitted: true,
+                    reported: true,
+                    archived: false
+                })
+            );
+            usedAdm.push(learnerToImport.adm);
+        }
+
+        if (imported.length === 0) {
+            throw new CustomError(
+                'None of the NEMIS learners was imported. Please check the following errors',
+                400,
+                failed
+            );
+        }
+
+        req.sendResponse.respond(
+            { imported: imported, failed: failed },
+            `${imported.length} learner(s) captured on NEMIS added to the database` +
+                (failed.length > 0 ? `, ${failed.length} failed to import.` : '.')
+        );
+    } catch (err) {
+        sendErrorMessage(req, err);
+    }
+};
+
+export { getDatabaseDiff, importNemisLearners };
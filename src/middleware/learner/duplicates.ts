@@ -0,0 +1,85 @@
+/*
+ * Copyright (c) 2023. MIT License. Maina Derrick.
+ */
+
+import { Request } from 'express';
+import { z } from 'zod';
+import learnerModel from '@database/learner';
+import { DUPLICATE_THRESHOLD, findDuplicates, mergeLearners } from '@libs/duplicates';
+import CustomError from '@libs/error_handler';
+import { gradesSchema } from '@libs/zod_validation';
+import { sendErrorMessage } from '@middleware/utils/middleware_error_handler';
+
+const duplicatesQuerySchema = z
+    .object({
+        grade: gradesSchema,
+        minConfidence: z.coerce
+            .number({ invalid_type_error: 'minConfidence must be a number.' })
+            .min(DUPLICATE_THRESHOLD, `minConfidence can not be less than ${DUPLICATE_THRESHOLD}.`)
+            .max(1, 'minConfidence can not be more than 1.')
+    })
+    .partial();
+
+const admSchema = z.coerce
+    .string()
+    .trim()
+    .min(1)
+    .refine(val => val !== 'undefined', 'Adm number can not be empty or undefined.');
+
+const mergeSchema = z
+    .object({ keep: admSchema, remove: admSchema })
+    .refine(x => x.keep !== x.remove, 'A learner can not be merged with itself.');
+
+const getDuplicateLearners = async (req: Request) => {
+    try {
+        let query = duplicatesQuerySchema.parse(req.query);
+
+        // Duplicates can be in different grades, all learners are compared then filtered by grade
+        let learners = await learnerModel.find({
+            institutionId: req.institution._id,
+            archived: false
+        });
+
+        let groups = findDuplicates(learners).filter(
+            x =>
+                x.confidence >= (query.minConfidence ?? DUPLICATE_THRESHOLD) &&
+                (!query.grade || x.learners.some(y => y.grade === query.grade))
+        );
+
+        req.sendResponse.respond(
+            groups,
+            `${groups.length} group(s) of probable duplicate learners found among ${learners.length} learner(s).`
+        );
+    } catch (err) {
+        sendErrorMessage(req, err);
+    }
+};
+
+const mergeDuplicateLearners = async (req: Request) => {
+    try {
+        let { keep, remove } = mergeSchema.parse(req.body);
+
+        let learners = await learnerModel.find({
+            institutionId: req.institution._id,
+            adm: { $in: [keep, remove] },
+            archived: false
+        });
+        let learnerToKeep = learners.find(x => x.adm === keep);
+        let learnerToRemove = learners.find(x => x.adm === remove);
+        if (!learnerToKeep || !learnerToRemove) {
+            throw new CustomError(
+                `Learner with adm ${!learnerToKeep ? keep : remove} was not found in the database.`,
+                404,
+                'not_found'
+            );
+        }
+
+        let merged = await mergeLearners(learnerToKeep, learnerToRemove);
+
+        req.sendResponse.respond(merged, `Learner ${remove} was merged into ${keep} and archived.`);
+    } catch (err) {
+        sendErrorMessage(req, err);
+    }
+};
+
+export { getDuplicateLearners, mergeDuplicateLearners };
@@ -0,0 +1,77 @@
+/*
+ * Copyright (c) 2023. MIT License. Maina Derrick.
+ */
+
+import { Request } from "express";
+import { z } from "zod";
+import { sendErrorMessage } from "@middleware/utils/middleware_error_handler";
+import { EXPORT_CONTENT_TYPES, exportLearners } from "@libs/export_excel";
+import { learnerReport, ReportIssue } from "@libs/learner_report";
+import CustomError from "@libs/error_handler";
+import { findLearners, listLearnersQuerySchema } from "./list_learners";
+import { reportQuerySchema } from "./report";
+
+const formatSchema = z.object({ format: z.enum(["xlsx", "csv"]).default("xlsx") });
+
+// Exports learners returned by /learner/list using the same query parameters
+const exportLearnerList = async (req: Request) => {
+    try {
+        let { format } = formatSchema.parse(req.query);
+        let query = listLearnersQuerySchema.parse(req.query);
+
+        let count = await findLearners(req.institution._id, query).countDocuments();
+        if (count === 0) {
+            throw new CustomError("No learners matched the provided query.", 404, "not_found");
+        }
+
+        // Learners are read from a cursor and written to the response as they are read
+        let learners = findLearners(req.institution._id, query).lean().cursor();
+
+        req.sendResponse.downloadStream(
+            exportLearners(learners, format, { sheetName: query.grade || "Learners" }),
+            `learners_${query.grade?.replaceAll(" ", "_") || "all"}.${format}`,
+            EXPORT_CONTENT_TYPES[format]
+        );
+    } catch (err) {
+        sendErrorMessage(req, err);
+    }
+};
+
+// Exports learners listed in /learner/report, one row per learner with the issues found
+const exportLearnerReport = async (req: Request) => {
+    try {
+        let { format } = formatSchema.parse(req.query);
+        let query = reportQuerySchema.parse(req.query);
+
+        let report = await learnerReport(req.institution._id, { ...query, select: "-__v" });
+
+        let learners = new Map<string, { learner: any; issues: ReportIssue[] }>();
+        report.grades.forEach(group =>
+            Object.entries(group.issues).forEach(([issue, bucket]) =>
+                bucket.learners.forEach(learner => {
+                    let id = learner._id.toString();
+                    if (!learners.has(id)) learners.set(id, { learner: learner, issues: [] });
+                    learners.get(id)!.issues.push(issue as ReportIssue);
+                })
+            )
+        );
+
+        if (learners.size === 0) {
+            throw new CustomError("No learners with issues were found.", 404, "not_found");
+        }
+
+        req.sendResponse.downloadStream(
+            exportLearners(
+                [...learners.values()].map(x => ({ ...x.learner, issues: x.issues.join(", ") })),
+                format,
+                { sheetName: "Report", extraColumns: { issues: learner => learner.issues } }
+            ),
+            `learner_report.${format}`,
+            EXPORT_CONTENT_TYPES[format]
+        );
+    } catch (err) {
+        sendErrorMessage(req, err);
+    }
+};
+
+export { exportLearnerList, exportLearnerReport };
@@ -7,82 +7,94 @@ import { z } from "zod";
 import { genderSchema, gradesSchema } from "@libs/zod_validation";
 import learnerModel from "@database/learner";
 import { sub } from "date-fns";
+import mongoose from "mongoose";
 
-export default async function (req: Request) {
-    try {
-        // Validate req.query
-        let query = z
-            .object({
-                limit: z.coerce
-                    .number({ invalid_type_error: 'Limit must be a number.' })
-                    .multipleOf(10, 'Limit must be multiple of 10'),
-                grade: gradesSchema,
-                gender: genderSchema,
-                transferred: z.enum(['in', 'out']),
-                stream: z.coerce.string(),
-                withUpi: z.coerce
-                    .string()
-                    .toLowerCase()
-                    .transform(arg => arg === 'true'),
-                withError: z.coerce
-                    .string()
-                    .toLowerCase()
-                    .transform(arg => arg === 'true'),
-                name: z.coerce.string().min(3, 'Name string must be at least 3 letters long.'),
-                age: z.coerce.number().min(3, 'Minimum age is 3 years')
-            })
-            .partial()
-            .transform(value => {
-                Object.assign(value, { upi: value.withUpi, error: value.withError });
-                return value;
-            })
+// Validate req.query
+const listLearnersQuerySchema = z
+    .object({
+        limit: z.coerce
+            .number({ invalid_type_error: 'Limit must be a number.' })
+            .multipleOf(10, 'Limit must be multiple of 10'),
+        grade: gradesSchema,
+        gender: genderSchema,
+        transferred: z.enum(['in', 'out']),
+        stream: z.coerce.string(),
+        withUpi: z.coerce
+            .string()
+            .toLowerCase()
+            .transform(arg => arg === 'true'),
+        withError: z.coerce
+            .string()
+            .toLowerCase()
+            .transform(arg => arg === 'true'),
+        name: z.coerce.string().min(3, 'Name string must be at least 3 letters long.'),
+        age: z.coerce.number().min(3, 'Minimum age is 3 years')
+    })
+    .partial()
+    .transform(value => {
+        Object.assign(value, { upi: value.withUpi, error: value.withError });
+        return value;
+    });
 
-            .parse(req.query);
-        // Construct a database query from req.query
-        let queryObject = { institutionId: req.institution._id, archived: false };
+// Find learners matching a parsed list learners query
+const findLearners = (
+    institutionId: mongoose.Types.ObjectId,
+    query: z.infer<typeof listLearnersQuerySchema>
+) => {
+    // Construct a database query from req.query
+    let queryObject = { institutionId: institutionId, archived: false };
 
-        Object.entries(query).forEach(keyValue => {
-            switch (keyValue[0]) {
-                case 'grade':
-                case 'gender':
-                case 'stream':
-                    Object.assign(queryObject, { [keyValue[0]]: { $eq: keyValue[1] } });
-                    break;
+    Object.entries(query).forEach(keyValue => {
+        switch (keyValue[0]) {
+            case 'grade':
+            case 'gender':
+            case 'stream':
+                Object.assign(queryObject, { [keyValue[0]]: { $eq: keyValue[1] } });
+                break;
 
-                case 'error':
-                case 'upi':
-                    if (keyValue[1] !== undefined)
-                        Object.assign(queryObject, {
-                            [keyValue[0]]: keyValue[1]
-                                ? {
-                                      $exists: true,
-                                      $nin: [null, undefined, '']
-                                  }
-                                : { $exists: false, $in: [null, undefined, ''] }
-                        });
-                    break;
-                case 'age':
-                    if (query.age)
-                        Object.assign(queryObject, {
-                            dob: {
-                                $lte: sub(new Date(), { years: query.age - 1, months: 6 }),
-                                $gte: sub(new Date(), { years: query.age, months: 6 })
-                            }
-                        });
-                    break;
-                case 'transferred':
-                    if (query.transferred === 'in') {
-                        Object.assign(queryObject, { transferred: { $exists: true } });
-                    }
-            }
-        });
+            case 'error':
+            case 'upi':
+                if (keyValue[1] !== undefined)
+                    Object.assign(queryObject, {
+                        [keyValue[0]]: keyValue[1]
+                            ? {
+                                  $exists: true,
+                                  $nin: [null, undefined, '']
+                              }
+                            : { $exists: false, $in: [null, undefined, ''] }
+                    });
+                break;
+            case 'age':
+                if (query.age)
+                    Object.assign(queryObject, {
+                        dob: {
+                            $lte: sub(new Date(), { years: query.age - 1, months: 6 }),
+                            $gte: sub(new Date(), { years: query.age, months: 6 })
+                        }
+                    });
+                break;
+            case 'transferred':
+                if (query.transferred) {
+                    Object.assign(queryObject, { 'transfer.method': query.transferred });
+                }
+        }
+    });
 
-        let data = query?.limit
-            ? await learnerModel.find(queryObject).limit(query.limit)
-            : await learnerModel.find(queryObject);
+    return query?.limit
+        ? learnerModel.find(queryObject).limit(query.limit)
+        : learnerModel.find(queryObject);
+};
+
+export default async function (req: Request) {
+    try {
+        let query = listLearnersQuerySchema.parse(req.query);
+
+        let data = await findLearners(req.institution._id, query);
 
         req.sendResponse.respond(data);
     } catch (err) {
         sendErrorMessage(req, err);
     }
 }
+
+export { listLearnersQuerySchema, findLearners };
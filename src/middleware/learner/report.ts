@@ -0,0 +1,58 @@
+/*
+ * Copyright (c) 2023. MIT License. Maina Derrick.
+ */
+
+import { Request } from 'express';
+import { z } from 'zod';
+import { sendErrorMessage } from '@middleware/utils/middleware_error_handler';
+import { gradesSchema } from '@libs/zod_validation';
+import { learnerReport, ReportIssue } from '@libs/learner_report';
+
+// Query parameters as named in the route plan, each one selects an issue to report
+const issueParams: { [K: string]: ReportIssue } = {
+    admitted: 'notAdmitted',
+    captured: 'notCaptured',
+    nhif: 'missingNhif',
+    birthCertificate: 'missingBirthCertificate',
+    index: 'missingIndexNo',
+    error: 'hasError'
+};
+
+const reportQuerySchema = z
+    .object({
+        grade: gradesSchema,
+        stream: z.coerce.string().trim(),
+        ...Object.fromEntries(
+            Object.keys(issueParams).map(param => [
+                param,
+                z.enum(['true', 'false']).transform(x => x === 'true')
+            ])
+        )
+    })
+    .partial()
+    .transform(({ grade, stream, ...params }) => ({
+        grade: grade,
+        stream: stream,
+        issues: Object.entries(params)
+            .filter(([_, selected]) => selected)
+            .map(([param]) => issueParams[param])
+    }));
+
+const getLearnerReport = async (req: Request) => {
+    try {
+        let query = reportQuerySchema.parse(req.query);
+
+        let report = await learnerReport(req.institution._id, query);
+
+        req.sendResponse.respond(
+            report,
+            report.total === 0
+                ? 'No learners matched the provided query.'
+                : `Report of ${report.total} learner(s) in ${report.grades.length} grade(s) and stream(s).`
+        );
+    } catch (err) {
+        sendErrorMessage(req, err);
+    }
+};
+
+export { getLearnerReport, reportQuerySchema };
@@ -2,20 +2,83 @@
  * Copyright (c) 2023. MIT License. Maina Derrick.
  */
 
-import { sync } from "@libs/sync_api_database";
+import { createSyncRun, sync } from "@libs/sync_api_database";
 import { Request } from "express";
+import mongoose from "mongoose";
+import { z } from "zod";
+import syncRunModel from "@database/sync_run";
+import CustomError from "@libs/error_handler";
+import logger from "@libs/logger";
 import { sendErrorMessage } from "@middleware/utils/middleware_error_handler";
 
+const syncHistorySchema = z.object({
+    status: z.enum(["running", "completed", "failed"]).optional(),
+    limit: z.coerce.number().int().min(1).max(100).default(20)
+});
+
 const syncLearnerDatabase = async (req: Request) => {
     try {
+        let run = await createSyncRun(req.institution, {
+            trigger: "manual",
+            tokenId: req.token?._id
+        });
+
+        req.sendResponse.respond(
+            run,
+            `Database sync has been initiated. This might take a while, depending on how responsive the Nemis website is. Check progress at /learner/sync/history/${run._id}`,
+            202
+        );
+
+        // Errors are recorded in the sync run
+        await sync(req.institution, run).catch(err =>
+            logger.warn(`Sync of ${req.institution.code} failed: ${err?.message}`)
+        );
+    } catch (err) {
+        sendErrorMessage(req, err);
+    }
+};
+
+const getSyncHistory = async (req: Request) => {
+    try {
+        let { status, limit } = syncHistorySchema.parse(req.query);
+
+        let runs = await syncRunModel
+            .find({ institutionId: req.institution._id, ...(status ? { status: status } : {}) })
+            .sort({ startedAt: -1 })
+            .limit(limit);
+
+        req.sendResponse.respond(runs, `${runs.length} sync run(s) found.`);
+    } catch (err) {
+        sendErrorMessage(req, err);
+    }
+};
+
+const getSyncRun = async (req: Request) => {
+    try {
+        if (!mongoose.isValidObjectId(req.params?.id)) {
+            throw new CustomError(
+                "Invalid sync run id. Sync run id must be a valid mongoose _id",
+                400
+            );
+        }
+
+        let run = await syncRunModel.findOne({
+            _id: req.params.id,
+            institutionId: req.institution._id
+        });
+        if (!run) {
+            throw new CustomError("No sync run was found with the provided id.", 404, "not_found");
+        }
+
         req.sendResponse.respond(
-            undefined,
-            'Database sync has been initiated. This might take a while, depending on how responsive the Nemis website is. '
+            run,
+            `Sync is ${run.status}. ${run.learners?.updated ?? 0} of ${
+                run.learners?.checked ?? 0
+            } learners without a UPI were updated.`
         );
-        await sync(req.institution);
     } catch (err) {
         sendErrorMessage(req, err);
     }
 };
 
-export { syncLearnerDatabase };
+export { syncLearnerDatabase, getSyncHistory, getSyncRun };
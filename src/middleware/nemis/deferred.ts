@@ -0,0 +1,127 @@
+/*
+ * Copyright (c) 2023. MIT License. Maina Derrick.
+ */
+
+import { Request } from 'express';
+import { z } from 'zod';
+import learnerModel from '@database/learner';
+import CustomError from '@libs/error_handler';
+import jobQueue from '@libs/jobs';
+import nemisSessions from '@libs/nemis/session_pool';
+import { sendErrorMessage } from '@middleware/utils/middleware_error_handler';
+
+const deferredToAdmit = z.object({
+    adm: z.coerce
+        .string()
+        .trim()
+        .min(1)
+        .refine(val => val !== 'undefined', 'Adm number can not be empty or undefined.')
+});
+
+const admitDeferredSchema = z
+    .union([deferredToAdmit, z.array(deferredToAdmit).min(1)], {
+        errorMap: () => ({
+            message: 'Expected an array of {adm} for the deferred learners to admit.'
+        })
+    })
+    .transform(x => (Array.isArray(x) ? x : [x]));
+
+/**
+ * Deferred admissions listed on NEMIS, marked with whether the learner is in the database. Learners in
+ * the database are marked as deferred if they weren't already.
+ */
+const getDeferredLearners = async (req: Request) => {
+    try {
+        let deferred = await nemisSessions.withSession(req.institution, nemis =>
+            nemis.getDeferredLearners()
+        );
+
+        let indexNumbers = deferred.map(x => x.indexNo);
+        await learnerModel.updateMany(
+            {
+                institutionId: req.institution._id,
+                indexNo: { $in: indexNumbers },
+                'deferred.status': { $in: [null, undefined] },
+                archived: false
+            },
+            { deferred: { status: 'deferred', detectedOn: new Date() } }
+        );
+
+        let inDatabase = await learnerModel
+            .find({
+                institutionId: req.institution._id,
+                indexNo: { $in: indexNumbers },
+                archived: false
+            })
+            .select('adm indexNo')
+            .lean();
+
+        // Admit callbacks are only valid with the view state of the session that listed them
+        let learners = deferred.map(({ admitCallback, ...x }) => {
+            let learner = inDatabase.find(y => y.indexNo === x.indexNo);
+            return { ...x, inDatabase: !!learner, adm: learner?.adm };
+        });
+
+        req.sendResponse.respond(
+            learners,
+            `${learners.length} learner(s) have deferred admissions, ${
+                learners.filter(x => !x.inDatabase).length
+            } of them are not in the database.`
+        );
+    } catch (err) {
+        sendErrorMessage(req, err);
+    }
+};
+
+/**
+ * Queue the admission of deferred learners, all learners marked as deferred are admitted if no adm
+ * number is given.
+ */
+const admitDeferredLearners = async (req: Request) => {
+    try {
+        let hasBody = Array.isArray(req.body) || Object.keys(req.body ?? {}).length > 0;
+        let learnersToAdmit = hasBody ? admitDeferredSchema.parse(req.body) : undefined;
+
+        let learners = await learnerModel
+            .find({
+                institutionId: req.institution._id,
+                continuing: false,
+                indexNo: { $nin: [null, undefined, 0, ''] },
+                admitted: { $in: [null, false] },
+                archived: false,
+                ...(learnersToAdmit
+                    ? { adm: { $in: learnersToAdmit.map(x => x.adm) } }
+                    : { 'deferred.status': 'deferred' })
+            })
+            .sort({ adm: 'asc' })
+            .select('_id');
+
+        if (learners.length === 0) {
+            throw new CustomError(
+                learnersToAdmit
+                    ? 'None of the learners can be admitted. Learners must be joining learners with an index number who are not yet admitted.'
+                    : 'There are no deferred learners to admit. List deferred admissions at /nemis/deferred to detect them.',
+                400,
+                'no_valid_learner_to_admit'
+            );
+        }
+
+        // Admission runs in the background, the job id is used to check on progress at /api/jobs/:id
+        let job = await jobQueue.enqueue(
+            'admitDeferred',
+            req.institution._id,
+            learners.map(x => x._id),
+            { tokenId: req.token?._id, concurrency: req.queryParams?.concurrency }
+        );
+
+        req.sendResponse.respond(
+            job,
+            `Admission of ${learners.length} deferred learner(s) has been queued. Check progress at /api/jobs/${job._id}`,
+            202
+        );
+    } catch (err) {
+        sendErrorMessage(req, err);
+    }
+};
+
+export { getDeferredLearners, admitDeferredLearners };
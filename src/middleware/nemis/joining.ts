@@ -5,10 +5,10 @@
 import { sendErrorMessage } from "@middleware/utils/middleware_error_handler";
 import { Request } from "express";
 import learner from "@database/learner";
-import { NemisWebService } from "@libs/nemis/nemis_web_handler";
+import nemisSessions from "@libs/nemis/session_pool";
 import CustomError from "@libs/error_handler";
-import { CaptureBiodataResponse, ListAdmittedLearner } from "types/nemisApiTypes";
 import { uniqueIdentifierSchema } from "@libs/zod_validation";
+import jobQueue from "@libs/jobs";
 
 const captureJoiningLearner = async (req: Request) => {
     try {
@@ -24,128 +24,43 @@ const captureJoiningLearner = async (req: Request) => {
                 dob: { $exists: true },
                 archived: false
             })
-            .sort({ birthCertificateNo: 1 });
+            .sort({ birthCertificateNo: 1 })
+            .select('_id');
 
-        // Get list of captured learners frm Nemis website
-        const nemis = new NemisWebService();
-        let cookie = await nemis.login(req.institution.username, req.institution.password);
-
-        let listCapturedLearners = await nemis.listLearners('form 1');
-
-        // Sort to reduce search time
-        if (listCapturedLearners.length > 10) {
-            listCapturedLearners.sort((a, b) =>
-                a.birthCertificateNo.localeCompare(b.birthCertificateNo)
-            );
-        }
+        // Learners without birth certificate can not be captured, report it on the learner
+        await learner.updateMany(
+            {
+                continuing: false,
+                institutionId: req.institution._id,
+                indexNo: { $nin: [null, undefined, 0, ''] },
+                admitted: true,
+                upi: { $exists: false, $in: [null, undefined, 0, ''] },
+                birthCertificateNo: { $in: [null, undefined, 0, ''] },
+                archived: false
+            },
+            { error: 'Learner has no birth certificate assigned' }
+        );
 
-        // Filter out learner who aren't captured on Nemis
-        let learnerToCapture: typeof learnerNotCaptured = [];
-        for (const learner of learnerNotCaptured) {
-            let listLearner = listCapturedLearners.find(
-                x => x.birthCertificateNo === learner.birthCertificateNo
+        if (learnerNotCaptured.length === 0) {
+            throw new CustomError(
+                'There are no admitted learners awaiting bio-data capture. Make sure learners are admitted and have birth certificate numbers before continuing.',
+                400,
+                'no_valid_learner_to_capture'
             );
-            if (listLearner) {
-                learner.upi = listLearner.upi;
-                learner.reported = true;
-                learner.error = undefined;
-            } else {
-                learnerToCapture.push(learner);
-            }
-        }
-
-        // Update database to match with Nemis
-        await Promise.all(learnerNotCaptured.map(x => (x.reported ? x.save() : Promise.resolve())));
-
-        // Get list of admitted learner to get learner Postback values
-        let learnerWithPostback = [] as unknown as [
-            [(typeof learnerNotCaptured)[number], ListAdmittedLearner | CustomError]
-        ];
-
-        if (learnerToCapture.length > 0) {
-            // Match learnerToCapture with their respective postback
-            let admittedLearner = await nemis.listAdmittedJoiningLearners();
-
-            for (let i = 0; i < learnerToCapture.length; i++) {
-                let admitted = admittedLearner.find(x => x.indexNo === learnerToCapture[i].indexNo);
-                if (admitted) {
-                    learnerWithPostback.push([learnerToCapture[i], admitted]);
-                } else {
-                    learnerWithPostback.push([
-                        learnerToCapture[i],
-                        new CustomError('Learner is not admitted yet', 400)
-                    ]);
-                }
-            }
         }
 
-        // Capture bio-data for the filtered learners
-        let captureResults = await Promise.allSettled(
-            learnerWithPostback.map(learner => {
-                return new Promise((resolve, reject) => {
-                    if (learner[1] instanceof CustomError) {
-                        reject([learner]);
-                    } else {
-                        new NemisWebService(cookie, nemis.getState())
-                            .captureJoiningBiodata(learner[0], learner[1])
-                            .then(captureResults => {
-                                resolve([learner[0], captureResults]);
-                            })
-                            .catch(err => {
-                                reject([learner[0], err]);
-                            });
-                    }
-                });
-            })
-        );
-
-        // Update database with any errors and upi's captured
-        let results = await Promise.all(
-            captureResults.map(x => {
-                if (x.status === 'fulfilled') {
-                    let value = x.value as [
-                        (typeof learnerNotCaptured)[number],
-                        CaptureBiodataResponse
-                    ];
-
-                    value[0].upi = value[1].upi;
-                    value[0].error = undefined;
-                    value[0].reported = true;
-
-                    return value[0].save();
-                } else {
-                    let value = x.reason as [(typeof learnerNotCaptured)[number], CustomError];
-
-                    value[0].error = value[1].message;
-
-                    return value[0].save();
-                }
-            })
+        // Capture runs in the background, the job id is used to check on progress at /api/jobs/:id
+        let job = await jobQueue.enqueue(
+            'captureJoining',
+            req.institution._id,
+            learnerNotCaptured.map(x => x._id),
+            { tokenId: req.token?._id, concurrency: req.queryParams?.concurrency }
         );
 
-        // Check if we have learner without birth certificate and report to user before returning
-        let learnerWithoutBCert = await learner.find({
-            continuing: false, // Only admit joining learners,
-            institutionId: req.institution._id,
-            indexNo: { $nin: [null, undefined, 0, ''] }, // Learner must have an index number
-            admitted: true,
-            upi: { $exists: false, $in: [null, undefined, 0, ''] },
-            birthCertificateNo: { $exists: false, $in: [null, undefined, 0, ''] },
-            archived: false
-        });
-
-        if (learnerWithoutBCert.length > 0) {
-            return req.sendResponse.respond(
-                learnerWithoutBCert.map(x => ({
-                    ...x.toJSON,
-                    error: 'Learner has no birth certificate assigned'
-                })),
-                'All learners have already been captured'
-            );
-        }
-        return req.sendResponse.respond(
-            [...results, ...learnerWithoutBCert],
-            'All learners have already been captured'
+        req.sendResponse.respond(
+            job,
+            `Bio-data capture of ${learnerNotCaptured.length} learners has been queued. Check progress at /api/jobs/${job._id}`,
+            202
         );
     } catch (err: any) {
         sendErrorMessage(req, err);
@@ -187,10 +102,9 @@ const captureSingleJoiningLearner = async (req: Request) => {
             return;
         }
         // Get list of captured learners frm Nemis website
-        const nemis = new NemisWebService();
-        let cookie = await nemis.login(req.institution.username, req.institution.password);
-
-        let listCapturedLearners = await nemis.listLearners(learnerNotCaptured.grade);
+        let listCapturedLearners = await nemisSessions.withSession(req.institution, nemis =>
+            nemis.listLearners(learnerNotCaptured.grade)
+        );
 
         // Check if learner is already captured
         let listLearner = listCapturedLearners.find(
@@ -214,26 +128,34 @@ const captureSingleJoiningLearner = async (req: Request) => {
 
         // Capture learners bio-data if not captured
         // Match learnerToCapture with respective postback
-        let admittedLearner = await nemis.listAdmittedJoiningLearners();
-
-        let admitted = admittedLearner.find(x => x.indexNo === learnerNotCaptured.indexNo);
-        if (!admitted) {
-            Object.assign(learnerNotCaptured, { admitted: false });
-            await learnerNotCaptured.save();
-            throw new CustomError(
-                'Learner is not yet admitted to NEMIS. Make sure learner is admitted before trying to capture bio-data',
-                400
-            );
-        }
-
-        // Capture bio-data for the filtered learners
         let res = await Promise.allSettled([
-            new NemisWebService(cookie, nemis.getState()).captureJoiningBiodata(
-                learnerNotCaptured,
-                admitted
-            )
+            nemisSessions.withSession(req.institution, async nemis => {
+                let admittedLearner = await nemis.listAdmittedJoiningLearners();
+
+                let admitted = admittedLearner.find(x => x.indexNo === learnerNotCaptured.indexNo);
+                if (!admitted) {
+                    Object.assign(learnerNotCaptured, { admitted: false });
+                    await learnerNotCaptured.save();
+                    throw new CustomError(
+                        'Learner is not yet admitted to NEMIS. Make sure learner is admitted before trying to capture bio-data',
+                        400,
+                        'not_admitted'
+                    );
+                }
+
+                // Capture bio-data for the filtered learners
+                return nemis.captureJoiningBiodata(learnerNotCaptured, admitted);
+            })
         ]);
 
+        if (
+            res[0].status === 'rejected' &&
+            res[0].reason instanceof CustomError &&
+            res[0].reason.cause === 'not_admitted'
+        ) {
+            throw res[0].reason;
+        }
+
         // Update database with any errors and upi's captured
         if (res[0].status === 'fulfilled') {
             Object.assign(learnerNotCaptured, {
@@ -1,3 +1,90 @@
 /*
  * Copyright (c) 2023. MIT License. Maina Derrick.
  */
+
+import { Request } from 'express';
+import { z } from 'zod';
+import learnerModel from '@database/learner';
+import CustomError from '@libs/error_handler';
+import jobQueue from '@libs/jobs';
+import { gradesSchema } from '@libs/zod_validation';
+import { sendErrorMessage } from '@middleware/utils/middleware_error_handler';
+
+const nhifQuerySchema = z
+    .object({
+        grade: gradesSchema,
+        // Only submit learners whose last submission failed
+        retry: z.enum(['true', 'false']).transform(x => x === 'true')
+    })
+    .partial();
+
+// Captured learners without an NHIF number
+const learnersWithoutNhif = (req: Request, query: z.infer<typeof nhifQuerySchema>) => {
+    let queryObject = {
+        institutionId: req.institution._id,
+        upi: { $exists: true, $nin: [null, ''] },
+        nhifNo: { $in: [null, undefined, 0] },
+        archived: false
+    };
+    if (query.grade) Object.assign(queryObject, { grade: { $eq: query.grade } });
+    if (query.retry)
+        Object.assign(queryObject, { 'nhif.error': { $exists: true, $nin: [null, ''] } });
+    return learnerModel.find(queryObject);
+};
+
+const submitNhif = async (req: Request) => {
+    try {
+        let query = nhifQuerySchema.parse(req.query);
+
+        let learnersToSubmit = await learnersWithoutNhif(req, query)
+            .sort({ grade: 1, adm: 1 })
+            .select('_id');
+
+        if (learnersToSubmit.length === 0) {
+            throw new CustomError(
+                query.retry
+                    ? 'There are no failed NHIF submissions to retry.'
+                    : 'All captured learners have NHIF numbers. Capture learners before submitting them to NHIF.',
+                400,
+                'no_valid_learner_to_submit'
+            );
+        }
+
+        // Submission runs in the background, the job id is used to check on progress at /api/jobs/:id
+        let job = await jobQueue.enqueue(
+            'submitNhif',
+            req.institution._id,
+            learnersToSubmit.map(x => x._id),
+            { tokenId: req.token?._id, concurrency: req.queryParams?.concurrency }
+        );
+
+        req.sendResponse.respond(
+            job,
+            `NHIF submission of ${learnersToSubmit.length} learners has been queued. Check progress at /api/jobs/${job._id}`,
+            202
+        );
+    } catch (err) {
+        sendErrorMessage(req, err);
+    }
+};
+
+const listNhifFailures = async (req: Request) => {
+    try {
+        let query = nhifQuerySchema.parse(req.query);
+
+        let failed = await learnersWithoutNhif(req, { ...query, retry: true })
+            .sort({ grade: 1, adm: 1 })
+            .select('adm name grade stream upi nhif');
+
+        req.sendResponse.respond(
+            failed,
+            failed.length === 0
+                ? 'There are no failed NHIF submissions.'
+                : `${failed.length} learner(s) failed to submit to NHIF. Retry them using POST /api/nemis/nhif?retry=true`
+        );
+    } catch (err) {
+        sendErrorMessage(req, err);
+    }
+};
+
+export { submitNhif, listNhifFailures };
@@ -0,0 +1,381 @@
+/*
+ * Copyright (c) 2023. MIT License. Maina Derrick.
+ */
+
+import { Request } from 'express';
+import { z } from 'zod';
+import learnerModel from '@database/learner';
+import continuingLearnerModel from '@database/continuing_learner';
+import CustomError from '@libs/error_handler';
+import nemisSessions from '@libs/nemis/session_pool';
+import NemisApiService from '@libs/nemis/nemis_api_handler';
+import { requestingJoiningLearnerSchema } from '@libs/nemis/validations';
+import requestPoller from '@libs/request_poller';
+import { sendErrorMessage } from '@middleware/utils/middleware_error_handler';
+import { RequestedJoiningLearner } from 'types/nemisApiTypes';
+
+const joiningRequestToMake = z.object({
+    adm: z.coerce
+        .string()
+        .trim()
+        .min(1)
+        .refine(val => val !== 'undefined', 'Adm number can not be empty or undefined.'),
+    // Reason for the request, NEMIS uses the parent's id number if none is given
+    requestedBy: z.string().trim().max(200).optional()
+});
+
+const joiningRequestSchema = z
+    .union([joiningRequestToMake, z.array(joiningRequestToMake).min(1)], {
+        errorMap: () => ({
+            message: 'Expected an array of {adm, requestedBy} for the joining learners to request.'
+        })
+    })
+    .transform(x => (Array.isArray(x) ? x : [x]));
+
+const continuingRequestToMake = z.object({
+    adm: z.coerce
+        .string()
+        .trim()
+        .min(1)
+        .refine(val => val !== 'undefined', 'Adm number can not be empty or undefined.'),
+    // Reason the learner is being requested, shown to the approving officer
+    remarks: z.string().trim().max(200).optional()
+});
+
+const continuingRequestSchema = z
+    .union([continuingRequestToMake, z.array(continuingRequestToMake).min(1)], {
+        errorMap: () => ({
+            message: 'Expected an array of {adm, remarks} for the continuing learners to request.'
+        })
+    })
+    .transform(x => (Array.isArray(x) ? x : [x]));
+
+const cancelJoiningSchema = z.object({
+    indexNo: z.coerce.string().trim().length(11, 'Index number must be 11 characters long.')
+});
+
+/**
+ * Update joining requests of learners in the database with their status on NEMIS. Requests no longer
+ * listed were deleted on the NEMIS website and are marked as cancelled.
+ */
+const syncJoiningRequests = async (req: Request, requests: RequestedJoiningLearner[]) => {
+    await learnerModel.updateMany(
+        {
+            institutionId: req.institution._id,
+            indexNo: { $nin: requests.map(x => x.indexNo) },
+            'joiningRequest.status': 'pending',
+            archived: false
+        },
+        { 'joiningRequest.status': 'cancelled' }
+    );
+
+    return requestPoller.recordJoiningApprovals(
+        req.institution,
+        requests.filter(x => x.approved?.on),
+        { tokenId: req.token?._id }
+    );
+};
+
+const listJoiningRequests = async (req: Request) => {
+    try {
+        let requests = await nemisSessions.withSession(req.institution, nemis =>
+            nemis.getRequestedJoiningLearners()
+        );
+        let job = await syncJoiningRequests(req, requests);
+
+        req.sendResponse.respond(
+            // Delete callbacks are only valid with the view state of the session that listed them
+            { requests: requests.map(({ deleteCallback, ...x }) => x), job: job },
+            `${requests.length} joining request(s) found, ${
+                requests.filter(x => !x.approved?.on).length
+            } awaiting approval.` +
+                (job ? ` Admission of newly approved learners has been queued.` : '')
+        );
+    } catch (err) {
+        sendErrorMessage(req, err);
+    }
+};
+
+const listApprovedJoiningRequests = async (req: Request) => {
+    try {
+        let { approved, job } = await requestPoller.checkJoining(req.institution, {
+            tokenId: req.token?._id
+        });
+
+        req.sendResponse.respond(
+            { approved: approved, job: job },
+            `${approved.length} joining request(s) have been approved.` +
+                (job ? ` Admission of newly approved learners has been queued.` : '')
+        );
+    } catch (err) {
+        sendErrorMessage(req, err);
+    }
+};
+
+const requestJoiningLearners = async (req: Request) => {
+    try {
+        let learnersToRequest = joiningRequestSchema.parse(req.body);
+
+        let learners = await learnerModel.find({
+            institutionId: req.institution._id,
+            adm: { $in: learnersToRequest.map(x => x.adm) },
+            archived: false
+        });
+
+        let requested = [];
+        let failed = [];
+
+        for (const learnerToRequest of learnersToRequest) {
+            try {
+                let learner = learners.find(x => x.adm === learnerToRequest.adm);
+                if (!learner) {
+                    throw new CustomError(
+                        `Learner with adm ${learnerToRequest.adm} was not found. Add the learner to the database first.`,
+                        404
+                    );
+                }
+                if (learner.continuing) {
+                    throw new CustomError('Only joining learners can be requested.', 400);
+                }
+                if (learner.admitted) {
+                    throw new CustomError('Learner is already admitted.', 400);
+                }
+                if (['pending', 'approved'].includes(learner.joiningRequest?.status ?? '')) {
+                    throw new CustomError(
+                        `Learner was already requested and the request is ${learner.joiningRequest?.status}.`,
+                        400
+                    );
+                }
+
+                // NEMIS needs a parent's id number and phone number to make a request
+                let parent = [learner.father, learner.mother, learner.guardian].find(
+                    x => x?.id && x?.tel
+                );
+                let requestingLearner = requestingJoiningLearnerSchema.safeParse({
+                    indexNo: learner.indexNo,
+                    parentTel: parent?.tel,
+                    parentId: parent?.id,
+                    adm: learner.adm,
+                    requestedBy: learnerToRequest.requestedBy
+                });
+                if (!requestingLearner.success) {
+                    throw new CustomError(
+                        "Learner must have an index number and a parent's id and phone number to be requested.",
+                        400,
+                        requestingLearner.error.flatten()
+                    );
+                }
+
+                let { admission } = await new NemisApiService().admitApiCalls(
+                    requestingLearner.data.indexNo
+                );
+                if (admission instanceof CustomError) throw admission;
+
+                if (admission.selectedSchool?.knecCode === req.institution.knecCode) {
+                    throw new CustomError(
+                        'Learner was selected to your institution, admit them instead.',
+                        400
+                    );
+                }
+
+                await nemisSessions.withSession(req.institution, nemis =>
+                    nemis.requestJoiningLearner(requestingLearner.data.indexNo, {
+                        ...admission,
+                        ...requestingLearner.data
+                    })
+                );
+
+                Object.assign(learner, {
+                    joiningRequest: {
+                        status: 'pending',
+                        requestedBy: requestingLearner.data.requestedBy,
+                        requestedOn: new Date()
+                    },
+                    error: undefined
+                });
+                requested.push(await learner.save());
+            } catch (err: any) {
+                failed.push({ ...learnerToRequest, error: err?.message || String(err) });
+            }
+        }
+
+        if (requested.length === 0) {
+            throw new CustomError(
+                'None of the learners was requested. Please check the following errors',
+                400,
+                failed
+            );
+        }
+
+        req.sendResponse.respond(
+            { requested: requested, failed: failed },
+            `${requested.length} joining learner(s) requested, they will be admitted once their request is approved` +
+                (failed.length > 0 ? `. ${failed.length} request(s) failed.` : '.')
+        );
+    } catch (err) {
+        sendErrorMessage(req, err);
+    }
+};
+
+const cancelJoiningRequest = async (req: Request) => {
+    try {
+        let { indexNo } = cancelJoiningSchema.parse(req.params);
+
+        let cancelled = await nemisSessions.withSession(req.institution, nemis =>
+            nemis.cancelJoiningRequest(indexNo)
+        );
+
+        let learner = await learnerModel.findOneAndUpdate(
+            { institutionId: req.institution._id, indexNo: { $eq: indexNo }, archived: false },
+            { 'joiningRequest.status': 'cancelled' },
+            { returnDocument: 'after' }
+        );
+
+        req.sendResponse.respond(
+            learner ?? cancelled,
+            `Joining request for ${cancelled.name ?? indexNo} was cancelled.`
+        );
+    } catch (err) {
+        sendErrorMessage(req, err);
+    }
+};
+
+const listContinuingRequests = async (req: Request) => {
+    try {
+        let { requested, approved } = await nemisSessions.withSession(
+            req.institution,
+            async nemis => ({
+                requested: await nemis.getRequestedContinuingLearners(),
+                approved: await nemis.getPendingContinuingLearners()
+            })
+        );
+        let job = await requestPoller.recordContinuingApprovals(req.institution, approved, {
+            tokenId: req.token?._id
+        });
+
+        let requests = requested.map(request => {
+            let approval = approved.find(x => x.birthCertificateNo === request.birthCertificateNo);
+            return {
+                ...request,
+                upi: approval?.upi || undefined,
+                status: approval ? (approval.upi ? 'captured' : 'approved') : 'pending'
+            };
+        });
+
+        req.sendResponse.respond(
+            { requests: requests, job: job },
+            `${requests.length} continuing learner request(s) found, ${
+                requests.filter(x => x.status === 'pending').length
+            } awaiting approval.` +
+                (job ? ` Capture of newly approved learners has been queued.` : '')
+        );
+    } catch (err) {
+        sendErrorMessage(req, err);
+    }
+};
+
+const requestContinuingLearners = async (req: Request) => {
+    try {
+        let learnersToRequest = continuingRequestSchema.parse(req.body);
+
+        let learners = await learnerModel.find({
+            institutionId: req.institution._id,
+            adm: { $in: learnersToRequest.map(x => x.adm) },
+            archived: false
+        });
+        let existingRequests = await continuingLearnerModel
+            .find({ learnerId: { $in: learners.map(x => x._id) } })
+            .select('learnerId status')
+            .lean();
+
+        let requested = [];
+        let failed = [];
+
+        for (const learnerToRequest of learnersToRequest) {
+            try {
+                let learner = learners.find(x => x.adm === learnerToRequest.adm);
+                if (!learner) {
+                    throw new CustomError(
+                        `Learner with adm ${learnerToRequest.adm} was not found. Add the learner to the database first.`,
+                        404
+                    );
+                }
+                if (!learner.continuing) {
+                    throw new CustomError(
+                        'Only continuing learners can be requested, request joining learners using /nemis/request/joining.',
+                        400
+                    );
+                }
+                if (learner.upi) {
+                    throw new CustomError(
+                        `Learner is already captured with UPI ${learner.upi}.`,
+                        400
+                    );
+                }
+                if (!learner.birthCertificateNo) {
+                    throw new CustomError('Learner has no birth certificate number.', 400);
+                }
+                let existingRequest = existingRequests.find(x => x.learnerId?.equals(learner!._id));
+                if (existingRequest) {
+                    throw new CustomError(
+                        `Learner was already requested and the request is ${existingRequest.status}.`,
+                        400
+                    );
+                }
+
+                await nemisSessions.withSession(req.institution, nemis =>
+                    nemis.requestContinuingLearners({
+                        ...learner!.toObject(),
+                        remarks: learnerToRequest.remarks
+                    })
+                );
+
+                let continuingRequest = await continuingLearnerModel.create({
+                    name: learner.name,
+                    adm: learner.adm,
+                    gender: learner.gender,
+                    kcpeYear: learner.kcpeYear,
+                    indexNo: learner.indexNo,
+                    birthCertificateNo: learner.birthCertificateNo,
+                    grade: learner.grade,
+                    remarks: learnerToRequest.remarks,
+                    learnerId: learner._id,
+                    institutionId: req.institution._id,
+                    status: 'pending',
+                    requestedOn: new Date()
+                });
+
+                Object.assign(learner, { continuingId: continuingRequest._id, error: undefined });
+                await learner.save();
+                requested.push(continuingRequest);
+            } catch (err: any) {
+                failed.push({ ...learnerToRequest, error: err?.message || String(err) });
+            }
+        }
+
+        if (requested.length === 0) {
+            throw new CustomError(
+                'None of the learners was requested. Please check the following errors',
+                400,
+                failed
+            );
+        }
+
+        req.sendResponse.respond(
+            { requested: requested, failed: failed },
+            `${requested.length} continuing learner(s) requested, they will be captured once their request is approved` +
+                (failed.length > 0 ? `. ${failed.length} request(s) failed.` : '.')
+        );
+    } catch (err) {
+        sendErrorMessage(req, err);
+    }
+};
+
+export {
+    listJoiningRequests,
+    listApprovedJoiningRequests,
+    requestJoiningLearners,
+    cancelJoiningRequest,
+    listContinuingRequests,
+    requestContinuingLearners
+};
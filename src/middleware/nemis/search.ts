@@ -6,6 +6,8 @@ import { Request } from 'express';
 import  NemisApiService  from '@libs/nemis/nemis_api_handler';
 import { sendErrorMessage } from '@middleware/utils/middleware_error_handler';
 import CustomError from '@libs/error_handler';
+import learner from '@database/learner';
+import { isNameMatch, nemisScore } from '@libs/name_match';
 
 export default async (req: Request) => {
 	try {
@@ -18,7 +20,35 @@ export default async (req: Request) => {
 
 		let searchResults = await new NemisApiService().searchLearner(req.params.uniqueIdentifier);
 
-		return req.sendResponse.respond(searchResults, 'Query was successful.');
+		// Score how closely the learner in the database matches the one returned by NEMIS
+		let databaseLearner = await learner.findOne({
+			institutionId: req.institution._id,
+			$or: [
+				{ upi: { $eq: req.params.uniqueIdentifier } },
+				{ birthCertificateNo: { $eq: req.params.uniqueIdentifier } }
+			],
+			archived: false
+		});
+		if (!databaseLearner) {
+			return req.sendResponse.respond(searchResults, 'Query was successful.');
+		}
+
+		databaseLearner.nemisScore = nemisScore(databaseLearner.name, searchResults.name);
+		await databaseLearner.save();
+
+		let nameMatch = {
+			adm: databaseLearner.adm,
+			name: databaseLearner.name,
+			nemisScore: databaseLearner.nemisScore,
+			isMatch: isNameMatch(databaseLearner.name, searchResults.name)
+		};
+
+		return req.sendResponse.respond(
+			{ ...searchResults, nameMatch: nameMatch },
+			nameMatch.isMatch
+				? 'Query was successful.'
+				: `Query was successful, but the name of learner ${databaseLearner.adm} doesn't match the name on NEMIS.`
+		);
 	} catch (err: any) {
 		sendErrorMessage(req, err);
 	}
@@ -1,3 +1,156 @@
 /*
  * Copyright (c) 2023. MIT License. Maina Derrick.
  */
+
+import { Request } from 'express';
+import { z } from 'zod';
+import learnerModel from '@database/learner';
+import CustomError from '@libs/error_handler';
+import nemisSessions from '@libs/nemis/session_pool';
+import { validateLearnerJson } from '@libs/import_excel';
+import { sendErrorMessage } from '@middleware/utils/middleware_error_handler';
+
+const selectedLearnerToImport = z.object({
+    indexNo: z.coerce
+        .string()
+        .trim()
+        .refine(val => val !== 'undefined', 'Index number of the learner is required.'),
+    adm: z.coerce
+        .string()
+        .trim()
+        .min(1)
+        .refine(val => val !== 'undefined', 'Adm number can not be empty or undefined.'),
+    stream: z.string().trim().optional()
+});
+
+// A learner or an array of learners, selected learners don't have admission numbers so one is required
+const importSelectedSchema = z
+    .union([selectedLearnerToImport, z.array(selectedLearnerToImport).min(1)], {
+        errorMap: () => ({
+            message:
+                'Expected an array of {indexNo, adm, stream} for the selected learners to import.'
+        })
+    })
+    .transform(x => (Array.isArray(x) ? x : [x]));
+
+// Selected learners marked with whether they are already in the database
+const listSelected = async (req: Request) => {
+    let selected = await nemisSessions.withSession(req.institution, nemis =>
+        nemis.getSelectedLearners()
+    );
+
+    let inDatabase = await learnerModel
+        .find({
+            institutionId: req.institution._id,
+            indexNo: { $in: selected.map(x => x.indexNo) },
+            archived: false
+        })
+        .select('adm indexNo')
+        .lean();
+
+    return selected.map(x => {
+        let learner = inDatabase.find(y => y.indexNo === x.indexNo);
+        return { ...x, inDatabase: !!learner, adm: learner?.adm };
+    });
+};
+
+const getSelectedLearners = async (req: Request) => {
+    try {
+        let selected = await listSelected(req);
+
+        req.sendResponse.respond(
+            selected,
+            `${selected.length} learner(s) were selected to your institution, ${
+                selected.filter(x => !x.inDatabase).length
+            } of them are not in the database.`
+        );
+    } catch (err) {
+        sendErrorMessage(req, err);
+    }
+};
+
+const importSelectedLearners = async (req: Request) => {
+    try {
+        let learnersToImport = importSelectedSchema.parse(req.body);
+
+        let selected = await listSelected(req);
+
+        // Admission numbers are unique across the collection
+        let usedAdm = (
+            await learnerModel
+                .find({ adm: { $in: learnersToImport.map(x => x.adm) } })
+                .select('adm')
+                .lean()
+        ).map(x => x.adm);
+
+        let imported = [];
+        let failed = [];
+
+        for (const learnerToImport of learnersToImport) {
+            let selectedLearner = selected.find(x => x.indexNo === learnerToImport.indexNo);
+            if (!selectedLearner) {
+                failed.push({
+                    ...learnerToImport,
+                    error: 'Learner was not selected to your institution.'
+                });
+                continue;
+            }
+            if (selectedLearner.inDatabase) {
+                failed.push({
+                    ...learnerToImport,
+                    error: `Learner is already in the database with adm ${selectedLearner.adm}.`
+                });
+                continue;
+            }
+            if (usedAdm.includes(learnerToImport.adm)) {
+                failed.push({
+                    ...learnerToImport,
+                    error: `Adm ${learnerToImport.adm} is already used by another learner.`
+                });
+                continue;
+            }
+
+            let learner = validateLearnerJson({
+                adm: learnerToImport.adm,
+                stream: learnerToImport.stream,
+                name: selectedLearner.name,
+                gender: selectedLearner.gender,
+                grade: 'form 1',
+                indexNo: selectedLearner.indexNo,
+                marks: selectedLearner.marks
+            });
+            if (learner.validationError) {
+                failed.push({ ...learnerToImport, error: learner.validationError });
+                continue;
+            }
+
+            imported.push(
+                await learnerModel.create({
+                    ...learner,
+                    institutionId: req.institution._id,
+                    continuing: false,
+                    archived: false
+                })
+            );
+            usedAdm.push(learnerToImport.adm);
+        }
+
+        if (imported.length === 0) {
+            throw new CustomError(
+                'None of the selected learners was imported. Please check the following errors',
+                400,
+                failed
+            );
+        }
+
+        req.sendResponse.respond(
+            { imported: imported, failed: failed },
+            `${imported.length} selected learner(s) added to the database as joining learners` +
+                (failed.length > 0 ? `, ${failed.length} failed to import.` : '.')
+        );
+    } catch (err) {
+        sendErrorMessage(req, err);
+    }
+};
+
+export { getSelectedLearners, importSelectedLearners };
@@ -0,0 +1,253 @@
+/*
+ * Copyright (c) 2023. MIT License. Maina Derrick.
+ */
+
+import { Request } from 'express';
+import { z } from 'zod';
+import learnerModel from '@database/learner';
+import CustomError from '@libs/error_handler';
+import nemisSessions from '@libs/nemis/session_pool';
+import NemisApiService from '@libs/nemis/nemis_api_handler';
+import { sendErrorMessage } from '@middleware/utils/middleware_error_handler';
+import { TransferRequest } from 'types/nemisApiTypes';
+
+// Reasons NEMIS accepts for a transfer and the value of each in its reasons dropdown
+const TRANSFER_REASONS = { relocation: '1', discipline: '2', other: '3' } as const;
+
+const transferInSchema = z
+    .object({
+        adm: z.coerce.string().trim().min(1),
+        upi: z.coerce.string().trim().toLowerCase().min(1),
+        birthCertificateNo: z.coerce.string().trim().min(1),
+        reason: z
+            .enum(Object.keys(TRANSFER_REASONS) as [keyof typeof TRANSFER_REASONS])
+            .default('relocation'),
+        remarks: z.string().trim().max(200)
+    })
+    .partial({ adm: true, upi: true, birthCertificateNo: true, remarks: true })
+    .refine(x => x.adm || x.upi || x.birthCertificateNo, {
+        message: 'Expected the adm, upi or birthCertificateNo of the learner to transfer in.'
+    });
+
+const releaseSchema = z.object({
+    upi: z.coerce
+        .string({ required_error: 'Expected the upi of the learner to release.' })
+        .trim()
+        .toLowerCase()
+        .min(1)
+});
+
+/**
+ * Update learners in the database with the status of their transfer on NEMIS. Learners transferred in
+ * are marked as reported once the institution they were in releases them.
+ */
+const syncTransfers = async (req: Request, method: 'in' | 'out', requests: TransferRequest[]) => {
+    // Updated one at a time so each change is audited, bulkWrite skips the audit plugin
+    for (const request of requests) {
+        let filter = {
+            institutionId: req.institution._id,
+            upi: { $eq: request.upi },
+            archived: false
+        };
+        let transfer = {
+            'transfer.method': method,
+            'transfer.institution': request.institution,
+            'transfer.status': request.status,
+            'transfer.reason': request.reason,
+            'transfer.remarks': request.remarks
+        };
+        if (request.status === 'pending') {
+            await learnerModel.updateOne(filter, { $set: transfer });
+            continue;
+        }
+        // Only update learners whose release hasn't been recorded yet to keep releasedOn
+        await learnerModel.updateOne(
+            { ...filter, 'transfer.status': { $ne: 'released' } },
+            {
+                $set: {
+                    ...transfer,
+                    'transfer.releasedOn': new Date(),
+                    ...(method === 'in' ? { admitted: true, reported: true } : {})
+                },
+                ...(method === 'in' ? { $unset: { error: '' } } : {})
+            }
+        );
+    }
+};
+
+const getTransferRequests = async (req: Request, method: 'in' | 'out') => {
+    let requests = await nemisSessions.withSession(req.institution, nemis =>
+        nemis.getTransferRequests(method)
+    );
+    await syncTransfers(req, method, requests);
+    return requests;
+};
+
+const listTransfers = async (req: Request) => {
+    try {
+        let transfers = {
+            in: await getTransferRequests(req, 'in'),
+            out: await getTransferRequests(req, 'out')
+        };
+
+        req.sendResponse.respond(
+            transfers,
+            `${transfers.in.length} transfer in and ${transfers.out.length} transfer out request(s) found.`
+        );
+    } catch (err) {
+        sendErrorMessage(req, err);
+    }
+};
+
+const listTransfersIn = async (req: Request) => {
+    try {
+        let transfers = await getTransferRequests(req, 'in');
+
+        req.sendResponse.respond(
+            transfers,
+            `${transfers.length} transfer in request(s) found, ${
+                transfers.filter(x => x.status === 'pending').length
+            } awaiting release.`
+        );
+    } catch (err) {
+        sendErrorMessage(req, err);
+    }
+};
+
+const listTransfersOut = async (req: Request) => {
+    try {
+        let transfers = await getTransferRequests(req, 'out');
+
+        req.sendResponse.respond(
+            transfers,
+            `${transfers.length} transfer out request(s) found, ${
+                transfers.filter(x => x.status === 'pending').length
+            } awaiting release.`
+        );
+    } catch (err) {
+        sendErrorMessage(req, err);
+    }
+};
+
+const requestTransferIn = async (req: Request) => {
+    try {
+        let { adm, upi, birthCertificateNo, reason, remarks } = transferInSchema.parse(req.body);
+
+        let learner = await learnerModel.findOne({
+            $or: [
+                ...(adm ? [{ adm: { $eq: adm } }] : []),
+                ...(upi ? [{ upi: { $eq: upi } }] : []),
+                ...(birthCertificateNo ? [{ birthCertificateNo: { $eq: birthCertificateNo } }] : [])
+            ],
+            institutionId: req.institution._id,
+            archived: false
+        });
+
+        if (adm && !learner) {
+            throw new CustomError(
+                `Learner with adm ${adm} was not found. Add the learner to the database or use their upi or birth certificate number.`,
+                404,
+                'not_found'
+            );
+        }
+
+        let identifier = upi || learner?.upi || birthCertificateNo || learner?.birthCertificateNo;
+        if (!identifier) {
+            throw new CustomError(
+                'Learner has no upi or birth certificate number to transfer them with.',
+                400
+            );
+        }
+
+        // Check where the learner is currently admitted
+        let searchResults = await new NemisApiService().searchLearner(identifier);
+        let currentInstitution = searchResults.currentInstitution;
+        if (!currentInstitution?.code) {
+            throw new CustomError(
+                `Learner ${searchResults.name} is not admitted at any institution, capture them as a continuing learner instead.`,
+                400
+            );
+        }
+        if (currentInstitution.code.toLowerCase() === req.institution.code.toLowerCase()) {
+            throw new CustomError(
+                `Learner ${searchResults.name} is already admitted at your institution.`,
+                400
+            );
+        }
+
+        let transferred = await nemisSessions.withSession(req.institution, nemis =>
+            nemis.transferIn(
+                { upi: searchResults.upi ?? undefined, birthCertificateNo: identifier },
+                { reason: TRANSFER_REASONS[reason], remarks: remarks }
+            )
+        );
+        if (!transferred) {
+            throw new CustomError(
+                `Transfer request failed. Learner is admitted at ${currentInstitution.name}, ${currentInstitution.code} with UPI:${searchResults.upi}`,
+                400
+            );
+        }
+
+        let transfer = {
+            method: 'in' as const,
+            institution: { code: currentInstitution.code, name: currentInstitution.name },
+            status: 'pending' as const,
+            reason: reason,
+            remarks: remarks,
+            requestedOn: new Date()
+        };
+        if (learner) {
+            Object.assign(learner, {
+                transfer: transfer,
+                upi: searchResults.upi?.toLowerCase(),
+                error: `Transfer request saved. Learner awaits to be release from ${currentInstitution.name}, ${currentInstitution.code}`
+            });
+            await learner.save();
+        }
+
+        req.sendResponse.respond(
+            learner ?? {
+                upi: searchResults.upi?.toLowerCase(),
+                name: searchResults.name,
+                transfer: transfer
+            },
+            `Transfer request saved. Learner awaits to be released from ${currentInstitution.name}, ${currentInstitution.code}`
+        );
+    } catch (err) {
+        sendErrorMessage(req, err);
+    }
+};
+
+const releaseTransferOut = async (req: Request) => {
+    try {
+        let { upi } = releaseSchema.parse({ ...req.body, ...req.query });
+
+        let released = await nemisSessions.withSession(req.institution, nemis =>
+            nemis.releaseLearner(upi)
+        );
+
+        let learner = await learnerModel.findOneAndUpdate(
+            { institutionId: req.institution._id, upi: { $eq: released.upi } },
+            {
+                transfer: {
+                    method: 'out',
+                    institution: released.institution,
+                    status: 'released',
+                    reason: released.reason,
+                    remarks: released.remarks,
+                    releasedOn: new Date()
+                }
+            },
+            { returnDocument: 'after' }
+        );
+
+        req.sendResponse.respond(
+            learner ?? released,
+            `Learner ${released.name} was released to ${released.institution.name}, ${released.institution.code}.`
+        );
+    } catch (err) {
+        sendErrorMessage(req, err);
+    }
+};
+
+export { listTransfers, listTransfersIn, listTransfersOut, requestTransferIn, releaseTransferOut };
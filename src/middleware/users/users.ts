@@ -0,0 +1,140 @@
+/*
+ * Copyright (c) 2023. MIT License. Maina Derrick.
+ */
+
+import { Request } from 'express';
+import mongoose from 'mongoose';
+import { z } from 'zod';
+import tokenModel from '@database/token';
+import userModel, { USER_ROLES } from '@database/user';
+import { hashPassword } from '@libs/crypt';
+import CustomError from '@libs/error_handler';
+import { sendErrorMessage } from '@middleware/utils/middleware_error_handler';
+
+const passwordSchema = z
+    .string({ invalid_type_error: 'Password must be of type string.' })
+    .min(8, 'Password must be at least 8 characters long.');
+
+const newUserSchema = z.object({
+    username: z
+        .string({ required_error: 'Username is required.' })
+        .trim()
+        .toLowerCase()
+        .regex(
+            /^[a-z0-9._-]{3,}$/,
+            'Username must be at least 3 letters, digits, ".", "_" or "-".'
+        ),
+    name: z.string().trim().optional(),
+    password: passwordSchema,
+    role: z.enum(USER_ROLES)
+});
+
+const updateUserSchema = newUserSchema
+    .omit({ username: true })
+    .partial()
+    .refine(
+        x => Object.keys(x).length > 0,
+        'Send at least one of name, password or role to update.'
+    );
+
+// Users are returned without their password hash
+const userToJson = (user: InstanceType<typeof userModel>) => {
+    let { passwordHash, ...userObject } = user.toObject();
+    return userObject;
+};
+
+const findUser = async (req: Request) => {
+    let id = req.params.id;
+    if (!mongoose.isValidObjectId(id)) throw new CustomError(`Invalid user id ${id}.`, 400);
+
+    let user = await userModel.findOne({
+        _id: id,
+        institutionId: req.institution._id,
+        archived: false
+    });
+    if (!user) throw new CustomError(`User with id ${id} was not found.`, 404, 'not_found');
+    return user;
+};
+
+const listUsers = async (req: Request) => {
+    try {
+        let users = await userModel
+            .find({ institutionId: req.institution._id, archived: false })
+            .sort({ username: 1 });
+
+        req.sendResponse.respond(users.map(userToJson), `${users.length} user(s) found.`);
+    } catch (err) {
+        sendErrorMessage(req, err);
+    }
+};
+
+const createUser = async (req: Request) => {
+    try {
+        let { password, ...newUser } = newUserSchema.parse(req.body);
+
+        if (
+            await userModel.exists({
+                institutionId: req.institution._id,
+                username: newUser.username
+            })
+        ) {
+            throw new CustomError(`Username ${newUser.username} is already taken.`, 409);
+        }
+
+        let user = await userModel.create({
+            ...newUser,
+            institutionId: req.institution._id,
+            passwordHash: hashPassword(password),
+            createdBy: req.token._id
+        });
+
+        req.sendResponse.respond(userToJson(user), 'User created successfully.', 201);
+    } catch (err) {
+        sendErrorMessage(req, err);
+    }
+};
+
+const updateUser = async (req: Request) => {
+    try {
+        let { password, ...update } = updateUserSchema.parse(req.body);
+        let user = await findUser(req);
+
+        if (req.user?._id.equals(user._id) && update.role && update.role !== 'admin') {
+            throw new CustomError('Admins can not remove their own admin role.', 400);
+        }
+
+        user.set(update);
+        if (password) user.passwordHash = hashPassword(password);
+        await user.save();
+
+        req.sendResponse.respond(userToJson(user), 'User updated successfully.');
+    } catch (err) {
+        sendErrorMessage(req, err);
+    }
+};
+
+// Users are archived, not deleted, and their tokens can no longer be used
+const deleteUser = async (req: Request) => {
+    try {
+        let user = await findUser(req);
+        if (req.user?._id.equals(user._id)) {
+            throw new CustomError('Admins can not remove themselves.', 400);
+        }
+
+        user.archived = true;
+        await user.save();
+        await tokenModel.updateMany(
+            { userId: user._id, archived: false },
+            {
+                archived: true,
+                revoked: { on: Date.now(), by: req.institution._id, reason: 'user was removed' }
+            }
+        );
+
+        req.sendResponse.respond(userToJson(user), 'User removed successfully.');
+    } catch (err) {
+        sendErrorMessage(req, err);
+    }
+};
+
+export { createUser, deleteUser, listUsers, updateUser };
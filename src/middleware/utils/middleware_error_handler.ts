@@ -9,6 +9,7 @@ import { ZodError } from 'zod';
 import { stat } from 'fs';
 import { AxiosError } from 'axios';
 import { log } from 'console';
+import { isNemisUnavailable } from '@libs/nemis/resilience';
 
 export function sendErrorMessage(req: Request, err: any, next?: NextFunction) {
     // If no error and next is not undefined, call next()
@@ -35,6 +36,15 @@ export function sendErrorMessage(req: Request, err: any, next?: NextFunction) {
         message = `Validation error. ${JSON.stringify(err.flatten().fieldErrors)}`;
     }
 
+    // NEMIS could not be reached, even when the error was wrapped by the caller
+    if (isNemisUnavailable(err)) {
+        statusCode = 503;
+        message =
+            err instanceof CustomError && err.cause === 'nemis_unavailable'
+                ? err.message
+                : 'NEMIS is not responding at the moment. Try again later.';
+    }
+
     if (err instanceof  SyntaxError){
         // @ts-ignore
         if(err?.body){
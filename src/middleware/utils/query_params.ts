@@ -14,7 +14,9 @@ const queryParameterSchema = zod.object({
     transfer: zod
         .enum(['true', 'false'])
         .transform(x => x === 'true')
-        .optional()
+        .optional(),
+    // Number of learners processed at the same time by bulk operations
+    concurrency: zod.coerce.number().int().min(1).optional()
 });
 
 const queryParametersMiddleware = (req: Request, res: Response, next: NextFunction) => {
@@ -3,6 +3,7 @@
  */
 
 import { Request, Response } from "express";
+import { Readable, pipeline } from "node:stream";
 import logger from "@libs/logger";
 
 interface SetHeaders {
@@ -198,6 +199,41 @@ export default class {
         }
     }
 
+    // Send a file, such as an exported Excel sheet, as a download
+    download(data: Buffer, fileName: string, contentType: string) {
+        this.setHeaders({
+            Authorization: 'Bearer ' + this.request?.token?.token,
+            'Access-Control-Expose-Headers': 'Authorization Expires',
+            Expires: new Date(Date.now() + 2.592e9).toUTCString()
+        });
+
+        //check if a response has been sent
+        if (this.response?.headersSent) {
+            return logger.warn('Headers sent');
+        }
+        this.response.status(200).attachment(fileName).type(contentType).send(data);
+    }
+
+    // Stream a file, such as an export of many learners, as a download
+    downloadStream(stream: Readable, fileName: string, contentType: string) {
+        this.setHeaders({
+            Authorization: 'Bearer ' + this.request?.token?.token,
+            'Access-Control-Expose-Headers': 'Authorization Expires',
+            Expires: new Date(Date.now() + 2.592e9).toUTCString()
+        });
+
+        //check if a response has been sent
+        if (this.response?.headersSent) {
+            stream.destroy();
+            return logger.warn('Headers sent');
+        }
+        this.response.status(200).attachment(fileName).type(contentType);
+        // Headers are already sent if the stream fails, the response is ended early instead
+        pipeline(stream, this.response, err => {
+            if (err) logger.error(err);
+        });
+    }
+
     /*private validateDataBeforeSend(data: any) {
       //check if array or object
       //if array check length and content type
@@ -37,11 +37,12 @@ export default (req: Request, res: Response, next: NextFunction) => {
 		if (
 			![
 				'application/vnd.ms-excel',
-				'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet'
+				'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+				'text/csv'
 			].includes(file.mimetype)
 		) {
 			throw new CustomError(
-				"Invalid file format. Please upload an Excel file with the extension '.xls' or '.xlsx'." +
+				"Invalid file format. Please upload an Excel file with the extension '.xls', '.xlsx' or '.csv'." +
 					"Received file with mimetype '${file.mimetype}' which is not supported.",
 				400
 			);
@@ -0,0 +1,12 @@
+/*
+ * Copyright (c) 2023. MIT License. Maina Derrick.
+ */
+
+import { Router } from 'express';
+import { listAuditEntries } from '@middleware/audit/audit';
+
+const auditRoute = Router();
+
+auditRoute.get('/', listAuditEntries);
+
+export default auditRoute;
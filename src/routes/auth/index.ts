@@ -7,6 +7,8 @@ import { Router } from 'express';
 import refreshToken from '@middleware/auth/refresh_token';
 import registerToken from '@middleware/auth/register_token';
 import recoverToken from '@middleware/auth/recover_token';
+import login from '@middleware/auth/login';
+import { listTokens, logout, revokeAllTokens, revokeToken } from '@middleware/auth/tokens';
 
 const authRouter = Router();
 
@@ -16,4 +18,12 @@ authRouter.post('/register', json(), registerToken);
 
 authRouter.post('/recover', json(), recoverToken);
 
+authRouter.post('/login', json(), login);
+
+authRouter.post('/logout', logout);
+
+authRouter.get('/tokens', listTokens);
+authRouter.delete('/tokens', json(), revokeAllTokens);
+authRouter.delete('/tokens/:id', json(), revokeToken);
+
 export default authRouter;
@@ -3,10 +3,14 @@
  */
 
 import { Router } from 'express';
+import auditRoute from './audit';
 import authRouter from './auth';
 import institution from './institution/institution';
+import jobRoute from './jobs';
+import keysRoute from './keys';
 import learner_router from './learner';
 import { nemisRoute } from './nemis/nemis_router';
+import usersRoute from './users';
 
 const apiRouter = Router();
 
@@ -15,6 +19,10 @@ apiRouter.use('/nemis', nemisRoute);
 apiRouter.use('/learner', learner_router);
 
 apiRouter.use('/institution', institution);
+apiRouter.use('/jobs', jobRoute);
+apiRouter.use('/users', usersRoute);
+apiRouter.use('/keys', keysRoute);
+apiRouter.use('/audit', auditRoute);
 
 export default apiRouter;
 
@@ -26,19 +34,56 @@ export default apiRouter;
  *              [POST] => register an institution✅
  *          /refresh✅
  *              [GET] => refresh jwt token✅
+ *          /login✅
+ *              [POST] {code, username, password} => log in a user of an institution and get a token✅
+ *          /logout✅
+ *              [POST] => revoke the token used to make the request✅
+ *          /tokens✅
+ *              [GET] => list active tokens, all tokens of the institution for admins, own tokens for other users✅
+ *              [DELETE] {reason} => revoke all listed tokens except the one used to make the request✅
+ *              /{id}✅
+ *                  [DELETE] {reason} => revoke a token✅
  *
  *     /institution✅
  *          [GET] => get institution details✅
  *          [PATCH] => update institution✅
  *          [DELETE] => delete an institution✅
  *
+ *     /users✅
+ *          [GET] => list users of the institution, admins only✅
+ *          [POST] {username, name, password, role} => add a user with the admin, registrar or read-only role✅
+ *          /{id}✅
+ *              [PATCH] {name, password, role} => update a user✅
+ *              [DELETE] => remove a user, revoking their tokens✅
+ *
+ *     /keys?{revoked}✅
+ *          [GET] => list API keys of the institution without the keys themselves, admins only✅
+ *          [POST] {name, scopes, expires} => create an API key with the given scopes, the key is only returned once✅
+ *          /{id}✅
+ *              [DELETE] {reason} => revoke an API key✅
+ *
+ *     /audit?{action, model, targetId, adm, source, tokenId, userId, apiKeyId, jobId, from, to, limit}✅
+ *          [GET] => list changes made to learners, the institution, users, tokens and API keys and actions taken
+ *              on nemis, most recent first, admins only✅
+ *
+ *     /jobs✅
+ *          [GET] => list bulk admission and capture jobs queued by the institution✅
+ *          /{id}✅
+ *              [GET] => get job status and progress of each learner in the job✅
+ *
  *     /learner_router
  *          [GET] => get all learners from APIs database
+ *          /list/export?{format=xlsx|csv, list query}✅
+ *              [GET] => download listed learners using the same columns as the Excel importer✅
  *          [PATCH] => update multiple learners using json in APIs database
  *
  *          /add
  *               [POST] => add multiple learners using json to APIs database
  *               [PUT] => add multiple learner_router using Excel file ✅
+ *                  ?preview=true => report row by row what importing the file would do, without saving✅
+ *                  ?annotate=true => download the file with failed cells highlighted and commented✅
+ *               /template✅
+ *                  [GET] => download an Excel template with header hints and dropdowns✅
  *          /admit
  *              /new
  *                  [POST] {adm if in db || a complete learner_router object || none to admit all form ones}
@@ -56,27 +101,66 @@ export default apiRouter;
  *          /search?{birthCertificateNo||upi} => search learner_router information from nemis api
  *              (http://nemis.education.go.ke/generic/api/Learner/StudUpi/{upi/birthCertificateNo}) ✅
  *
- *         /transfer
- *              [GET] => get all transfers
- *              /in
- *                  [GET] => get all transfer in requests
- *                  [POST] {adm || upi || birthCertificateNo, reason,remarks} => transfer out specified learner_router
- *              /out
- *                  [GET] => get all transfer out requests
- *                  [POST]?{upi} => transfer out a requested learner_router
+ *         /transfer✅
+ *              [GET] => get all transfers✅
+ *              /in✅
+ *                  [GET] => get all transfer in requests✅
+ *                  [POST] {adm || upi || birthCertificateNo, reason,remarks} => request to transfer in specified learner_router✅
+ *              /out✅
+ *                  [GET] => get all transfer out requests✅
+ *                  [POST]?{upi} => release a learner_router requested by another institution✅
+ *
+ *         /nhif?{grade, retry}✅
+ *              [GET] => get learners whose NHIF submission failed✅
+ *              [POST] => queue a job submitting captured learners without an NHIF number to NHIF✅
+ *
+ *         /request/joining✅
+ *              [GET] => get joining requests and their status, queueing admission of approved learners✅
+ *              [POST] {adm, requestedBy} || array => request learners selected to other institutions✅
+ *              /approved✅
+ *                  [GET] => get approved joining requests, queueing admission of approved learners✅
+ *              /{indexNo}✅
+ *                  [DELETE] => cancel a joining request awaiting approval✅
+ *         /request/continuing✅
+ *              [GET] => get continuing learner requests and their status, queueing capture of approved learners✅
+ *              [POST] {adm, remarks} || array => request continuing learners who were never admitted on nemis✅
  *
  *        /selected
- *              [GET] => get all selected learners✅
+ *              [GET] => get all selected learners, marking those already in APIs database✅
+ *              [POST] {indexNo, adm, stream} || array => add selected learners to APIs database as joining learners✅
+ *
+ *        /deferred✅
+ *              [GET] => get learners whose admission was deferred, marking them as deferred in APIs database✅
+ *              [POST] {adm} || array => queue admission of deferred learners, all learners marked as deferred if
+ *                  no adm is given✅
  *
  *       /admit
  *              [GET] => get already admitted learners
  *              [POST]?{array<adm> || adm} => admit learner_router if adm is specified or all forms one learner_router
  *                  who isn't already admitted. this end point also requests learners if they weren't selected
  *
- *      /sync
+ *      /diff✅
+ *          [GET] => compare learners in APIs database with learners captured on nemis, reporting learners only
+ *              on nemis, only in APIs database and mismatched names, dob, gender and grade✅
+ *          [POST] {upi, adm, stream} || array => add learners only on nemis to APIs database✅
+ *
+ *      /duplicates?{grade, minConfidence}✅
+ *          [GET] => get groups of probable duplicate learners matched by name, dob, gender, birth certificate
+ *              number and parent's contacts✅
+ *          /merge✅
+ *              [POST] {keep, remove} => merge two duplicate learners, keeping links to nemis and archiving the
+ *                  removed learner✅
+ *
+ *      /sync✅
  *          [Get] => trigger database sync to import all learners from nemis and match them to adm number
- *              in APIs database
+ *              in APIs database✅
+ *          /history?{status, limit}✅
+ *              [GET] => get sync runs of the institution, most recent first✅
+ *              /{id}✅
+ *                  [GET] => get a sync run with learners updated and errors met✅
  *
- *      /report?{admitted,captured, nhif,birthCertificate,index}
- *          [GET] => get a report of all learners with issues
+ *      /report?{admitted,captured, nhif,birthCertificate,index,error,grade,stream}✅
+ *          [GET] => get a report of all learners with issues grouped by grade and stream✅
+ *          /export?{format=xlsx|csv, report query}✅
+ *              [GET] => download learners with issues, one row per learner✅
  */
@@ -0,0 +1,13 @@
+/*
+ * Copyright (c) 2023. MIT License. Maina Derrick.
+ */
+
+import { Router } from 'express';
+import { getJob, listJobs } from '@middleware/jobs/jobs';
+
+const jobRoute = Router();
+
+jobRoute.get('/', listJobs);
+jobRoute.get('/:id', getJob);
+
+export default jobRoute;
@@ -0,0 +1,14 @@
+/*
+ * Copyright (c) 2023. MIT License. Maina Derrick.
+ */
+
+import { json, Router } from 'express';
+import { createApiKey, listApiKeys, revokeApiKey } from '@middleware/keys/keys';
+
+const keysRoute = Router().use(json());
+
+keysRoute.get('/', listApiKeys);
+keysRoute.post('/', createApiKey);
+keysRoute.delete('/:id', revokeApiKey);
+
+export default keysRoute;
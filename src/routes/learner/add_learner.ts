@@ -3,9 +3,14 @@
  */
 
 import { Router } from "express";
-import { addLearnerByFile, addLearnerByJson } from "@middleware/learner/add_learner";
+import {
+    addLearnerByFile,
+    addLearnerByJson,
+    downloadLearnerTemplate
+} from "@middleware/learner/add_learner";
 import fileUpload from "express-fileupload";
 import verify_excel_upload from "@middleware/utils/verify_excel_upload";
+import { restoreAuditActor } from "@libs/audit";
 
 
 const addLearnerRoute = Router();
@@ -18,9 +23,13 @@ addLearnerRoute.post(["/joining/excel", "/continuing/excel"], fileUpload({
         parseNested: true,
         createParentPath: true
     }),
+    // The audit actor is lost while the upload is streamed
+    restoreAuditActor,
     verify_excel_upload,
     addLearnerByFile);
 
 addLearnerRoute.post(["/joining/json", "/continuing/json"], addLearnerByJson);
 
+addLearnerRoute.get("/template", downloadLearnerTemplate);
+
 export default addLearnerRoute;
\ No newline at end of file
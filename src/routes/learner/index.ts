@@ -5,14 +5,27 @@
 import { Router } from "express";
 import addLearnerRoute from "./add_learner";
 import { searchLearner } from "@middleware/learner/search_learner";
-import { syncLearnerDatabase } from "@middleware/learner/sync_learner";
+import { getSyncHistory, getSyncRun, syncLearnerDatabase } from "@middleware/learner/sync_learner";
+import { getDatabaseDiff, importNemisLearners } from "@middleware/learner/diff_learners";
+import { getDuplicateLearners, mergeDuplicateLearners } from "@middleware/learner/duplicates";
 import { deleteSingleLearner } from "@middleware/learner/delete_learner";
 import listLearners from "@middleware/learner/list_learners";
+import { getLearnerReport } from "@middleware/learner/report";
+import { exportLearnerList, exportLearnerReport } from "@middleware/learner/export_learners";
 
 const learnerRoute = Router();
 
 learnerRoute.use('/add', addLearnerRoute);
 learnerRoute.get('/list', listLearners);
+learnerRoute.get('/list/export', exportLearnerList);
+learnerRoute.get('/report', getLearnerReport);
+learnerRoute.get('/report/export', exportLearnerReport);
+learnerRoute.get('/diff', getDatabaseDiff);
+learnerRoute.post('/diff', importNemisLearners);
+learnerRoute.get('/duplicates', getDuplicateLearners);
+learnerRoute.post('/duplicates/merge', mergeDuplicateLearners);
+learnerRoute.get('/sync/history', getSyncHistory);
+learnerRoute.get('/sync/history/:id', getSyncRun);
 learnerRoute.use('/sync', syncLearnerDatabase);
 
 learnerRoute.get('/search/:uniqueIdentifier', searchLearner);
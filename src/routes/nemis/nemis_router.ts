@@ -6,13 +6,29 @@ import { Router } from 'express';
 import { admitRoute } from './admit_router';
 import search from '@middleware/nemis/search';
 import { captureRoute } from './capture_router';
+import { transferRoute } from './transfer_router';
+import { requestRoute } from './request_router';
+import { listNhifFailures, submitNhif } from '@middleware/nemis/nhif';
+import { getSelectedLearners, importSelectedLearners } from '@middleware/nemis/selected';
+import { admitDeferredLearners, getDeferredLearners } from '@middleware/nemis/deferred';
 
 const nemisRoute = Router();
 
 nemisRoute.use('/capture', captureRoute);
 nemisRoute.use('/admit', admitRoute);
+nemisRoute.use('/transfer', transferRoute);
+nemisRoute.use('/request', requestRoute);
 
 //nemisRoute.get('/list/learners');
 nemisRoute.get('/search/:uniqueIdentifier', search);
 
+nemisRoute.get('/nhif', listNhifFailures);
+nemisRoute.post('/nhif', submitNhif);
+
+nemisRoute.get('/selected', getSelectedLearners);
+nemisRoute.post('/selected', importSelectedLearners);
+
+nemisRoute.get('/deferred', getDeferredLearners);
+nemisRoute.post('/deferred', admitDeferredLearners);
+
 export { nemisRoute };
@@ -0,0 +1,25 @@
+/*
+ * Copyright (c) 2023. MIT License. Maina Derrick.
+ */
+
+import { Router } from 'express';
+import {
+    cancelJoiningRequest,
+    listApprovedJoiningRequests,
+    listContinuingRequests,
+    listJoiningRequests,
+    requestContinuingLearners,
+    requestJoiningLearners
+} from '@middleware/nemis/request';
+
+const requestRoute = Router();
+
+requestRoute.get('/joining', listJoiningRequests);
+requestRoute.post('/joining', requestJoiningLearners);
+requestRoute.get('/joining/approved', listApprovedJoiningRequests);
+requestRoute.delete('/joining/:indexNo', cancelJoiningRequest);
+
+requestRoute.get('/continuing', listContinuingRequests);
+requestRoute.post('/continuing', requestContinuingLearners);
+
+export { requestRoute };
@@ -0,0 +1,24 @@
+/*
+ * Copyright (c) 2023. MIT License. Maina Derrick.
+ */
+
+import { Router } from 'express';
+import {
+    listTransfers,
+    listTransfersIn,
+    listTransfersOut,
+    releaseTransferOut,
+    requestTransferIn
+} from '@middleware/nemis/transfer';
+
+const transferRoute = Router();
+
+transferRoute.get('/', listTransfers);
+
+transferRoute.get('/in', listTransfersIn);
+transferRoute.post('/in', requestTransferIn);
+
+transferRoute.get('/out', listTransfersOut);
+transferRoute.post('/out', releaseTransferOut);
+
+export { transferRoute };
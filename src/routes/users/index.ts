@@ -0,0 +1,15 @@
+/*
+ * Copyright (c) 2023. MIT License. Maina Derrick.
+ */
+
+import { json, Router } from 'express';
+import { createUser, deleteUser, listUsers, updateUser } from '@middleware/users/users';
+
+const usersRoute = Router().use(json());
+
+usersRoute.get('/', listUsers);
+usersRoute.post('/', createUser);
+usersRoute.patch('/:id', updateUser);
+usersRoute.delete('/:id', deleteUser);
+
+export default usersRoute;
@@ -4,10 +4,11 @@
 
 import { JwtPayload } from 'jsonwebtoken';
 import send_response from '@middleware/utils/send_response';
-import { DatabaseInstitution, DatabaseToken } from '../nemisApiTypes';
+import { DatabaseApiKey, DatabaseInstitution, DatabaseToken, DatabaseUser } from '../nemisApiTypes';
 import { NemisWebService } from '@libs/nemis/nemis_web_handler';
 import { z as zod } from 'zod';
 import { queryParameterSchema } from '@middleware/utils/query_params';
+import { AuditActor } from '@libs/audit';
 
 declare module 'express-serve-static-core' {
 	export interface Request {
@@ -26,6 +27,12 @@ declare module 'express-serve-static-core' {
 		decodedToken: JwtPayload;
 		institution: DatabaseInstitution;
 		token: DatabaseToken;
+		// User the token was issued to, undefined when the institution's own token is used
+		user?: DatabaseUser;
+		// API key used instead of a token, req.token is undefined when set
+		apiKey?: DatabaseApiKey;
+		// Actor changes made by the request are recorded against in the audit log
+		auditActor?: AuditActor;
 		sendResponse: send_response;
 		queryParams: zod.infer<typeof queryParameterSchema>;
 	}
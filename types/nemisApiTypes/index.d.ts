@@ -13,6 +13,7 @@ import {
   requestingJoiningLearnerSchema,
   searchLearnerSchema
 } from "@libs/nemis/validations";
+import learnerModel from "@database/learner";
 
 /**
  * Continuing learner_router for a database
@@ -79,6 +80,23 @@ export interface JoiningLearnerBiodata extends CompleteLearner {
 
 export type CaptureBiodataResponse = { upi?: string; message: string; alertMessage?: string };
 
+/**
+ * Bulk operations that run in the background using the job queue
+ */
+export type JobType = "admitJoining" | "captureJoining" | "captureContinuing" | "captureRequested" | "admitDeferred" | "submitNhif";
+
+/**
+ * A learner document as loaded by the job queue
+ */
+export type JobLearner = InstanceType<typeof learnerModel>;
+
+export interface JobProcessor<C> {
+    // Runs each time a job is started or resumed, eg. to log in and list learners already on NEMIS
+    prepare: (institution: DatabaseInstitution, learners: JobLearner[], options: Record<string, any>) => Promise<C>;
+    // Processes a single learner. Changes made to the learner are saved by the job queue
+    process: (context: C, learner: JobLearner) => Promise<{ message?: string; result?: any }>;
+}
+
 export interface DatabaseInstitution extends Institution, Document {
     username: string;
     password: string;
@@ -95,8 +113,11 @@ export interface DatabaseToken extends Document {
     token?: string;
     tokenSecret: string;
     createdAt: Date;
+    lastUsed?: Date;
     expires: Date;
     institutionId: mongoose.Types.ObjectId;
+    // User the token was issued to, undefined for tokens issued to the institution on registration
+    userId?: mongoose.Types.ObjectId;
     revoked?: {
         on?: Date;
         by?: mongoose.Types.ObjectId;
@@ -105,6 +126,37 @@ export interface DatabaseToken extends Document {
     archived: boolean;
 }
 
+export type UserRole = "admin" | "registrar" | "read-only";
+
+export interface DatabaseUser extends Document {
+    institutionId: mongoose.Types.ObjectId;
+    username: string;
+    name?: string;
+    passwordHash: string;
+    role: UserRole;
+    createdBy?: mongoose.Types.ObjectId;
+    createdAt: Date;
+    lastLogin?: Date;
+    archived: boolean;
+}
+
+export interface DatabaseApiKey extends Document {
+    institutionId: mongoose.Types.ObjectId;
+    name: string;
+    prefix: string;
+    keyHash: string;
+    scopes: string[];
+    createdBy?: mongoose.Types.ObjectId;
+    createdAt: Date;
+    lastUsed?: Date;
+    expires?: Date;
+    revoked?: {
+        on?: Date;
+        by?: mongoose.Types.ObjectId;
+        reason?: string;
+    };
+}
+
 export interface QueryParams {
     dob?: Date;
     admitted?: boolean;
@@ -410,6 +462,37 @@ export interface AdmittedJoiningLearners {
 export interface RequestedJoiningLearner extends ApprovedLearner {
 }
 
+export interface DeferredLearner {
+    no: number;
+    indexNo: string;
+    name: string;
+    gender: string;
+    yob: number;
+    marks: number;
+    subCounty: string;
+    // Post-back argument used to admit the learner, only valid with the view state of the listing session
+    admitCallback?: string;
+}
+
+export interface TransferRequest {
+    no: number;
+    upi: string;
+    name: string;
+    gender: string;
+    grade: string;
+    // Institution the learner is moving from on a transfer in, or to on a transfer out
+    institution: {
+        code: string;
+        name: string;
+    };
+    reason?: string;
+    remarks?: string;
+    requestedOn?: string;
+    status: "pending" | "released";
+    // Post back used to release the learner, only set on pending transfer out requests
+    releaseCallback?: string;
+}
+
 export interface SchoolSelected {
     originalString?: string;
     code: string;